@@ -8,11 +8,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { scanMultiplePairs, summarizeMultiScan } from '../../lib/signals/scanner';
 import { createAndSaveSetup, logScan, getActiveSetups } from '../../lib/supabase';
-import { RECOMMENDED_PAIRS, isValidTimeframe } from '../../lib/config';
-import { Pair, Timeframe } from '../../types/types';
-
-// Proxy URL for OANDA API (set in environment)
-const PROXY_URL = process.env.OANDA_PROXY_URL || '';
+import { getScanPairs, isValidTimeframe, toInstruments } from '../../lib/config';
+import { createCandleSourceFromEnv, loadInstrumentCatalogFromEnv } from '../../lib/sources/factory';
+import { Timeframe } from '../../types/types';
 
 /**
  * POST /api/scan
@@ -20,8 +18,8 @@ const PROXY_URL = process.env.OANDA_PROXY_URL || '';
  * 
  * Body:
  * {
- *   timeframe: 'M15' | 'M30' | 'H1' | 'H4',
- *   pairs?: ['EUR_USD', 'GBP_USD', ...],
+ *   timeframe: 'M5' | 'M15' | 'M30' | 'H1' | 'H4' | 'D1' | 'W1',
+ *   pairs?: ['EUR_USD', 'GBP_JPY', 'NAS100_USD', ...],  // any catalog instrument
  * }
  */
 export async function POST(request: NextRequest) {
@@ -32,20 +30,29 @@ export async function POST(request: NextRequest) {
     // Validate timeframe
     if (!timeframe || !isValidTimeframe(timeframe)) {
       return NextResponse.json(
-        { error: 'Invalid timeframe. Must be M15, M30, H1, or H4' },
+        { error: 'Invalid timeframe. Must be M5, M15, M30, H1, H4, D1 or W1' },
         { status: 400 }
       );
     }
 
-    // Use provided pairs or defaults
-    const pairsToScan: Pair[] = pairs && Array.isArray(pairs) 
-      ? pairs 
-      : RECOMMENDED_PAIRS;
+    // Use provided pairs or defaults; they must be configured or in the
+    // instrument catalog
+    await loadInstrumentCatalogFromEnv();
+    const { pairs: pairsToScan, unknown: unknownPairs } = pairs && Array.isArray(pairs)
+      ? toInstruments(pairs)
+      : getScanPairs();
+    if (unknownPairs.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown instruments: ${unknownPairs.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Check proxy URL
-    if (!PROXY_URL) {
+    // Candle source (proxy, direct OANDA or CSV - see lib/sources/factory.ts)
+    const { source, error: sourceError } = createCandleSourceFromEnv();
+    if (!source) {
       return NextResponse.json(
-        { error: 'OANDA_PROXY_URL not configured' },
+        { error: sourceError },
         { status: 500 }
       );
     }
@@ -54,7 +61,7 @@ export async function POST(request: NextRequest) {
     const scanResult = await scanMultiplePairs({
       pairs: pairsToScan,
       timeframe: timeframe as Timeframe,
-      proxyUrl: PROXY_URL,
+      source,
     });
 
     // Save any new setups to database
@@ -81,10 +88,15 @@ export async function POST(request: NextRequest) {
       duration: scanResult.totalDuration,
       pairsScanned: pairsToScan.length,
       signalsFound: scanResult.signalsFound.length,
+      pairsFailed: scanResult.failed.length,
       newSetupsCreated: savedSetups.length,
       results: scanResult.results.map(r => ({
         pair: r.pair,
+        status: r.status,
+        error: r.error,
+        dataQuality: r.dataQuality,
         trend: r.trend,
+        trendAlignment: r.trendAlignment,
         wicklessDetected: r.wicklessDetected,
         setup: r.setup ? {
           direction: r.setup.direction,
@@ -12,10 +12,13 @@ import {
   updateSignalOutcome,
   getAllStats,
   getStatsForPair,
-  getActiveSetups
+  getActiveSetups,
+  getClosedSignals
 } from '../../lib/supabase';
-import { isValidPair } from '../../lib/config';
-import { Pair } from '../../types/types';
+import { toInstrument } from '../../lib/config';
+import { loadInstrumentCatalogFromEnv } from '../../lib/sources/factory';
+import { calculateMetricsBreakdown } from '../../lib/signals/metrics';
+import { MetricsBreakdown } from '../../types/types';
 
 /**
  * GET /api/signals
@@ -25,16 +28,21 @@ import { Pair } from '../../types/types';
  * - type: 'open' | 'recent' | 'all' (default: 'recent')
  * - limit: number (default: 50)
  * - pair: filter by pair
- * - stats: 'true' to include stats
+ * - stats: 'true' to include stats and performance metrics
+ *   (overall and by pair, timeframe and direction)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') || 'recent';
     const limit = parseInt(searchParams.get('limit') || '50');
-    const pair = searchParams.get('pair');
+    const pairParam = searchParams.get('pair');
     const includeStats = searchParams.get('stats') === 'true';
 
+    // Pairs beyond the configured ones need the catalog
+    await loadInstrumentCatalogFromEnv();
+    const pair = pairParam ? toInstrument(pairParam) : null;
+
     let signals;
     
     switch (type) {
@@ -48,18 +56,22 @@ export async function GET(request: NextRequest) {
     }
 
     // Filter by pair if specified
-    if (pair && isValidPair(pair)) {
+    if (pair) {
       signals = signals.filter(s => s.pair === pair);
     }
 
     // Get stats if requested
     let stats = null;
+    let metrics: MetricsBreakdown | null = null;
     if (includeStats) {
-      if (pair && isValidPair(pair)) {
-        stats = await getStatsForPair(pair as Pair);
+      if (pair) {
+        stats = await getStatsForPair(pair);
       } else {
         stats = await getAllStats();
       }
+
+      const closedSignals = await getClosedSignals(pair ?? undefined);
+      metrics = calculateMetricsBreakdown(closedSignals);
     }
 
     // Get active setups count
@@ -78,10 +90,12 @@ export async function GET(request: NextRequest) {
         entryTime: s.entryTime,
         outcome: s.outcome,
         outcomeTime: s.outcomeTime,
+        netR: s.netR,
       })),
       count: signals.length,
       activeSetups: activeSetups.length,
       stats,
+      metrics,
     });
 
   } catch (error) {
@@ -132,7 +146,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update the signal
+    // Update the signal (fails if it already has an outcome)
     const success = await updateSignalOutcome(
       id, 
       outcome, 
@@ -142,7 +156,7 @@ export async function POST(request: NextRequest) {
 
     if (!success) {
       return NextResponse.json(
-        { error: 'Failed to update signal' },
+        { error: 'Failed to update signal (not found or already closed)' },
         { status: 500 }
       );
     }
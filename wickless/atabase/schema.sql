@@ -22,6 +22,7 @@ CREATE TABLE IF NOT EXISTS active_setups (
   signal_candle_high DECIMAL(20, 10) NOT NULL,
   signal_candle_low DECIMAL(20, 10) NOT NULL,
   signal_candle_close DECIMAL(20, 10) NOT NULL,
+  signal_spread DECIMAL(20, 10),
   
   -- Trade levels
   entry_zone DECIMAL(20, 10) NOT NULL,
@@ -37,6 +38,9 @@ CREATE TABLE IF NOT EXISTS active_setups (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Migration for databases created before bid/ask candles
+ALTER TABLE active_setups ADD COLUMN IF NOT EXISTS signal_spread DECIMAL(20, 10);
+
 -- Index for faster queries
 CREATE INDEX IF NOT EXISTS idx_active_setups_pair ON active_setups(pair);
 CREATE INDEX IF NOT EXISTS idx_active_setups_status ON active_setups(status);
@@ -66,10 +70,20 @@ CREATE TABLE IF NOT EXISTS signals (
   outcome_time TIMESTAMPTZ,
   outcome_price DECIMAL(20, 10),
   
+  -- Costs (fills include spread/slippage, net_r is after commission)
+  entry_fill_price DECIMAL(20, 10),
+  exit_fill_price DECIMAL(20, 10),
+  net_r DECIMAL(10, 4),
+  
   -- Metadata
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Migration for databases created before the cost model
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS entry_fill_price DECIMAL(20, 10);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS exit_fill_price DECIMAL(20, 10);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS net_r DECIMAL(10, 4);
+
 -- Index for faster queries
 CREATE INDEX IF NOT EXISTS idx_signals_pair ON signals(pair);
 CREATE INDEX IF NOT EXISTS idx_signals_outcome ON signals(outcome);
@@ -91,6 +105,10 @@ CREATE TABLE IF NOT EXISTS stats (
   losses INT DEFAULT 0,
   expired INT DEFAULT 0,
   
+  -- R totals (before and after costs)
+  gross_r DECIMAL(12, 4) DEFAULT 0,
+  net_r DECIMAL(12, 4) DEFAULT 0,
+  
   -- Metadata
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   
@@ -98,6 +116,9 @@ CREATE TABLE IF NOT EXISTS stats (
   UNIQUE(pair, timeframe)
 );
 
+ALTER TABLE stats ADD COLUMN IF NOT EXISTS gross_r DECIMAL(12, 4) DEFAULT 0;
+ALTER TABLE stats ADD COLUMN IF NOT EXISTS net_r DECIMAL(12, 4) DEFAULT 0;
+
 -- -----------------------------------------------------------------------------
 -- Scan Log Table
 -- -----------------------------------------------------------------------------
@@ -131,20 +152,35 @@ CREATE INDEX IF NOT EXISTS idx_scan_logs_created ON scan_logs(created_at DESC);
 -- Function to update stats when a signal outcome is recorded
 CREATE OR REPLACE FUNCTION update_stats_on_outcome()
 RETURNS TRIGGER AS $$
+DECLARE
+  signal_gross_r DECIMAL;
+  signal_net_r DECIMAL;
 BEGIN
   IF NEW.outcome IS NOT NULL AND OLD.outcome IS NULL THEN
-    INSERT INTO stats (pair, timeframe, total_signals, wins, losses)
+    -- Gross R: reward/risk for a win, -1 for a loss
+    signal_gross_r := CASE
+      WHEN NEW.outcome = 'LOSS' THEN -1
+      WHEN NEW.entry_price = NEW.stop_loss THEN 0
+      ELSE ABS(NEW.take_profit - NEW.entry_price) / ABS(NEW.entry_price - NEW.stop_loss)
+    END;
+    signal_net_r := COALESCE(NEW.net_r, signal_gross_r);
+
+    INSERT INTO stats (pair, timeframe, total_signals, wins, losses, gross_r, net_r)
     VALUES (
       NEW.pair,
       NEW.timeframe,
       1,
       CASE WHEN NEW.outcome = 'WIN' THEN 1 ELSE 0 END,
-      CASE WHEN NEW.outcome = 'LOSS' THEN 1 ELSE 0 END
+      CASE WHEN NEW.outcome = 'LOSS' THEN 1 ELSE 0 END,
+      signal_gross_r,
+      signal_net_r
     )
     ON CONFLICT (pair, timeframe) DO UPDATE SET
       total_signals = stats.total_signals + 1,
       wins = stats.wins + CASE WHEN NEW.outcome = 'WIN' THEN 1 ELSE 0 END,
       losses = stats.losses + CASE WHEN NEW.outcome = 'LOSS' THEN 1 ELSE 0 END,
+      gross_r = stats.gross_r + signal_gross_r,
+      net_r = stats.net_r + signal_net_r,
       updated_at = NOW();
   END IF;
   RETURN NEW;
@@ -248,7 +284,10 @@ SELECT
     WHEN SUM(wins) + SUM(losses) > 0 
     THEN ROUND(SUM(wins)::DECIMAL / (SUM(wins) + SUM(losses)) * 100, 2)
     ELSE 0 
-  END AS win_rate
+  END AS win_rate,
+  -- New columns go last so CREATE OR REPLACE VIEW works on existing views
+  SUM(gross_r) AS gross_r,
+  SUM(net_r) AS net_r
 FROM stats
 GROUP BY pair
 ORDER BY win_rate DESC;
@@ -265,7 +304,10 @@ SELECT
     WHEN SUM(wins) + SUM(losses) > 0 
     THEN ROUND(SUM(wins)::DECIMAL / (SUM(wins) + SUM(losses)) * 100, 2)
     ELSE 0 
-  END AS win_rate
+  END AS win_rate,
+  -- New columns go last so CREATE OR REPLACE VIEW works on existing views
+  SUM(gross_r) AS gross_r,
+  SUM(net_r) AS net_r
 FROM stats
 GROUP BY timeframe
 ORDER BY win_rate DESC;
@@ -0,0 +1,76 @@
+// =============================================================================
+// WICKLESS STRATEGY — BACKTEST ENGINE TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../../types/types';
+import { runBacktest } from './engine';
+import { createRandom } from './random';
+
+// -----------------------------------------------------------------------------
+// Fixture
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+
+/**
+ * Seeded M15 random walk over weekdays, with some candles forced wickless
+ */
+function fixtureCandles(count: number, seed: number): Candle[] {
+  const random = createRandom(seed);
+  const candles: Candle[] = [];
+  let time = Date.UTC(2024, 0, 1);
+  let price = 1.1;
+
+  for (let i = 0; candles.length < count; i++, time += M15) {
+    const day = new Date(time).getUTCDay();
+    if (day === 0 || day === 6) continue;
+
+    const open = price;
+    const drift = Math.sin(i / 40) * 0.0004;
+    const close = open + drift + (random() - 0.5) * 0.0015;
+    const wickless = random() < 0.15;
+    const high = Math.max(open, close) + (wickless && close < open ? 0 : random() * 0.0006);
+    const low = Math.min(open, close) - (wickless && close > open ? 0 : random() * 0.0006);
+
+    candles.push({ time: new Date(time).toISOString(), open, high, low, close, complete: true });
+    price = close;
+  }
+
+  return candles;
+}
+
+const candles = fixtureCandles(1500, 7);
+const run = () => runBacktest({ pair: 'EUR_USD', timeframe: 'M15', candles, seed: 3 });
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('same candles and seed give the same backtest', () => {
+  const first = run();
+  const second = run();
+
+  assert.ok(first.summary.totalSetups > 0, 'fixture should produce setups');
+  assert.ok(first.trades.length > 0, 'fixture should produce trades');
+  assert.deepEqual(second.trades, first.trades);
+  assert.deepEqual(second.openTrades, first.openTrades);
+  assert.deepEqual(second.expiredSetups, first.expiredSetups);
+  assert.deepEqual(second.summary, first.summary);
+  assert.deepEqual(second.metrics, first.metrics);
+});
+
+test('setup and signal IDs are sequential', () => {
+  const { trades } = run();
+  for (const trade of trades) {
+    assert.match(trade.id, /^backtest-\d+$/);
+    assert.match(trade.setupId, /^backtest-\d+$/);
+  }
+});
+
+test('no trade wins on its entry candle without lower-timeframe data', () => {
+  const { trades } = run();
+  const sameCandleWins = trades.filter(t => t.outcome === 'WIN' && t.candlesInTrade === 0);
+  assert.equal(sameCandleWins.length, 0);
+});
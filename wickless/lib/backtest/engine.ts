@@ -0,0 +1,400 @@
+// =============================================================================
+// WICKLESS STRATEGY — BACKTEST ENGINE
+// =============================================================================
+// Event-driven backtester that replays historical candles through the same
+// pipeline the live system uses:
+// 1. scanHistorical detects wickless setups at each candle
+// 2. createActiveSetup turns valid detections into WAITING setups
+// 3. SignalManager tracks the 10-candle retracement window (Rule 4)
+// 4. resolveOutcome resolves SL/TP from the fill onwards, drilling into
+//    lower-timeframe candles when both levels share a candle
+//
+// Runs fully offline from a Candle[] array - no API or database calls.
+// IDs are sequential and slippage is seeded, so a run is reproducible.
+// =============================================================================
+
+import {
+  ActiveSetup,
+  AmbiguityPolicy,
+  Candle,
+  CostConfig,
+  Instrument,
+  PerformanceMetrics,
+  Signal,
+  StrategyParams,
+  SwingDetectorConfig,
+  Timeframe,
+  TrendFilterConfig,
+  WicklessConfig
+} from '../../types/types';
+
+import { getCompleteCandles } from '../oanda';
+import { getCandleCloseTime } from '../market/clock';
+import { scanHistorical, DetailedScanResult } from '../signals/scanner';
+import { createActiveSetup, SignalManager } from '../signals/manager';
+import { calculateGrossRMultiple, calculateRMultiple } from '../signals/costs';
+import { calculateMetrics, summarizeMetrics } from '../signals/metrics';
+import { createRandom } from './random';
+import { IdGenerator, createSequentialIdGenerator } from '../pipeline/clock';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface BacktestOptions {
+  pair: Instrument;
+  timeframe: Timeframe;
+  candles: Candle[];
+  startIndex?: number;
+  // Only create setups that pass validateSetup (same filter as the live scan)
+  requireValidSetup?: boolean;
+  // Fallback for candles that hit both SL and TP
+  ambiguityPolicy?: AmbiguityPolicy;
+  // Optional M1/M5 history used to resolve same-candle SL/TP hits
+  lowerTimeframeCandles?: Candle[];
+  // Overrides for STRATEGY_CONFIG / PAIR_CONFIGS
+  params?: Partial<StrategyParams>;
+  // Swing detector (default: SWING_DETECTOR_RULES)
+  swingDetector?: SwingDetectorConfig;
+  // Higher-timeframe trend filter (default: TREND_FILTER_CONFIGS) and
+  // candles for it (default: resampled from `candles`)
+  trendFilter?: TrendFilterConfig;
+  higherTimeframeCandles?: Partial<Record<Timeframe, Candle[]>>;
+  // Wick/minimum-body thresholds (default: WICKLESS_RULES)
+  wicklessConfig?: WicklessConfig;
+  // SL behind a provisional swing when newer (default: PROVISIONAL_SL)
+  provisionalSL?: boolean;
+  // Transaction costs (default: pair config, null = gross results)
+  costModel?: CostConfig | null;
+  // Seed for random slippage
+  seed?: number;
+  // Setup and signal IDs (default: backtest-1, backtest-2, ...)
+  generateId?: IdGenerator;
+}
+
+export interface BacktestTrade extends Signal {
+  signalCandleTime: string;
+  exitPrice: number | null;
+  // Net of costs when a cost model is applied
+  rMultiple: number | null;
+  grossRMultiple: number | null;
+  candlesToEntry: number;
+  candlesInTrade: number | null;
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  drawdown: number;
+  tradeIndex: number;
+}
+
+export interface BacktestSummary {
+  totalSetups: number;
+  triggered: number;
+  expired: number;
+  wins: number;
+  losses: number;
+  open: number;
+  winRate: number;
+  totalR: number;
+  grossTotalR: number;
+  totalCostR: number;
+  maxDrawdownR: number;
+}
+
+export interface BacktestResult {
+  pair: Instrument;
+  timeframe: Timeframe;
+  trades: BacktestTrade[];
+  openTrades: BacktestTrade[];
+  expiredSetups: ActiveSetup[];
+  equityCurve: EquityPoint[];
+  summary: BacktestSummary;
+  metrics: PerformanceMetrics;
+  candleCount: number;
+  startTime: string | null;
+  endTime: string | null;
+  duration: number;
+}
+
+// -----------------------------------------------------------------------------
+// Equity Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Builds a cumulative R equity curve from closed trades.
+ * Trades are ordered by exit time before accumulating.
+ *
+ * @param trades - Closed trades with R multiples
+ * @returns Equity points with running drawdown from peak
+ */
+export function buildEquityCurve(trades: BacktestTrade[]): EquityPoint[] {
+  const closed = trades
+    .filter(t => t.rMultiple !== null && t.outcomeTime !== null)
+    .sort((a, b) =>
+      new Date(a.outcomeTime as string).getTime() - new Date(b.outcomeTime as string).getTime()
+    );
+
+  const curve: EquityPoint[] = [];
+  let equity = 0;
+  let peak = 0;
+
+  closed.forEach((trade, i) => {
+    equity += trade.rMultiple as number;
+    peak = Math.max(peak, equity);
+    curve.push({
+      time: trade.outcomeTime as string,
+      equity,
+      drawdown: peak - equity,
+      tradeIndex: i,
+    });
+  });
+
+  return curve;
+}
+
+/**
+ * Aggregates trade results into summary stats.
+ *
+ * @param trades - Closed trades
+ * @param openTrades - Trades still open at the end of the data
+ * @param expired - Number of expired setups
+ * @param totalSetups - Number of setups created
+ */
+export function buildBacktestSummary(
+  trades: BacktestTrade[],
+  openTrades: BacktestTrade[],
+  expired: number,
+  totalSetups: number
+): BacktestSummary {
+  const equityCurve = buildEquityCurve(trades);
+  const wins = trades.filter(t => t.outcome === 'WIN').length;
+  const losses = trades.filter(t => t.outcome === 'LOSS').length;
+  const closed = wins + losses;
+  const totalR = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : 0;
+  const grossTotalR = trades.reduce((sum, t) => sum + (t.grossRMultiple ?? 0), 0);
+
+  return {
+    totalSetups,
+    triggered: trades.length + openTrades.length,
+    expired,
+    wins,
+    losses,
+    open: openTrades.length,
+    winRate: closed > 0 ? (wins / closed) * 100 : 0,
+    totalR,
+    grossTotalR,
+    totalCostR: grossTotalR - totalR,
+    maxDrawdownR: equityCurve.reduce((max, p) => Math.max(max, p.drawdown), 0),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Backtest Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Finds the index of the last candle that opened at or before a timestamp.
+ * Outcome times from lower-timeframe drill-down fall inside a candle.
+ */
+function findCandleIndex(candles: Candle[], time: string): number {
+  const target = new Date(time).getTime();
+  let lo = 0;
+  let hi = candles.length - 1;
+  let found = -1;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (new Date(candles[mid].time).getTime() <= target) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Checks whether a scan result would create a setup in the live scan
+ */
+function isTradeableResult(result: DetailedScanResult, requireValidSetup: boolean): boolean {
+  if (!result.wicklessDetected || result.setup === null) {
+    return false;
+  }
+  return !requireValidSetup || result.setupValidation?.valid === true;
+}
+
+/**
+ * Runs a full backtest over historical candles.
+ *
+ * For every candle, in order:
+ * - WAITING setups are checked for retracement entry or expiry
+ * - Open trades are checked for SL/TP hits
+ * - A new setup is created if the candle is a valid wickless signal
+ *
+ * @param options - Backtest configuration
+ * @returns Trade list, equity curve and summary stats
+ */
+export function runBacktest(options: BacktestOptions): BacktestResult {
+  const startTime = Date.now();
+  const {
+    pair,
+    timeframe,
+    startIndex = 50,
+    requireValidSetup = true,
+    ambiguityPolicy,
+    lowerTimeframeCandles = [],
+    params,
+    swingDetector,
+    trendFilter,
+    higherTimeframeCandles,
+    wicklessConfig,
+    provisionalSL,
+    costModel,
+    seed = 1,
+    generateId = createSequentialIdGenerator('backtest'),
+  } = options;
+  const candles = getCompleteCandles(options.candles);
+
+  const manager = new SignalManager({
+    ambiguityPolicy,
+    maxCandlesForEntry: params?.maxCandlesForEntry,
+    costModel,
+    random: createRandom(seed),
+    generateId,
+  });
+  const indexByTime = new Map<string, number>();
+  candles.forEach((c, i) => indexByTime.set(c.time, i));
+
+  // Pre-compute scan results keyed by candle index
+  const scanResults = new Map<number, DetailedScanResult>();
+  for (const result of scanHistorical({
+    pair,
+    timeframe,
+    candles,
+    startIndex,
+    params,
+    swingDetector,
+    trendFilter,
+    higherTimeframeCandles,
+    wicklessConfig,
+    provisionalSL,
+    swingHistoryLimit: 2,
+  })) {
+    const index = indexByTime.get(result.timestamp);
+    if (index !== undefined) {
+      scanResults.set(index, result);
+    }
+  }
+
+  const setupsById = new Map<string, ActiveSetup>();
+  let totalSetups = 0;
+  let lowerPointer = 0;
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    // Lower-timeframe candles inside this candle's period
+    const periodStart = new Date(candle.time).getTime();
+    const periodEnd = getCandleCloseTime(candle.time, timeframe);
+    while (
+      lowerPointer < lowerTimeframeCandles.length &&
+      new Date(lowerTimeframeCandles[lowerPointer].time).getTime() < periodStart
+    ) {
+      lowerPointer++;
+    }
+    const lowerCandles: Candle[] = [];
+    for (let j = lowerPointer; j < lowerTimeframeCandles.length; j++) {
+      if (new Date(lowerTimeframeCandles[j].time).getTime() >= periodEnd) break;
+      lowerCandles.push(lowerTimeframeCandles[j]);
+    }
+
+    // Existing setups and trades see this candle first
+    manager.processNewCandle(pair, timeframe, candle);
+    manager.checkSignalOutcomes(pair, candle, lowerCandles);
+
+    // Then the candle itself may become a new signal candle
+    const result = scanResults.get(i);
+    if (result && isTradeableResult(result, requireValidSetup)) {
+      const setup = createActiveSetup(result, generateId());
+      if (setup && !manager.hasExistingSetup(pair, setup.signalCandleTime)) {
+        setup.createdAt = candle.time;
+        manager.addSetup(setup);
+        setupsById.set(setup.id, setup);
+        totalSetups++;
+      }
+    }
+  }
+
+  const toTrade = (signal: Signal): BacktestTrade => {
+    const setup = setupsById.get(signal.setupId);
+    const signalCandleTime = setup ? setup.signalCandleTime : signal.entryTime;
+    const signalIndex = indexByTime.get(signalCandleTime) ?? 0;
+    const entryIndex = indexByTime.get(signal.entryTime) ?? signalIndex;
+    const exitIndex = signal.outcomeTime !== null ? findCandleIndex(candles, signal.outcomeTime) : -1;
+    const rMultiple = calculateRMultiple(signal);
+    const grossRMultiple = calculateGrossRMultiple(signal);
+
+    let exitPrice: number | null = null;
+    if (signal.outcome === 'WIN') exitPrice = signal.takeProfit;
+    if (signal.outcome === 'LOSS') exitPrice = signal.stopLoss;
+
+    return {
+      ...signal,
+      createdAt: signal.entryTime,
+      signalCandleTime,
+      exitPrice,
+      rMultiple,
+      grossRMultiple,
+      candlesToEntry: entryIndex - signalIndex,
+      candlesInTrade: exitIndex >= 0 ? exitIndex - entryIndex : null,
+    };
+  };
+
+  const trades = manager.getCompletedSignals().map(toTrade);
+  const openTrades = manager.getTriggeredSignals().map(toTrade);
+  const expiredSetups = manager.getExpiredSetups();
+  const equityCurve = buildEquityCurve(trades);
+
+  return {
+    pair,
+    timeframe,
+    trades,
+    openTrades,
+    expiredSetups,
+    equityCurve,
+    summary: buildBacktestSummary(trades, openTrades, expiredSetups.length, totalSetups),
+    metrics: calculateMetrics(trades),
+    candleCount: candles.length,
+    startTime: candles.length > 0 ? candles[0].time : null,
+    endTime: candles.length > 0 ? candles[candles.length - 1].time : null,
+    duration: Date.now() - startTime,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Summary Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Creates a summary of a backtest run for logging/display
+ */
+export function summarizeBacktest(result: BacktestResult): string {
+  const { summary } = result;
+  const lines: string[] = [];
+
+  lines.push(`=== BACKTEST ${result.pair} @ ${result.timeframe} ===`);
+  lines.push(`Period: ${result.startTime} → ${result.endTime}`);
+  lines.push(`Candles: ${result.candleCount}`);
+  lines.push(`Setups: ${summary.totalSetups} (triggered ${summary.triggered}, expired ${summary.expired})`);
+  lines.push(`Closed: ${summary.wins}W / ${summary.losses}L (${summary.winRate.toFixed(1)}%)`);
+  lines.push(`Open at end: ${summary.open}`);
+  lines.push(`Total: ${summary.totalR.toFixed(2)}R net (${summary.grossTotalR.toFixed(2)}R gross, ${summary.totalCostR.toFixed(2)}R costs)`);
+  lines.push(summarizeMetrics(result.metrics));
+  lines.push(`Duration: ${result.duration}ms`);
+
+  return lines.join('\n');
+}
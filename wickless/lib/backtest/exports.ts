@@ -0,0 +1,55 @@
+// =============================================================================
+// WICKLESS STRATEGY — BACKTEST MODULE EXPORTS
+// =============================================================================
+
+// Backtest engine
+export {
+  runBacktest,
+  buildEquityCurve,
+  buildBacktestSummary,
+  summarizeBacktest,
+  type BacktestOptions,
+  type BacktestTrade,
+  type EquityPoint,
+  type BacktestSummary,
+  type BacktestResult,
+} from './engine';
+
+// Walk-forward optimizer
+export {
+  runWalkForward,
+  runWalkForwardBatch,
+  getDefaultParameterSpace,
+  expandGrid,
+  sampleRandom,
+  generateWindows,
+  scoreSummary,
+  summarizeWalkForward,
+  type ParameterSpace,
+  type SearchMethod,
+  type OptimizationObjective,
+  type WalkForwardOptions,
+  type WindowRange,
+  type WalkForwardWindow,
+  type WalkForwardResult,
+  type WalkForwardDataset,
+} from './optimizer';
+
+// Seeded random numbers
+export {
+  createRandom,
+  randomInt,
+  type RandomFn,
+} from './random';
+
+// Monte Carlo robustness analysis
+export {
+  runMonteCarlo,
+  extractRMultiples,
+  summarizeDistribution,
+  summarizeMonteCarlo,
+  type ResampleMethod,
+  type MonteCarloOptions,
+  type Distribution,
+  type MonteCarloResult,
+} from './montecarlo';
@@ -0,0 +1,303 @@
+// =============================================================================
+// WICKLESS STRATEGY — MONTE CARLO ROBUSTNESS ANALYSIS
+// =============================================================================
+// Win rate says nothing about how bad a losing run can get. This module
+// replays the R results of closed trades thousands of times in random order
+// and reports the spread of outcomes:
+// - Max drawdown (in R and % of equity)
+// - Longest losing streak
+// - Final equity
+// - Risk of ruin at a given risk-per-trade
+//
+// Input is any Signal[] - backtest trades or rows from the live signals table.
+//
+// SHUFFLE:   same trades, random order (sequence risk only)
+// BOOTSTRAP: trades drawn with replacement (also varies the trade mix)
+// =============================================================================
+
+import { Signal } from '../../types/types';
+import { calculateRMultiple } from '../signals/costs';
+import { createRandom, randomInt, RandomFn } from './random';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ResampleMethod = 'SHUFFLE' | 'BOOTSTRAP';
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  method?: ResampleMethod;
+  // Percent of current equity risked per trade (e.g., 1 for 1%)
+  riskPerTrade?: number;
+  initialEquity?: number;
+  // Drawdown percent from peak that counts as ruin
+  ruinDrawdownPercent?: number;
+  // Trades per simulated run (default: number of input trades)
+  tradesPerRun?: number;
+  // Risk a % of current equity (true) or of initial equity (false)
+  compounding?: boolean;
+  seed?: number;
+}
+
+export interface Distribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  p5: number;
+  p25: number;
+  p75: number;
+  p95: number;
+  p99: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  tradeCount: number;
+  tradesPerRun: number;
+  method: ResampleMethod;
+  riskPerTrade: number;
+  initialEquity: number;
+  maxDrawdownR: Distribution;
+  maxDrawdownPercent: Distribution;
+  longestLosingStreak: Distribution;
+  finalR: Distribution;
+  finalEquity: Distribution;
+  // Fraction of runs (0-1) that hit the ruin drawdown
+  riskOfRuin: number;
+  // Fraction of runs (0-1) that ended below initial equity
+  probabilityOfLoss: number;
+  duration: number;
+}
+
+interface RunStats {
+  maxDrawdownR: number;
+  maxDrawdownPercent: number;
+  longestLosingStreak: number;
+  finalR: number;
+  finalEquity: number;
+  ruined: boolean;
+}
+
+// -----------------------------------------------------------------------------
+// Distribution Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Linear-interpolated percentile of a sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarizes a sample of values into a distribution
+ */
+export function summarizeDistribution(values: number[]): Distribution {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0, p5: 0, p25: 0, p75: 0, p95: 0, p99: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: percentile(sorted, 50),
+    stdDev: Math.sqrt(variance),
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Resampling
+// -----------------------------------------------------------------------------
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+function shuffle(values: number[], random: RandomFn): number[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Draws n values with replacement
+ */
+function bootstrap(values: number[], n: number, random: RandomFn): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < n; i++) {
+    result.push(values[randomInt(random, values.length)]);
+  }
+  return result;
+}
+
+/**
+ * Walks one sequence of R results and measures it
+ */
+function simulateRun(
+  sequence: number[],
+  riskPerTrade: number,
+  initialEquity: number,
+  compounding: boolean,
+  ruinDrawdownPercent: number
+): RunStats {
+  let r = 0;
+  let peakR = 0;
+  let maxDrawdownR = 0;
+
+  let equity = initialEquity;
+  let peakEquity = initialEquity;
+  let maxDrawdownPercent = 0;
+
+  let streak = 0;
+  let longestLosingStreak = 0;
+
+  for (const tradeR of sequence) {
+    // R-space curve
+    r += tradeR;
+    peakR = Math.max(peakR, r);
+    maxDrawdownR = Math.max(maxDrawdownR, peakR - r);
+
+    // Money curve
+    const base = compounding ? equity : initialEquity;
+    equity += base * (riskPerTrade / 100) * tradeR;
+    equity = Math.max(equity, 0);
+    peakEquity = Math.max(peakEquity, equity);
+    const drawdown = peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 100;
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, drawdown);
+
+    // Losing streak
+    if (tradeR < 0) {
+      streak++;
+      longestLosingStreak = Math.max(longestLosingStreak, streak);
+    } else {
+      streak = 0;
+    }
+  }
+
+  return {
+    maxDrawdownR,
+    maxDrawdownPercent,
+    longestLosingStreak,
+    finalR: r,
+    finalEquity: equity,
+    ruined: maxDrawdownPercent >= ruinDrawdownPercent,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Monte Carlo Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Extracts R multiples from closed signals (open signals are skipped)
+ *
+ * @param signals - Signals from a backtest or the database
+ * @returns R multiple per closed trade, in input order
+ */
+export function extractRMultiples(signals: Signal[]): number[] {
+  return signals
+    .map(calculateRMultiple)
+    .filter((r): r is number => r !== null);
+}
+
+/**
+ * Runs a Monte Carlo simulation over a trade sequence.
+ *
+ * @param signals - Closed signals (open ones are ignored)
+ * @param options - Iterations, resampling method and risk settings
+ * @returns Distributions of drawdown, streaks and final equity
+ */
+export function runMonteCarlo(
+  signals: Signal[],
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const startTime = Date.now();
+  const rMultiples = extractRMultiples(signals);
+  const {
+    iterations = 10000,
+    method = 'SHUFFLE',
+    riskPerTrade = 1,
+    initialEquity = 10000,
+    ruinDrawdownPercent = 50,
+    tradesPerRun = rMultiples.length,
+    compounding = true,
+    seed = 1,
+  } = options;
+
+  const random = createRandom(seed);
+  const runs: RunStats[] = [];
+
+  if (rMultiples.length > 0) {
+    for (let i = 0; i < iterations; i++) {
+      const sequence = method === 'BOOTSTRAP'
+        ? bootstrap(rMultiples, tradesPerRun, random)
+        : shuffle(rMultiples, random).slice(0, tradesPerRun);
+
+      runs.push(simulateRun(sequence, riskPerTrade, initialEquity, compounding, ruinDrawdownPercent));
+    }
+  }
+
+  const count = runs.length || 1;
+
+  return {
+    iterations: runs.length,
+    tradeCount: rMultiples.length,
+    tradesPerRun,
+    method,
+    riskPerTrade,
+    initialEquity,
+    maxDrawdownR: summarizeDistribution(runs.map(r => r.maxDrawdownR)),
+    maxDrawdownPercent: summarizeDistribution(runs.map(r => r.maxDrawdownPercent)),
+    longestLosingStreak: summarizeDistribution(runs.map(r => r.longestLosingStreak)),
+    finalR: summarizeDistribution(runs.map(r => r.finalR)),
+    finalEquity: summarizeDistribution(runs.map(r => r.finalEquity)),
+    riskOfRuin: runs.filter(r => r.ruined).length / count,
+    probabilityOfLoss: runs.filter(r => r.finalEquity < initialEquity).length / count,
+    duration: Date.now() - startTime,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Summary Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Creates a summary of a Monte Carlo run for logging/display
+ */
+export function summarizeMonteCarlo(result: MonteCarloResult): string {
+  const lines: string[] = [];
+  const dd = result.maxDrawdownPercent;
+  const streak = result.longestLosingStreak;
+  const equity = result.finalEquity;
+
+  lines.push(`=== MONTE CARLO (${result.method}, ${result.iterations} runs) ===`);
+  lines.push(`Trades: ${result.tradeCount} (${result.tradesPerRun} per run)`);
+  lines.push(`Risk per trade: ${result.riskPerTrade}%`);
+  lines.push(`Max drawdown: median ${dd.median.toFixed(1)}%, 95th ${dd.p95.toFixed(1)}%, worst ${dd.max.toFixed(1)}%`);
+  lines.push(`Max drawdown (R): median ${result.maxDrawdownR.median.toFixed(1)}R, 95th ${result.maxDrawdownR.p95.toFixed(1)}R`);
+  lines.push(`Losing streak: median ${streak.median.toFixed(0)}, 95th ${streak.p95.toFixed(0)}, worst ${streak.max}`);
+  lines.push(`Final equity: 5th ${equity.p5.toFixed(0)}, median ${equity.median.toFixed(0)}, 95th ${equity.p95.toFixed(0)}`);
+  lines.push(`Risk of ruin: ${(result.riskOfRuin * 100).toFixed(2)}%`);
+  lines.push(`Probability of loss: ${(result.probabilityOfLoss * 100).toFixed(2)}%`);
+
+  return lines.join('\n');
+}
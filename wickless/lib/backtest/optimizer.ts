@@ -0,0 +1,408 @@
+// =============================================================================
+// WICKLESS STRATEGY — WALK-FORWARD OPTIMIZER
+// =============================================================================
+// Tunes StrategyParams without fitting to the whole history:
+// 1. Split history into rolling (or anchored) in-sample / out-of-sample windows
+// 2. Grid- or random-search the parameter space on each in-sample window
+// 3. Run the best set on the following out-of-sample window
+// 4. Report the stitched out-of-sample performance
+//
+//   |---- IS 1 ----|-- OOS 1 --|
+//              |---- IS 2 ----|-- OOS 2 --|
+//                         |---- IS 3 ----|-- OOS 3 --|
+// =============================================================================
+
+import { Candle, Instrument, StrategyParams, Timeframe } from '../../types/types';
+import { getStrategyParams } from '../config';
+import {
+  runBacktest,
+  buildBacktestSummary,
+  buildEquityCurve,
+  BacktestResult,
+  BacktestSummary,
+  BacktestTrade,
+  EquityPoint
+} from './engine';
+import { createRandom, randomInt } from './random';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+// Candidate values per parameter - missing keys keep the configured default
+export type ParameterSpace = {
+  [K in keyof StrategyParams]?: number[];
+};
+
+export type SearchMethod = 'GRID' | 'RANDOM';
+
+export type OptimizationObjective =
+  | 'TOTAL_R'
+  | 'EXPECTANCY'
+  | 'WIN_RATE'
+  | 'R_OVER_DRAWDOWN';
+
+export interface WalkForwardOptions {
+  pair: Instrument;
+  timeframe: Timeframe;
+  candles: Candle[];
+  inSampleCandles: number;
+  outOfSampleCandles: number;
+  space?: ParameterSpace;
+  // Anchored = in-sample window always starts at the first candle
+  anchored?: boolean;
+  search?: SearchMethod;
+  randomSamples?: number;
+  seed?: number;
+  objective?: OptimizationObjective;
+  // Parameter sets with fewer in-sample trades are rejected
+  minTrades?: number;
+  // Candles before each window used only for swing/trend history
+  warmupCandles?: number;
+}
+
+export interface WindowRange {
+  start: number;
+  end: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: WindowRange;
+  outOfSample: WindowRange;
+  bestParams: StrategyParams;
+  combinationsTested: number;
+  inSampleScore: number;
+  inSampleSummary: BacktestSummary;
+  outOfSampleScore: number;
+  outOfSampleSummary: BacktestSummary;
+}
+
+export interface WalkForwardResult {
+  pair: Instrument;
+  timeframe: Timeframe;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  outOfSampleTrades: BacktestTrade[];
+  outOfSampleEquity: EquityPoint[];
+  outOfSampleSummary: BacktestSummary;
+  // Mean OOS score / mean IS score (1.0 = no degradation)
+  walkForwardEfficiency: number;
+  duration: number;
+}
+
+// -----------------------------------------------------------------------------
+// Parameter Space
+// -----------------------------------------------------------------------------
+
+/**
+ * Builds a default search space around the pair's configured values
+ */
+export function getDefaultParameterSpace(pair: Instrument): ParameterSpace {
+  const defaults = getStrategyParams(pair);
+
+  return {
+    swingLookback: [2, 3, 4, 5],
+    maxCandlesForEntry: [5, 10, 15],
+    riskRewardRatio: [1, 1.5, 2],
+    tolerance: [defaults.tolerance * 0.5, defaults.tolerance, defaults.tolerance * 2],
+    slBuffer: [defaults.slBuffer * 0.5, defaults.slBuffer, defaults.slBuffer * 2],
+  };
+}
+
+/**
+ * Expands a parameter space into every combination (cartesian product)
+ */
+export function expandGrid(pair: Instrument, space: ParameterSpace): StrategyParams[] {
+  let combos: Partial<StrategyParams>[] = [{}];
+
+  for (const key of Object.keys(space) as (keyof StrategyParams)[]) {
+    const values = space[key];
+    if (!values || values.length === 0) continue;
+
+    const next: Partial<StrategyParams>[] = [];
+    for (const combo of combos) {
+      for (const value of values) {
+        next.push({ ...combo, [key]: value });
+      }
+    }
+    combos = next;
+  }
+
+  return combos.map(c => getStrategyParams(pair, c));
+}
+
+/**
+ * Draws unique random combinations from a parameter space
+ */
+export function sampleRandom(
+  pair: Instrument,
+  space: ParameterSpace,
+  samples: number,
+  seed: number
+): StrategyParams[] {
+  const random = createRandom(seed);
+  const keys = (Object.keys(space) as (keyof StrategyParams)[])
+    .filter(k => (space[k]?.length ?? 0) > 0);
+  const seen = new Set<string>();
+  const results: StrategyParams[] = [];
+  const maxAttempts = samples * 10;
+
+  for (let attempt = 0; attempt < maxAttempts && results.length < samples; attempt++) {
+    const combo: Partial<StrategyParams> = {};
+    for (const key of keys) {
+      const values = space[key] as number[];
+      combo[key] = values[randomInt(random, values.length)];
+    }
+
+    const id = JSON.stringify(combo);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    results.push(getStrategyParams(pair, combo));
+  }
+
+  return results;
+}
+
+// -----------------------------------------------------------------------------
+// Windows & Scoring
+// -----------------------------------------------------------------------------
+
+/**
+ * Splits a candle count into in-sample / out-of-sample windows.
+ * Each window steps forward by the out-of-sample length.
+ * Ranges are [start, end) candle indices.
+ */
+export function generateWindows(
+  totalCandles: number,
+  inSampleCandles: number,
+  outOfSampleCandles: number,
+  anchored: boolean = false
+): Array<{ inSample: [number, number]; outOfSample: [number, number] }> {
+  const windows: Array<{ inSample: [number, number]; outOfSample: [number, number] }> = [];
+
+  for (
+    let oosStart = inSampleCandles;
+    oosStart + outOfSampleCandles <= totalCandles;
+    oosStart += outOfSampleCandles
+  ) {
+    const isStart = anchored ? 0 : oosStart - inSampleCandles;
+    windows.push({
+      inSample: [isStart, oosStart],
+      outOfSample: [oosStart, oosStart + outOfSampleCandles],
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Scores a backtest summary for the given objective (higher is better)
+ */
+export function scoreSummary(summary: BacktestSummary, objective: OptimizationObjective): number {
+  const closed = summary.wins + summary.losses;
+
+  switch (objective) {
+    case 'EXPECTANCY':
+      return closed > 0 ? summary.totalR / closed : 0;
+    case 'WIN_RATE':
+      return summary.winRate;
+    case 'R_OVER_DRAWDOWN':
+      return summary.totalR / Math.max(summary.maxDrawdownR, 1);
+    case 'TOTAL_R':
+    default:
+      return summary.totalR;
+  }
+}
+
+/**
+ * Runs a backtest over [start, end) with warm-up history in front of it.
+ * Setups are only created inside the window.
+ */
+function backtestWindow(
+  options: WalkForwardOptions,
+  start: number,
+  end: number,
+  params: StrategyParams,
+  warmup: number
+): BacktestResult {
+  const sliceStart = Math.max(0, start - warmup);
+
+  return runBacktest({
+    pair: options.pair,
+    timeframe: options.timeframe,
+    candles: options.candles.slice(sliceStart, end),
+    startIndex: Math.max(start - sliceStart, warmup),
+    params,
+  });
+}
+
+function toRange(candles: Candle[], [start, end]: [number, number]): WindowRange {
+  return {
+    start,
+    end,
+    startTime: candles[start].time,
+    endTime: candles[end - 1].time,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Walk-Forward Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Runs a walk-forward optimization for one pair/timeframe.
+ *
+ * @param options - Window sizes, search space and objective
+ * @returns Per-window best parameters and stitched out-of-sample results
+ */
+export function runWalkForward(options: WalkForwardOptions): WalkForwardResult {
+  const startTime = Date.now();
+  const {
+    pair,
+    timeframe,
+    candles,
+    inSampleCandles,
+    outOfSampleCandles,
+    space = getDefaultParameterSpace(pair),
+    anchored = false,
+    search = 'GRID',
+    randomSamples = 50,
+    seed = 1,
+    objective = 'TOTAL_R',
+    minTrades = 10,
+    warmupCandles = 50,
+  } = options;
+
+  const windows: WalkForwardWindow[] = [];
+  const outOfSampleTrades: BacktestTrade[] = [];
+  const outOfSampleOpen: BacktestTrade[] = [];
+  let outOfSampleExpired = 0;
+  let outOfSampleSetups = 0;
+
+  const ranges = generateWindows(candles.length, inSampleCandles, outOfSampleCandles, anchored);
+
+  ranges.forEach((range, index) => {
+    const candidates = search === 'RANDOM'
+      ? sampleRandom(pair, space, randomSamples, seed + index)
+      : expandGrid(pair, space);
+
+    // Step 1: Find the best parameter set in-sample
+    let bestParams = getStrategyParams(pair);
+    let bestScore = -Infinity;
+    let bestSummary: BacktestSummary | null = null;
+
+    for (const params of candidates) {
+      const result = backtestWindow(options, range.inSample[0], range.inSample[1], params, warmupCandles);
+      const closed = result.summary.wins + result.summary.losses;
+      if (closed < minTrades) continue;
+
+      const score = scoreSummary(result.summary, objective);
+      if (score > bestScore) {
+        bestScore = score;
+        bestParams = params;
+        bestSummary = result.summary;
+      }
+    }
+
+    // No candidate had enough trades - fall back to configured defaults
+    if (!bestSummary) {
+      const fallback = backtestWindow(options, range.inSample[0], range.inSample[1], bestParams, warmupCandles);
+      bestSummary = fallback.summary;
+      bestScore = scoreSummary(fallback.summary, objective);
+    }
+
+    // Step 2: Run the chosen set on unseen data
+    const oos = backtestWindow(options, range.outOfSample[0], range.outOfSample[1], bestParams, warmupCandles);
+
+    outOfSampleTrades.push(...oos.trades);
+    outOfSampleOpen.push(...oos.openTrades);
+    outOfSampleExpired += oos.summary.expired;
+    outOfSampleSetups += oos.summary.totalSetups;
+
+    windows.push({
+      index,
+      inSample: toRange(candles, range.inSample),
+      outOfSample: toRange(candles, range.outOfSample),
+      bestParams,
+      combinationsTested: candidates.length,
+      inSampleScore: bestScore,
+      inSampleSummary: bestSummary,
+      outOfSampleScore: scoreSummary(oos.summary, objective),
+      outOfSampleSummary: oos.summary,
+    });
+  });
+
+  const meanIS = windows.reduce((sum, w) => sum + w.inSampleScore, 0) / (windows.length || 1);
+  const meanOOS = windows.reduce((sum, w) => sum + w.outOfSampleScore, 0) / (windows.length || 1);
+
+  return {
+    pair,
+    timeframe,
+    objective,
+    windows,
+    outOfSampleTrades,
+    outOfSampleEquity: buildEquityCurve(outOfSampleTrades),
+    outOfSampleSummary: buildBacktestSummary(
+      outOfSampleTrades,
+      outOfSampleOpen,
+      outOfSampleExpired,
+      outOfSampleSetups
+    ),
+    walkForwardEfficiency: meanIS !== 0 ? meanOOS / meanIS : 0,
+    duration: Date.now() - startTime,
+  };
+}
+
+export interface WalkForwardDataset {
+  pair: Instrument;
+  timeframe: Timeframe;
+  candles: Candle[];
+}
+
+/**
+ * Runs walk-forward optimization for several pair/timeframe datasets
+ *
+ * @param datasets - Candle history per pair/timeframe
+ * @param options - Shared walk-forward settings
+ * @returns One result per dataset
+ */
+export function runWalkForwardBatch(
+  datasets: WalkForwardDataset[],
+  options: Omit<WalkForwardOptions, 'pair' | 'timeframe' | 'candles'>
+): WalkForwardResult[] {
+  return datasets.map(d => runWalkForward({ ...options, ...d }));
+}
+
+// -----------------------------------------------------------------------------
+// Summary Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Creates a summary of a walk-forward run for logging/display
+ */
+export function summarizeWalkForward(result: WalkForwardResult): string {
+  const lines: string[] = [];
+  const oos = result.outOfSampleSummary;
+
+  lines.push(`=== WALK-FORWARD ${result.pair} @ ${result.timeframe} ===`);
+  lines.push(`Objective: ${result.objective}`);
+  lines.push(`Windows: ${result.windows.length}`);
+  lines.push(`OOS trades: ${oos.wins}W / ${oos.losses}L (${oos.winRate.toFixed(1)}%)`);
+  lines.push(`OOS total: ${oos.totalR.toFixed(2)}R, max DD ${oos.maxDrawdownR.toFixed(2)}R`);
+  lines.push(`Walk-forward efficiency: ${result.walkForwardEfficiency.toFixed(2)}`);
+  lines.push('');
+
+  for (const w of result.windows) {
+    const p = w.bestParams;
+    lines.push(
+      `  #${w.index} ${w.outOfSample.startTime} → ${w.outOfSample.endTime}: ` +
+      `lookback=${p.swingLookback} maxCandles=${p.maxCandlesForEntry} rr=${p.riskRewardRatio} ` +
+      `tol=${p.tolerance} buffer=${p.slBuffer} | IS ${w.inSampleScore.toFixed(2)} → OOS ${w.outOfSampleScore.toFixed(2)}`
+    );
+  }
+
+  return lines.join('\n');
+}
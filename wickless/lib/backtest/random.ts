@@ -0,0 +1,33 @@
+// =============================================================================
+// WICKLESS STRATEGY — SEEDED RANDOM NUMBERS
+// =============================================================================
+// Deterministic PRNG (mulberry32) so optimizer and simulation runs can be
+// reproduced from a seed.
+// =============================================================================
+
+export type RandomFn = () => number;
+
+/**
+ * Creates a seeded random number generator returning values in [0, 1)
+ *
+ * @param seed - Integer seed
+ * @returns Random function
+ */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a random integer in [0, max)
+ */
+export function randomInt(random: RandomFn, max: number): number {
+  return Math.floor(random() * max);
+}
@@ -2,7 +2,29 @@
 // WICKLESS STRATEGY — CONFIGURATION
 // =============================================================================
 
-import { Pair, PairConfig, Timeframe, TimeframeConfig } from '../types/types';
+import {
+  AmbiguityPolicy,
+  CostConfig,
+  Instrument,
+  InstrumentId,
+  MarketHoliday,
+  OandaPriceComponents,
+  Pair,
+  PairConfig,
+  StrategyParams,
+  StructureBreakMode,
+  SwingDetectorConfig,
+  SwingDetectorRule,
+  Timeframe,
+  TimeframeConfig,
+  TradingHours,
+  TrendFilterConfig,
+  TrendFilterMode,
+  TrendMethod,
+  WicklessConfig,
+  WicklessRule
+} from '../types/types';
+import { BUILT_IN_INSTRUMENTS, getPipSize, instrumentCatalog } from './market/instruments';
 
 // -----------------------------------------------------------------------------
 // Pair Configurations
@@ -10,6 +32,28 @@ import { Pair, PairConfig, Timeframe, TimeframeConfig } from '../types/types';
 // tolerance (ε): For no-wick detection - allows tiny decimal variations
 // slBuffer: Added to SL for breathing room (Rule 5)
 // pipMultiplier: For converting price differences to pips
+// displayPrecision: Decimals for displayed prices
+//
+// pipMultiplier and displayPrecision come from the built-in instrument
+// catalog, so pips mean the same as in OANDA's metadata (XAU_USD: 0.01).
+// Other instruments get defaults derived from their pip size (see
+// INSTRUMENT_DEFAULTS and lib/market/instruments.ts).
+
+/**
+ * Pip multiplier and display precision of a configured pair
+ *
+ * @throws If the pair is missing from BUILT_IN_INSTRUMENTS
+ */
+function getCatalogPrecision(pair: Pair): Pick<PairConfig, 'pipMultiplier' | 'displayPrecision'> {
+  const instrument = BUILT_IN_INSTRUMENTS.find(i => i.name === pair);
+  if (!instrument) {
+    throw new Error(`Configured pair missing from the built-in catalog: ${pair}`);
+  }
+  return {
+    pipMultiplier: 10 ** -instrument.pipLocation,
+    displayPrecision: instrument.displayPrecision,
+  };
+}
 
 export const PAIR_CONFIGS: Record<Pair, PairConfig> = {
   EUR_USD: {
@@ -17,35 +61,109 @@ export const PAIR_CONFIGS: Record<Pair, PairConfig> = {
     displayName: 'EUR/USD',
     tolerance: 0.00002,    // ~0.2 pips
     slBuffer: 0.0002,      // 2 pips
-    pipMultiplier: 10000,
+    ...getCatalogPrecision('EUR_USD'),
   },
   GBP_USD: {
     symbol: 'GBP_USD',
     displayName: 'GBP/USD',
     tolerance: 0.00002,
     slBuffer: 0.0002,
-    pipMultiplier: 10000,
+    ...getCatalogPrecision('GBP_USD'),
   },
   AUD_USD: {
     symbol: 'AUD_USD',
     displayName: 'AUD/USD',
     tolerance: 0.00002,
     slBuffer: 0.0002,
-    pipMultiplier: 10000,
+    ...getCatalogPrecision('AUD_USD'),
   },
   USD_JPY: {
     symbol: 'USD_JPY',
     displayName: 'USD/JPY',
     tolerance: 0.002,      // ~0.2 pips (JPY pairs use 2 decimals)
     slBuffer: 0.02,        // 2 pips
-    pipMultiplier: 100,
+    ...getCatalogPrecision('USD_JPY'),
   },
   XAU_USD: {
     symbol: 'XAU_USD',
     displayName: 'Gold (XAU/USD)',
     tolerance: 0.02,       // Gold has larger price movements
     slBuffer: 0.20,        // ~20 cents buffer
-    pipMultiplier: 10,
+    ...getCatalogPrecision('XAU_USD'),
+  },
+};
+
+// Defaults for catalog instruments without a PAIR_CONFIGS/COST_CONFIGS entry,
+// in pips of the instrument
+export const INSTRUMENT_DEFAULTS = {
+  TOLERANCE_PIPS: 0.2,
+  SL_BUFFER_PIPS: 2,
+  SPREAD_PIPS: 1.5,
+  ROLLOVER_SPREAD_PIPS: 5,
+  SLIPPAGE_PIPS: 0.2,
+  PIP_VALUE_PER_LOT: 10,
+};
+
+// -----------------------------------------------------------------------------
+// Transaction Cost Configurations
+// -----------------------------------------------------------------------------
+// spread: Typical spread, widened around the 21:00-22:00 UTC rollover
+// slippage: Adverse fill on stop-loss exits (entries and TPs are limit orders)
+// commissionPerLot: Round-turn commission per standard lot (USD)
+// pipValuePerLot: USD value of one pip per standard lot
+
+const ROLLOVER_HOURS = { startHour: 21, endHour: 22 };
+
+export const COST_CONFIGS: Record<Pair, CostConfig> = {
+  EUR_USD: {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: 0.00008,     // 0.8 pips
+      windows: [{ ...ROLLOVER_HOURS, spread: 0.0003 }],
+    },
+    slippage: { type: 'FIXED', slippage: 0.00002 },
+    commissionPerLot: 0,
+    pipValuePerLot: 10,
+  },
+  GBP_USD: {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: 0.00012,
+      windows: [{ ...ROLLOVER_HOURS, spread: 0.0004 }],
+    },
+    slippage: { type: 'FIXED', slippage: 0.00002 },
+    commissionPerLot: 0,
+    pipValuePerLot: 10,
+  },
+  AUD_USD: {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: 0.00012,
+      windows: [{ ...ROLLOVER_HOURS, spread: 0.0004 }],
+    },
+    slippage: { type: 'FIXED', slippage: 0.00002 },
+    commissionPerLot: 0,
+    pipValuePerLot: 10,
+  },
+  USD_JPY: {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: 0.012,       // 1.2 pips
+      windows: [{ ...ROLLOVER_HOURS, spread: 0.04 }],
+    },
+    slippage: { type: 'FIXED', slippage: 0.002 },
+    commissionPerLot: 0,
+    pipValuePerLot: 6.5,
+  },
+  XAU_USD: {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: 0.30,        // 30 cents
+      windows: [{ ...ROLLOVER_HOURS, spread: 1.0 }],
+    },
+    slippage: { type: 'FIXED', slippage: 0.05 },
+    commissionPerLot: 0,
+    pipValuePerLot: 1,     // 0.01 pip × 100 oz
   },
 };
 
@@ -54,34 +172,149 @@ export const PAIR_CONFIGS: Record<Pair, PairConfig> = {
 // -----------------------------------------------------------------------------
 // scanInterval: How often to scan (in milliseconds)
 // oandaGranularity: OANDA API granularity parameter
+// minutes: Candle duration
+// drillDownGranularity: Lower timeframe used to resolve same-candle SL/TP hits
 
 export const TIMEFRAME_CONFIGS: Record<Timeframe, TimeframeConfig> = {
+  M5: {
+    value: 'M5',
+    displayName: '5 Minutes',
+    scanInterval: 60000,         // Every 1 minute
+    oandaGranularity: 'M5',
+    minutes: 5,
+    drillDownGranularity: 'M1',
+  },
   M15: {
     value: 'M15',
     displayName: '15 Minutes',
     scanInterval: 60000,         // Every 1 minute
     oandaGranularity: 'M15',
+    minutes: 15,
+    drillDownGranularity: 'M1',
   },
   M30: {
     value: 'M30',
     displayName: '30 Minutes',
     scanInterval: 120000,        // Every 2 minutes
     oandaGranularity: 'M30',
+    minutes: 30,
+    drillDownGranularity: 'M1',
   },
   H1: {
     value: 'H1',
     displayName: '1 Hour',
     scanInterval: 300000,        // Every 5 minutes
     oandaGranularity: 'H1',
+    minutes: 60,
+    drillDownGranularity: 'M1',
   },
   H4: {
     value: 'H4',
     displayName: '4 Hours',
     scanInterval: 900000,        // Every 15 minutes
     oandaGranularity: 'H4',
+    minutes: 240,
+    drillDownGranularity: 'M5',
   },
+  // D1/W1 close at 17:00 New York, so their length in UTC varies with DST -
+  // use lib/market/clock.ts for close times
+  D1: {
+    value: 'D1',
+    displayName: 'Daily',
+    scanInterval: 3600000,       // Every hour
+    oandaGranularity: 'D',
+    minutes: 1440,
+    drillDownGranularity: 'M15',
+  },
+  W1: {
+    value: 'W1',
+    displayName: 'Weekly',
+    scanInterval: 14400000,      // Every 4 hours
+    oandaGranularity: 'W',
+    minutes: 10080,
+    drillDownGranularity: 'H1',
+  },
+};
+
+// -----------------------------------------------------------------------------
+// Wickless Thresholds
+// -----------------------------------------------------------------------------
+// Default: fixed ε (PAIR_CONFIGS tolerance) for both the wick and the doji
+// filter. The first matching rule's settings replace the defaults, e.g.
+// wicks up to 5% of the candle's range and bodies of at least 0.3 ATR:
+//   { config: { wickTolerance: { mode: 'RANGE', value: 0.05 }, minBody: { mode: 'ATR', value: 0.3 } } }
+
+export const DEFAULT_WICKLESS_CONFIG: WicklessConfig = {
+  wickTolerance: { mode: 'FIXED' },
+  minBody: { mode: 'FIXED' },
+  atrPeriod: 14,
+};
+
+export const WICKLESS_RULES: WicklessRule[] = [];
+
+// -----------------------------------------------------------------------------
+// Higher-Timeframe Trend Filter
+// -----------------------------------------------------------------------------
+// Timeframes checked before a setup is taken on each scanned timeframe.
+// TREND_FILTER_MODE env overrides every mode (e.g. 'REJECT').
+
+const TREND_FILTER_MODES: TrendFilterMode[] = ['OFF', 'RECORD', 'DOWNRANK', 'REJECT'];
+
+function isTrendFilterMode(mode: string): mode is TrendFilterMode {
+  return (TREND_FILTER_MODES as string[]).includes(mode);
+}
+
+/**
+ * Trend filter mode set by TREND_FILTER_MODE env
+ * Unknown values are ignored with a warning, so a typo falls back to the
+ * per-timeframe defaults instead of disabling the filter.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns Mode overriding every timeframe, or undefined
+ */
+export function getTrendFilterModeOverride(
+  env: Record<string, string | undefined> = process.env
+): TrendFilterMode | undefined {
+  const mode = env.TREND_FILTER_MODE?.trim().toUpperCase();
+  if (!mode) return undefined;
+  if (isTrendFilterMode(mode)) return mode;
+
+  console.warn(
+    `Ignoring TREND_FILTER_MODE=${env.TREND_FILTER_MODE}: expected one of ${TREND_FILTER_MODES.join(', ')}`
+  );
+  return undefined;
+}
+
+const TREND_FILTER_MODE = getTrendFilterModeOverride();
+
+export const TREND_FILTER_CONFIGS: Partial<Record<Timeframe, TrendFilterConfig>> = {
+  M5: { timeframes: ['H1'], mode: TREND_FILTER_MODE ?? 'RECORD' },
+  M15: { timeframes: ['H4'], mode: TREND_FILTER_MODE ?? 'RECORD' },
+  M30: { timeframes: ['H4'], mode: TREND_FILTER_MODE ?? 'RECORD' },
+  H1: { timeframes: ['D1'], mode: TREND_FILTER_MODE ?? 'RECORD' },
+  H4: { timeframes: ['D1'], mode: TREND_FILTER_MODE ?? 'RECORD' },
 };
 
+// -----------------------------------------------------------------------------
+// Market Hours
+// -----------------------------------------------------------------------------
+// All pairs trade Sunday 17:00 → Friday 17:00 New York (lib/market/clock.ts).
+// Instruments listed here also pause daily; holidays close a whole trading day.
+
+export const MARKET_HOURS: Partial<Record<Pair, TradingHours>> = {
+  XAU_USD: {
+    dailyBreak: { startHour: 17, endHour: 18 },
+  },
+};
+
+// MARKET_HOLIDAYS env: comma-separated dates ('12-25,2025-04-18')
+export const MARKET_HOLIDAYS: MarketHoliday[] = process.env.MARKET_HOLIDAYS
+  ? process.env.MARKET_HOLIDAYS.split(',').map(date => ({ date: date.trim() }))
+  : [
+      { date: '12-25', name: 'Christmas Day' },
+      { date: '01-01', name: "New Year's Day" },
+    ];
+
 // -----------------------------------------------------------------------------
 // Strategy Constants
 // -----------------------------------------------------------------------------
@@ -102,8 +335,42 @@ export const STRATEGY_CONFIG = {
   
   // Minimum swing points needed for trend classification
   MIN_SWING_POINTS: 4,
+
+  // Trend the scanner trades: last two swings, or the market structure
+  // state machine (TREND_METHOD env)
+  TREND_METHOD: (process.env.TREND_METHOD || 'SWINGS') as TrendMethod,
+
+  // What breaks structure (BOS/CHoCH)
+  STRUCTURE_BREAK_MODE: 'CLOSE' as StructureBreakMode,
+
+  // Place the SL behind a provisional swing when it is newer than the last
+  // confirmed one (PROVISIONAL_SL env). Tighter, fresher stops, but the
+  // swing may still be cancelled by later candles.
+  PROVISIONAL_SL: process.env.PROVISIONAL_SL === 'true',
+
+  // Missing candles tolerated in a fetched series before scans on it
+  // are marked untrusted (see lib/sources/quality.ts)
+  MAX_MISSING_CANDLES: 3,
+
+  // How to score a candle that hits both SL and TP when
+  // lower-timeframe data can't decide which came first
+  AMBIGUITY_POLICY: 'PESSIMISTIC' as AmbiguityPolicy,
+
+  // Zigzag swing detectors (see lib/detection/swingDetectors.ts)
+  ZIGZAG_ATR_PERIOD: 14,
+  ZIGZAG_ATR_MULTIPLIER: 2,
+  ZIGZAG_PERCENT: 0.5,
 };
 
+// -----------------------------------------------------------------------------
+// Swing Detectors
+// -----------------------------------------------------------------------------
+// First matching rule wins; pairs/timeframes without one use the fractal
+// with SWING_LOOKBACK. Example - bigger legs on H4 and above:
+//   { timeframes: ['H4', 'D1', 'W1'], detector: { type: 'ATR_ZIGZAG', atrMultiplier: 3 } }
+
+export const SWING_DETECTOR_RULES: SwingDetectorRule[] = [];
+
 // -----------------------------------------------------------------------------
 // Recommended Pairs (Rule 8)
 // -----------------------------------------------------------------------------
@@ -128,6 +395,7 @@ export const PAIR_PRIORITY: Record<Pair, number> = {
 // Valid Timeframes (Rule 7)
 // -----------------------------------------------------------------------------
 
+// M5, D1 and W1 can be scanned too, but the strategy is tuned for these
 export const VALID_TIMEFRAMES: Timeframe[] = ['M15', 'M30', 'H1', 'H4'];
 
 // Default timeframe
@@ -137,37 +405,154 @@ export const DEFAULT_TIMEFRAME: Timeframe = 'M15';
 // Helper Functions
 // -----------------------------------------------------------------------------
 
-export function getPairConfig(pair: Pair): PairConfig {
-  return PAIR_CONFIGS[pair];
+function isKnownPair(pair: string): pair is Pair {
+  return pair in PAIR_CONFIGS;
+}
+
+/**
+ * Strategy settings for an instrument
+ * Hand-tuned for PAIR_CONFIGS entries, derived from the pip size otherwise.
+ *
+ * @throws If the instrument is neither configured nor in the catalog
+ */
+export function getPairConfig(pair: Instrument): PairConfig {
+  if (isKnownPair(pair)) {
+    return PAIR_CONFIGS[pair];
+  }
+
+  const instrument = instrumentCatalog.get(pair);
+  if (!instrument) {
+    throw new Error(`Unknown instrument: ${pair}`);
+  }
+
+  const pipSize = getPipSize(instrument);
+  return {
+    symbol: instrument.name,
+    displayName: instrument.displayName,
+    tolerance: INSTRUMENT_DEFAULTS.TOLERANCE_PIPS * pipSize,
+    slBuffer: INSTRUMENT_DEFAULTS.SL_BUFFER_PIPS * pipSize,
+    pipMultiplier: 1 / pipSize,
+    displayPrecision: instrument.displayPrecision,
+  };
 }
 
 export function getTimeframeConfig(timeframe: Timeframe): TimeframeConfig {
   return TIMEFRAME_CONFIGS[timeframe];
 }
 
-export function getTolerance(pair: Pair): number {
-  return PAIR_CONFIGS[pair].tolerance;
+/**
+ * Length of an OANDA granularity in minutes (e.g., 'M1' → 1, 'H4' → 240)
+ * Returns 0 for unknown granularities
+ */
+export function getGranularityMinutes(granularity: string): number {
+  const match = /^([MHDW])(\d*)$/.exec(granularity);
+  if (!match) return 0;
+
+  const size = match[2] ? parseInt(match[2]) : 1;
+  switch (match[1]) {
+    case 'M': return size;
+    case 'H': return size * 60;
+    case 'D': return size * 60 * 24;
+    case 'W': return size * 60 * 24 * 7;
+    default: return 0;
+  }
 }
 
-export function getSLBuffer(pair: Pair): number {
-  return PAIR_CONFIGS[pair].slBuffer;
+export function getTolerance(pair: Instrument): number {
+  return getPairConfig(pair).tolerance;
 }
 
-export function getPipMultiplier(pair: Pair): number {
-  return PAIR_CONFIGS[pair].pipMultiplier;
+export function getSLBuffer(pair: Instrument): number {
+  return getPairConfig(pair).slBuffer;
 }
 
-export function priceToPips(price: number, pair: Pair): number {
+/**
+ * Cost model for an instrument
+ * Catalog instruments get INSTRUMENT_DEFAULTS spreads and slippage.
+ */
+export function getCostConfig(pair: Instrument): CostConfig {
+  if (isKnownPair(pair)) {
+    return COST_CONFIGS[pair];
+  }
+
+  const pip = 1 / getPipMultiplier(pair);
+  return {
+    spread: {
+      type: 'TIME_OF_DAY',
+      spread: INSTRUMENT_DEFAULTS.SPREAD_PIPS * pip,
+      windows: [{ ...ROLLOVER_HOURS, spread: INSTRUMENT_DEFAULTS.ROLLOVER_SPREAD_PIPS * pip }],
+    },
+    slippage: { type: 'FIXED', slippage: INSTRUMENT_DEFAULTS.SLIPPAGE_PIPS * pip },
+    commissionPerLot: 0,
+    pipValuePerLot: INSTRUMENT_DEFAULTS.PIP_VALUE_PER_LOT,
+  };
+}
+
+export function getPipMultiplier(pair: Instrument): number {
+  return getPairConfig(pair).pipMultiplier;
+}
+
+export function getStrategyParams(
+  pair: Instrument,
+  overrides: Partial<StrategyParams> = {}
+): StrategyParams {
+  return {
+    swingLookback: STRATEGY_CONFIG.SWING_LOOKBACK,
+    maxCandlesForEntry: STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY,
+    riskRewardRatio: STRATEGY_CONFIG.RISK_REWARD_RATIO,
+    tolerance: getTolerance(pair),
+    slBuffer: getSLBuffer(pair),
+    ...overrides,
+  };
+}
+
+/**
+ * Wickless thresholds for a pair and timeframe (WICKLESS_RULES)
+ */
+export function getWicklessConfig(
+  pair: Instrument,
+  timeframe: Timeframe,
+  rules: WicklessRule[] = WICKLESS_RULES
+): WicklessConfig {
+  const rule = rules.find(r =>
+    (!r.pairs || r.pairs.includes(pair)) &&
+    (!r.timeframes || r.timeframes.includes(timeframe))
+  );
+  return { ...DEFAULT_WICKLESS_CONFIG, ...rule?.config };
+}
+
+/**
+ * Higher-timeframe filter for a scanned timeframe (OFF when not configured)
+ */
+export function getTrendFilterConfig(timeframe: Timeframe): TrendFilterConfig {
+  return TREND_FILTER_CONFIGS[timeframe] ?? { timeframes: [], mode: 'OFF' };
+}
+
+/**
+ * Swing detector settings for a pair and timeframe (SWING_DETECTOR_RULES)
+ */
+export function getSwingDetectorConfig(
+  pair: Instrument,
+  timeframe: Timeframe,
+  rules: SwingDetectorRule[] = SWING_DETECTOR_RULES
+): SwingDetectorConfig {
+  const rule = rules.find(r =>
+    (!r.pairs || r.pairs.includes(pair)) &&
+    (!r.timeframes || r.timeframes.includes(timeframe))
+  );
+  return rule?.detector ?? { type: 'FRACTAL' };
+}
+
+export function priceToPips(price: number, pair: Instrument): number {
   return price * getPipMultiplier(pair);
 }
 
-export function pipToPrice(pips: number, pair: Pair): number {
+export function pipToPrice(pips: number, pair: Instrument): number {
   return pips / getPipMultiplier(pair);
 }
 
-export function formatPrice(price: number, pair: Pair): string {
-  const decimals = pair === 'USD_JPY' ? 3 : pair === 'XAU_USD' ? 2 : 5;
-  return price.toFixed(decimals);
+export function formatPrice(price: number, pair: Instrument): string {
+  return price.toFixed(getPairConfig(pair).displayPrecision);
 }
 
 export function formatPips(pips: number): string {
@@ -181,8 +566,19 @@ export function formatPips(pips: number): string {
 export const OANDA_CONFIG = {
   // These will be set via environment variables
   API_URL: process.env.OANDA_API_URL || 'https://api-fxpractice.oanda.com',
+  STREAM_URL: process.env.OANDA_STREAM_URL || 'https://stream-fxpractice.oanda.com',
   ACCOUNT_ID: process.env.OANDA_ACCOUNT_ID || '',
   API_KEY: process.env.OANDA_API_KEY || '',
+  // Mid plus bid/ask so entries and exits are checked on the side they fill
+  PRICE_COMPONENTS: (process.env.OANDA_PRICE_COMPONENTS || 'MBA') as OandaPriceComponents,
+
+  // Request layer (lib/http.ts)
+  TIMEOUT_MS: 10 * 1000,
+  MAX_ATTEMPTS: 4,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 10 * 1000,
+  // Per-account budget, under OANDA's limit of 120 requests/second
+  REQUESTS_PER_SECOND: 100,
 };
 
 // -----------------------------------------------------------------------------
@@ -190,13 +586,58 @@ export const OANDA_CONFIG = {
 // -----------------------------------------------------------------------------
 
 export function isValidPair(pair: string): pair is Pair {
-  return pair in PAIR_CONFIGS;
+  return isKnownPair(pair);
+}
+
+/**
+ * Looks up an instrument name - the only way to get an InstrumentId
+ * Load the catalog first (loadInstrumentCatalogFromEnv) to accept
+ * instruments beyond the built-in snapshot.
+ *
+ * @param name - OANDA instrument name (e.g. 'EUR_JPY')
+ * @returns The configured pair or catalog instrument, null if unknown
+ */
+export function toInstrument(name: string): Instrument | null {
+  if (isKnownPair(name)) return name;
+  return instrumentCatalog.has(name) ? name as InstrumentId : null;
+}
+
+/**
+ * Looks up a list of instrument names
+ *
+ * @param names - OANDA instrument names
+ * @returns Known instruments in order, and the names that aren't known
+ */
+export function toInstruments(names: string[]): { pairs: Instrument[]; unknown: string[] } {
+  const pairs: Instrument[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const instrument = toInstrument(String(name));
+    if (instrument) pairs.push(instrument);
+    else unknown.push(String(name));
+  }
+  return { pairs, unknown };
+}
+
+/**
+ * Pairs the cron scans: SCAN_PAIRS env (comma-separated, any catalog
+ * instrument) or the recommended pairs
+ * Call once the catalog is loaded.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns Instruments to scan, and SCAN_PAIRS entries that aren't known
+ */
+export function getScanPairs(
+  env: Record<string, string | undefined> = process.env
+): { pairs: Instrument[]; unknown: string[] } {
+  if (!env.SCAN_PAIRS) return { pairs: RECOMMENDED_PAIRS, unknown: [] };
+  return toInstruments(env.SCAN_PAIRS.split(',').map(pair => pair.trim()).filter(Boolean));
 }
 
 export function isValidTimeframe(timeframe: string): timeframe is Timeframe {
   return timeframe in TIMEFRAME_CONFIGS;
 }
 
-export function isRecommendedPair(pair: Pair): boolean {
-  return RECOMMENDED_PAIRS.includes(pair);
+export function isRecommendedPair(pair: Instrument): boolean {
+  return isKnownPair(pair) && RECOMMENDED_PAIRS.includes(pair);
 }
@@ -9,8 +9,13 @@ export {
   getMostRecentWickless,
   analyzeWicks,
   validateWicklessCandle,
+  getWicklessThresholds,
+  type WicklessThresholds,
 } from './wickless';
 
+// Volatility (ATR)
+export { AtrTracker, calculateATR } from './volatility';
+
 // Swing point detection
 export {
   findSwingPoints,
@@ -29,6 +34,16 @@ export {
   formatSwingPoints,
 } from './swingPoints';
 
+// Swing detectors (fractal, ATR/percent zigzag)
+export {
+  createFractalDetector,
+  createAtrZigzagDetector,
+  createPercentZigzagDetector,
+  createSwingDetector,
+  getSwingDetector,
+  resolveSwingDetector,
+} from './swingDetectors';
+
 // Trend classification
 export {
   classifyTrend,
@@ -40,13 +55,26 @@ export {
   getAllowedDirection,
   formatTrendAnalysis,
   detectTrendChangeWarning,
+  selectTrend,
 } from './trend';
 
+// Market structure (BOS / CHoCH state machine)
+export {
+  MarketStructureTracker,
+  analyzeMarketStructure,
+  formatStructureEvents,
+} from './marketStructure';
+
+// Incremental (streaming) trend analysis
+export { IncrementalTrendAnalyzer } from './incremental';
+
 // Structure-based SL/TP calculation
 export {
   calculateTradeSetup,
+  buildTradeSetup,
   validateSetup,
   calculatePositionSize,
+  formatRiskReward,
   formatTradeSetup,
   checkOutcome,
   checkEntryTrigger,
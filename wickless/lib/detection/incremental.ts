@@ -0,0 +1,228 @@
+// =============================================================================
+// WICKLESS STRATEGY — INCREMENTAL TREND ANALYSIS
+// =============================================================================
+// Streaming version of findSwingPoints → classifyTrend → analyzeTrend.
+//
+// The batch functions rescan every candle each time they are called, so
+// running them at every index of a long history is quadratic. This analyzer
+// keeps swing points and trend state up to date as each candle arrives:
+//
+// - Swings come from the detector's tracker (see swingDetectors.ts), which
+//   confirms them one candle at a time - for the fractal, index
+//   N - 1 - lookback once the `lookback` candles to its right exist
+// - Trend and HH/HL/LH/LL only depend on the last two highs and lows
+//
+// - Swings confirmed by each candle also feed the market structure tracker
+// - Provisional swings are read from the tracker on demand; nothing else
+//   depends on them, so state after candle N only uses candles 0..N
+//
+// After pushing candles[0..N-1], every getter returns the same result as the
+// matching batch function called on candles.slice(0, N).
+// =============================================================================
+
+import {
+  Candle,
+  SwingDetectorInput,
+  SwingPoint,
+  SwingTracker,
+  Trend,
+  TrendAnalysis
+} from '../../types/types';
+import { STRATEGY_CONFIG } from '../config';
+import { resolveSwingDetector } from './swingDetectors';
+import { MarketStructureTracker } from './marketStructure';
+
+export class IncrementalTrendAnalyzer {
+  private candles: Candle[] = [];
+  private swings: SwingPoint[] = [];
+  private highs: SwingPoint[] = [];
+  private lows: SwingPoint[] = [];
+  private tracker: SwingTracker;
+  private structure = new MarketStructureTracker();
+
+  /**
+   * @param detector - Swing detector or fractal lookback
+   * @param minSwingPoints - Swing points needed before a trend is called
+   */
+  constructor(
+    private readonly detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
+    private readonly minSwingPoints: number = STRATEGY_CONFIG.MIN_SWING_POINTS
+  ) {
+    this.tracker = resolveSwingDetector(detector).createTracker();
+  }
+
+  /**
+   * Number of candles pushed so far
+   */
+  get length(): number {
+    return this.candles.length;
+  }
+
+  /**
+   * Adds the next candle (oldest first) and confirms any new swing point
+   *
+   * @param candle - Next candle in sequence
+   * @returns Swing points confirmed by this candle
+   */
+  push(candle: Candle): SwingPoint[] {
+    this.candles.push(candle);
+
+    const confirmed = this.tracker.push(candle);
+    for (const swing of confirmed) {
+      (swing.type === 'HIGH' ? this.highs : this.lows).push(swing);
+    }
+    this.structure.update(candle, this.candles.length - 1, confirmed);
+
+    this.swings.push(...confirmed);
+    return confirmed;
+  }
+
+  /**
+   * Adds several candles in order
+   */
+  pushMany(candles: Candle[]): void {
+    for (const candle of candles) {
+      this.push(candle);
+    }
+  }
+
+  /**
+   * All candles pushed so far (internal array - do not mutate)
+   */
+  getCandles(): Candle[] {
+    return this.candles;
+  }
+
+  /**
+   * All confirmed swing points, same as findSwingPoints
+   */
+  getSwingPoints(): SwingPoint[] {
+    return [...this.swings];
+  }
+
+  /**
+   * Unconfirmed swings as of the last candle, same as the provisional part
+   * of findSwingPoints(candles, detector, true)
+   */
+  getProvisionalSwings(): SwingPoint[] {
+    return this.tracker.getProvisional();
+  }
+
+  /**
+   * Most recent swing high, same as getMostRecentSwingHigh
+   */
+  getMostRecentSwingHigh(): SwingPoint | null {
+    return this.highs.length > 0 ? this.highs[this.highs.length - 1] : null;
+  }
+
+  /**
+   * Most recent swing low, same as getMostRecentSwingLow
+   */
+  getMostRecentSwingLow(): SwingPoint | null {
+    return this.lows.length > 0 ? this.lows[this.lows.length - 1] : null;
+  }
+
+  /**
+   * Swing point for SL placement, same as getStructureForSL
+   *
+   * @param includeProvisional - Prefer a provisional swing newer than the
+   *   last confirmed one (default: PROVISIONAL_SL)
+   */
+  getStructureForSL(
+    direction: 'BUY' | 'SELL',
+    includeProvisional: boolean = STRATEGY_CONFIG.PROVISIONAL_SL
+  ): SwingPoint | null {
+    const type = direction === 'BUY' ? 'LOW' : 'HIGH';
+    if (includeProvisional) {
+      const provisional = this.getProvisionalSwings().filter(s => s.type === type);
+      if (provisional.length > 0) return provisional[provisional.length - 1];
+    }
+    return type === 'LOW' ? this.getMostRecentSwingLow() : this.getMostRecentSwingHigh();
+  }
+
+  /**
+   * Current trend, same as classifyTrend
+   */
+  getTrend(): Trend {
+    if (this.swings.length < this.minSwingPoints) {
+      return 'RANGING';
+    }
+
+    const [prevHigh, currHigh] = this.highs.slice(-2);
+    const [prevLow, currLow] = this.lows.slice(-2);
+
+    if (!currHigh || !currLow) {
+      return 'RANGING';
+    }
+
+    if (currHigh.price > prevHigh.price && currLow.price > prevLow.price) {
+      return 'UP';
+    }
+    if (currHigh.price < prevHigh.price && currLow.price < prevLow.price) {
+      return 'DOWN';
+    }
+    return 'RANGING';
+  }
+
+  /**
+   * Market structure trend, same as analyzeTrend().structureTrend
+   */
+  getStructureTrend(): Trend {
+    return this.structure.getTrend();
+  }
+
+  /**
+   * Full trend analysis, same as analyzeTrend.
+   *
+   * @param historyLimit - Keep only the most recent N swing highs/lows on the
+   *   result (default: all), and as many structure events. Long backtests that
+   *   store one analysis per candle should set this to avoid copying the whole
+   *   swing history every time.
+   */
+  getAnalysis(historyLimit?: number): TrendAnalysis {
+    let latestHH: SwingPoint | null = null;
+    let latestHL: SwingPoint | null = null;
+    let latestLH: SwingPoint | null = null;
+    let latestLL: SwingPoint | null = null;
+
+    if (this.highs.length >= 2) {
+      const [prev, curr] = this.highs.slice(-2);
+      if (curr.price > prev.price) latestHH = curr;
+      else if (curr.price < prev.price) latestLH = curr;
+    }
+
+    if (this.lows.length >= 2) {
+      const [prev, curr] = this.lows.slice(-2);
+      if (curr.price > prev.price) latestHL = curr;
+      else if (curr.price < prev.price) latestLL = curr;
+    }
+
+    const recent = (points: SwingPoint[]) =>
+      historyLimit === undefined ? [...points] : points.slice(Math.max(0, points.length - historyLimit));
+
+    return {
+      trend: this.getTrend(),
+      swingHighs: recent(this.highs),
+      swingLows: recent(this.lows),
+      latestHH,
+      latestHL,
+      latestLH,
+      latestLL,
+      structureTrend: this.structure.getTrend(),
+      structureEvents: this.structure.getEvents(historyLimit),
+      provisionalSwings: this.getProvisionalSwings(),
+    };
+  }
+
+  /**
+   * Clears all state
+   */
+  reset(): void {
+    this.candles = [];
+    this.swings = [];
+    this.highs = [];
+    this.lows = [];
+    this.tracker = resolveSwingDetector(this.detector).createTracker();
+    this.structure.reset();
+  }
+}
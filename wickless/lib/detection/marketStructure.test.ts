@@ -0,0 +1,120 @@
+// =============================================================================
+// WICKLESS STRATEGY — MARKET STRUCTURE TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, StructureBreakMode, SwingPoint } from '../../types/types';
+import { MarketStructureTracker } from './marketStructure';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+const timeAt = (index: number) => new Date(Date.UTC(2024, 0, 2) + index * M15).toISOString();
+
+function swing(type: 'HIGH' | 'LOW', price: number, index: number): SwingPoint {
+  return { index, time: timeAt(index), price, type, status: 'CONFIRMED', knownAt: index + 3 };
+}
+
+function candle(index: number, close: number, high = close, low = close): Candle {
+  return { time: timeAt(index), open: close, high, low, close, complete: true };
+}
+
+interface Step {
+  candle: Candle;
+  swings?: SwingPoint[];
+}
+
+/**
+ * Feeds the steps through a tracker and returns its events as
+ * "TYPE DIRECTION trend@index" strings
+ */
+function run(steps: Step[], breakOn: StructureBreakMode = 'CLOSE'): string[] {
+  const tracker = new MarketStructureTracker(breakOn);
+  steps.forEach((step, index) => tracker.update(step.candle, index, step.swings ?? []));
+  return tracker.getEvents().map(e => `${e.type} ${e.direction} ${e.trend}@${e.index}`);
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('breaks run BOS, continuation BOS, then CHoCH each way', () => {
+  const events = run([
+    { candle: candle(0, 1.0950), swings: [swing('HIGH', 1.1000, 0)] },
+    { candle: candle(1, 1.0950), swings: [swing('LOW', 1.0900, 1)] },
+    { candle: candle(2, 1.1010) },          // first break sets the trend
+    { candle: candle(3, 1.1020) },          // same high can't break twice
+    { candle: candle(4, 1.1000), swings: [swing('HIGH', 1.1050, 2), swing('LOW', 1.0950, 3)] },
+    { candle: candle(5, 1.1060) },          // continuation
+    { candle: candle(6, 1.0940) },          // below the HL in an uptrend
+    { candle: candle(7, 1.0950), swings: [swing('LOW', 1.0900, 6), swing('HIGH', 1.1000, 5)] },
+    { candle: candle(8, 1.0890) },          // continuation down
+    { candle: candle(9, 1.1010) },          // above the LH in a downtrend
+  ]);
+
+  assert.deepEqual(events, [
+    'BOS UP UP@2',
+    'HH UP UP@2',
+    'HL UP UP@3',
+    'BOS UP UP@5',
+    'CHOCH DOWN DOWN@6',
+    'LL DOWN DOWN@6',
+    'LH DOWN DOWN@5',
+    'BOS DOWN DOWN@8',
+    'CHOCH UP UP@9',
+  ]);
+});
+
+test('breaks carry the broken swing and the breaking candle', () => {
+  const tracker = new MarketStructureTracker('CLOSE');
+  const high = swing('HIGH', 1.1000, 0);
+  tracker.update(candle(0, 1.0950), 0, [high]);
+  const [event] = tracker.update(candle(1, 1.1005), 1, []);
+
+  assert.deepEqual(event, {
+    type: 'BOS',
+    direction: 'UP',
+    trend: 'UP',
+    price: 1.1000,
+    time: timeAt(1),
+    index: 1,
+    knownAt: 1,
+    level: high,
+  });
+});
+
+test('swing labels keep the trend from before and the swing knownAt', () => {
+  const tracker = new MarketStructureTracker('CLOSE');
+  tracker.update(candle(0, 1.0950), 0, [swing('LOW', 1.0900, 0)]);
+  const [label] = tracker.update(candle(5, 1.0950), 5, [swing('LOW', 1.0920, 2)]);
+
+  assert.equal(label.type, 'HL');
+  assert.equal(label.trend, 'RANGING');
+  assert.equal(label.index, 2);
+  assert.equal(label.knownAt, 5);
+  assert.equal(tracker.getTrend(), 'RANGING');
+});
+
+test('wick breaks count only in WICK mode', () => {
+  const steps: Step[] = [
+    { candle: candle(0, 1.0950), swings: [swing('HIGH', 1.1000, 0)] },
+    { candle: candle(1, 1.0990, 1.1010) },  // wick through, close below
+  ];
+
+  assert.deepEqual(run(steps, 'CLOSE'), []);
+  assert.deepEqual(run(steps, 'WICK'), ['BOS UP UP@1']);
+});
+
+test('an equal swing gets no label but can be broken again', () => {
+  const events = run([
+    { candle: candle(0, 1.0950), swings: [swing('HIGH', 1.1000, 0)] },
+    { candle: candle(1, 1.1010) },
+    { candle: candle(2, 1.0950), swings: [swing('HIGH', 1.1000, 1)] },
+    { candle: candle(3, 1.1010) },
+  ]);
+
+  assert.deepEqual(events, ['BOS UP UP@1', 'BOS UP UP@3']);
+});
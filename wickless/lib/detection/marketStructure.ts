@@ -0,0 +1,188 @@
+// =============================================================================
+// WICKLESS STRATEGY — MARKET STRUCTURE
+// =============================================================================
+// Persistent trend state built from every swing, instead of the last two:
+//
+// - Each confirmed swing is labelled against the previous one of its type:
+//   HH / LH for highs, HL / LL for lows (equal swings get no label)
+// - A candle closing beyond the latest unbroken swing breaks structure:
+//     above a swing high in an uptrend    → BOS (continuation)
+//     above a swing high in a downtrend   → CHoCH (trend turns UP)
+//     below a swing low in a downtrend    → BOS
+//     below a swing low in an uptrend     → CHoCH (trend turns DOWN)
+//   From RANGING, the first break is a BOS that sets the trend
+// - Only breaks change the trend, so one ambiguous swing doesn't flip it
+//
+// Swings come from outside (a swing tracker), so the batch and incremental
+// analyzers feed the same swings in the same order. Only confirmed swings
+// are fed in: a label is known from the swing's knownAt candle, not its
+// index, and no event is ever revised.
+// =============================================================================
+
+import {
+  Candle,
+  StructureBreakMode,
+  StructureEvent,
+  SwingDetectorInput,
+  SwingPoint,
+  Trend
+} from '../../types/types';
+import { STRATEGY_CONFIG } from '../config';
+import { resolveSwingDetector } from './swingDetectors';
+
+export class MarketStructureTracker {
+  private trend: Trend = 'RANGING';
+  private events: StructureEvent[] = [];
+  private lastHigh: SwingPoint | null = null;
+  private lastLow: SwingPoint | null = null;
+  private highBroken = false;
+  private lowBroken = false;
+
+  /**
+   * @param breakOn - Whether a break needs a close beyond the level or just
+   *   a wick (default: STRUCTURE_BREAK_MODE)
+   */
+  constructor(private readonly breakOn: StructureBreakMode = STRATEGY_CONFIG.STRUCTURE_BREAK_MODE) {}
+
+  /**
+   * Processes the next candle and the swings confirmed with it
+   *
+   * @param candle - Next candle (oldest first)
+   * @param index - Candle index in the series
+   * @param swings - Swings the swing tracker confirmed on this candle
+   * @returns Events in order: swing labels, then any break by this candle
+   */
+  update(candle: Candle, index: number, swings: SwingPoint[]): StructureEvent[] {
+    const events: StructureEvent[] = [];
+
+    for (const swing of swings) {
+      const label = this.labelSwing(swing);
+      if (label) events.push(label);
+    }
+
+    const up = this.breakOn === 'CLOSE' ? candle.close : candle.high;
+    const down = this.breakOn === 'CLOSE' ? candle.close : candle.low;
+
+    if (this.lastHigh && !this.highBroken && up > this.lastHigh.price) {
+      this.highBroken = true;
+      events.push(this.breakStructure('UP', this.lastHigh, candle, index));
+    }
+    if (this.lastLow && !this.lowBroken && down < this.lastLow.price) {
+      this.lowBroken = true;
+      events.push(this.breakStructure('DOWN', this.lastLow, candle, index));
+    }
+
+    this.events.push(...events);
+    return events;
+  }
+
+  /**
+   * Current trend (changes only on BOS/CHoCH)
+   */
+  getTrend(): Trend {
+    return this.trend;
+  }
+
+  /**
+   * All events so far, oldest first
+   *
+   * @param limit - Keep only the most recent N
+   */
+  getEvents(limit?: number): StructureEvent[] {
+    return limit === undefined
+      ? [...this.events]
+      : this.events.slice(Math.max(0, this.events.length - limit));
+  }
+
+  reset(): void {
+    this.trend = 'RANGING';
+    this.events = [];
+    this.lastHigh = null;
+    this.lastLow = null;
+    this.highBroken = false;
+    this.lowBroken = false;
+  }
+
+  private labelSwing(swing: SwingPoint): StructureEvent | null {
+    const previous = swing.type === 'HIGH' ? this.lastHigh : this.lastLow;
+
+    if (swing.type === 'HIGH') {
+      this.lastHigh = swing;
+      this.highBroken = false;
+    } else {
+      this.lastLow = swing;
+      this.lowBroken = false;
+    }
+
+    if (!previous || swing.price === previous.price) {
+      return null;
+    }
+
+    const higher = swing.price > previous.price;
+    const type = swing.type === 'HIGH' ? (higher ? 'HH' : 'LH') : (higher ? 'HL' : 'LL');
+
+    return {
+      type,
+      direction: higher ? 'UP' : 'DOWN',
+      trend: this.trend,
+      price: swing.price,
+      time: swing.time,
+      index: swing.index,
+      knownAt: swing.knownAt,
+      level: null,
+    };
+  }
+
+  private breakStructure(
+    direction: 'UP' | 'DOWN',
+    level: SwingPoint,
+    candle: Candle,
+    index: number
+  ): StructureEvent {
+    const continuation = this.trend === direction || this.trend === 'RANGING';
+    this.trend = direction;
+
+    return {
+      type: continuation ? 'BOS' : 'CHOCH',
+      direction,
+      trend: direction,
+      price: level.price,
+      time: candle.time,
+      index,
+      knownAt: index,
+      level,
+    };
+  }
+}
+
+/**
+ * Runs the structure tracker over a series
+ *
+ * @param candles - Array of candles (oldest first)
+ * @param detector - Swing detector or fractal lookback
+ * @param breakOn - Close or wick breaks (default: STRUCTURE_BREAK_MODE)
+ * @returns Final structure trend and every event
+ */
+export function analyzeMarketStructure(
+  candles: Candle[],
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
+  breakOn: StructureBreakMode = STRATEGY_CONFIG.STRUCTURE_BREAK_MODE
+): { trend: Trend; events: StructureEvent[] } {
+  const swings = resolveSwingDetector(detector).createTracker();
+  const structure = new MarketStructureTracker(breakOn);
+
+  candles.forEach((candle, index) => {
+    structure.update(candle, index, swings.push(candle));
+  });
+
+  return { trend: structure.getTrend(), events: structure.getEvents() };
+}
+
+/**
+ * Formats structure events for logs (e.g. "BOS ▲ 1.08512 @ 42")
+ */
+export function formatStructureEvents(events: StructureEvent[]): string {
+  return events
+    .map(e => `${e.type} ${e.direction === 'UP' ? '▲' : '▼'} ${e.price.toFixed(5)} @ ${e.index}`)
+    .join('\n');
+}
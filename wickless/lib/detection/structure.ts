@@ -3,19 +3,19 @@
 // =============================================================================
 // Implements:
 // - Rule 5: Stop Loss Placement (at market structure)
-// - Rule 6: Take Profit (1:1 Risk to Reward)
+// - Rule 6: Take Profit (1:1 Risk to Reward by default)
 //
 // For BUY trades:
 //   SL = Most recent Higher Low - buffer (1-2 pips)
-//   TP = Entry + (Entry - SL)
+//   TP = Entry + (Entry - SL) × RR
 //
 // For SELL trades:
 //   SL = Most recent Lower High + buffer (1-2 pips)
-//   TP = Entry - (SL - Entry)
+//   TP = Entry - (SL - Entry) × RR
 // =============================================================================
 
-import { Candle, Pair, SwingPoint, TradeSetup } from '../../types/types';
-import { getSLBuffer, getPipMultiplier, formatPrice, formatPips } from '../config';
+import { Candle, Instrument, SwingDetectorInput, SwingPoint, TradeSetup } from '../../types/types';
+import { STRATEGY_CONFIG, getSLBuffer, getPipMultiplier, formatPrice, formatPips } from '../config';
 import { getStructureForSL, getMostRecentSwingLow, getMostRecentSwingHigh } from './swingPoints';
 
 /**
@@ -25,21 +25,52 @@ import { getStructureForSL, getMostRecentSwingLow, getMostRecentSwingHigh } from
  * @param entryZone - Entry price level (from wickless candle detection)
  * @param candles - Array of candles for structure analysis
  * @param pair - Trading pair (for buffer and pip calculations)
+ * @param buffer - SL buffer beyond structure (default: pair config)
+ * @param riskReward - Reward multiple of risk for TP (default: config)
+ * @param detector - Swing detector or fractal lookback
+ * @param includeProvisional - Allow a provisional structure point
+ *   (default: PROVISIONAL_SL)
  * @returns Complete trade setup or null if structure not found
  */
 export function calculateTradeSetup(
   direction: 'BUY' | 'SELL',
   entryZone: number,
   candles: Candle[],
-  pair: Pair
+  pair: Instrument,
+  buffer: number = getSLBuffer(pair),
+  riskReward: number = STRATEGY_CONFIG.RISK_REWARD_RATIO,
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
+  includeProvisional: boolean = STRATEGY_CONFIG.PROVISIONAL_SL
 ): TradeSetup | null {
-  const buffer = getSLBuffer(pair);
-  const structurePoint = getStructureForSL(candles, direction);
+  const structurePoint = getStructureForSL(candles, direction, detector, includeProvisional);
 
   if (!structurePoint) {
     return null;
   }
 
+  return buildTradeSetup(direction, entryZone, structurePoint, pair, buffer, riskReward);
+}
+
+/**
+ * Builds a trade setup from an already-known structure point.
+ * Used when swing points are tracked incrementally.
+ * 
+ * @param direction - Trade direction ('BUY' or 'SELL')
+ * @param entryZone - Entry price level
+ * @param structurePoint - Swing point the SL sits behind
+ * @param pair - Trading pair
+ * @param buffer - SL buffer beyond structure (default: pair config)
+ * @param riskReward - Reward multiple of risk for TP (default: config)
+ * @returns Complete trade setup
+ */
+export function buildTradeSetup(
+  direction: 'BUY' | 'SELL',
+  entryZone: number,
+  structurePoint: SwingPoint,
+  pair: Instrument,
+  buffer: number = getSLBuffer(pair),
+  riskReward: number = STRATEGY_CONFIG.RISK_REWARD_RATIO
+): TradeSetup {
   let stopLoss: number;
   let takeProfit: number;
   let riskPips: number;
@@ -51,8 +82,8 @@ export function calculateTradeSetup(
     // Calculate risk in price terms
     const risk = entryZone - stopLoss;
     
-    // TP at 1:1 (same distance above entry)
-    takeProfit = entryZone + risk;
+    // TP at 1:RR above entry
+    takeProfit = entryZone + risk * riskReward;
     
     // Convert to pips for display
     riskPips = risk * getPipMultiplier(pair);
@@ -63,8 +94,8 @@ export function calculateTradeSetup(
     // Calculate risk in price terms
     const risk = stopLoss - entryZone;
     
-    // TP at 1:1 (same distance below entry)
-    takeProfit = entryZone - risk;
+    // TP at 1:RR below entry
+    takeProfit = entryZone - risk * riskReward;
     
     // Convert to pips for display
     riskPips = risk * getPipMultiplier(pair);
@@ -91,7 +122,7 @@ export function calculateTradeSetup(
  */
 export function validateSetup(
   setup: TradeSetup,
-  pair: Pair,
+  pair: Instrument,
   minPips: number = 5,
   maxPips: number = 50
 ): { valid: boolean; reason: string } {
@@ -165,6 +196,19 @@ export function calculatePositionSize(
   return Math.floor(positionSize * 100) / 100;
 }
 
+/**
+ * Formats the setup's risk to reward ratio (e.g., '1:1', '1:1.5').
+ * 
+ * @param setup - The trade setup
+ * @returns Ratio string
+ */
+export function formatRiskReward(setup: TradeSetup): string {
+  const risk = Math.abs(setup.entryZone - setup.stopLoss);
+  const reward = Math.abs(setup.takeProfit - setup.entryZone);
+  const ratio = risk > 0 ? reward / risk : 0;
+  return `1:${Number(ratio.toFixed(2))}`;
+}
+
 /**
  * Formats a trade setup for display.
  * 
@@ -172,7 +216,7 @@ export function calculatePositionSize(
  * @param pair - Trading pair
  * @returns Formatted string representation
  */
-export function formatTradeSetup(setup: TradeSetup, pair: Pair): string {
+export function formatTradeSetup(setup: TradeSetup, pair: Instrument): string {
   const arrow = setup.direction === 'BUY' ? '🟢' : '🔴';
   
   return [
@@ -181,7 +225,7 @@ export function formatTradeSetup(setup: TradeSetup, pair: Pair): string {
     `Stop Loss:  ${formatPrice(setup.stopLoss, pair)}`,
     `Take Profit: ${formatPrice(setup.takeProfit, pair)}`,
     `Risk: ${formatPips(setup.riskPips)} pips`,
-    `R:R: 1:1`,
+    `R:R: ${formatRiskReward(setup)}`,
     `Structure: ${setup.structurePoint.type} @ ${formatPrice(setup.structurePoint.price, pair)}`,
   ].join('\n');
 }
@@ -247,7 +291,7 @@ export function checkEntryTrigger(
 export function distanceToEntry(
   setup: TradeSetup,
   currentPrice: number,
-  pair: Pair
+  pair: Instrument
 ): number {
   const distance = setup.direction === 'BUY'
     ? currentPrice - setup.entryZone  // Price needs to come down
@@ -262,7 +306,7 @@ export function distanceToEntry(
  * @param setup - The trade setup
  * @param pair - Trading pair
  */
-export function createSetupSummary(setup: TradeSetup, pair: Pair): {
+export function createSetupSummary(setup: TradeSetup, pair: Instrument): {
   direction: 'BUY' | 'SELL';
   entry: string;
   sl: string;
@@ -276,7 +320,7 @@ export function createSetupSummary(setup: TradeSetup, pair: Pair): {
     sl: formatPrice(setup.stopLoss, pair),
     tp: formatPrice(setup.takeProfit, pair),
     riskPips: formatPips(setup.riskPips),
-    ratio: '1:1',
+    ratio: formatRiskReward(setup),
   };
 }
 
@@ -0,0 +1,143 @@
+// =============================================================================
+// WICKLESS STRATEGY — SWING DETECTOR TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, StructureEvent, SwingDetector, SwingPoint } from '../../types/types';
+import { createRandom } from '../backtest/random';
+import { IncrementalTrendAnalyzer } from './incremental';
+import { findSwingPoints } from './swingPoints';
+import {
+  createAtrZigzagDetector,
+  createFractalDetector,
+  createPercentZigzagDetector
+} from './swingDetectors';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+
+/**
+ * Seeded M15 random walk with a slow swing, so swings form at every scale
+ */
+function fixtureCandles(count: number, seed: number): Candle[] {
+  const random = createRandom(seed);
+  const candles: Candle[] = [];
+  let price = 1.1;
+
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    const close = open + Math.sin(i / 25) * 0.0005 + (random() - 0.5) * 0.0012;
+    candles.push({
+      time: new Date(Date.UTC(2024, 0, 1) + i * M15).toISOString(),
+      open,
+      high: Math.max(open, close) + random() * 0.0005,
+      low: Math.min(open, close) - random() * 0.0005,
+      close,
+      complete: true,
+    });
+    price = close;
+  }
+
+  return candles;
+}
+
+const candles = fixtureCandles(300, 7);
+
+const detectors: SwingDetector[] = [
+  createFractalDetector(3),
+  createAtrZigzagDetector(14, 1),
+  createPercentZigzagDetector(0.1),
+];
+
+const key = (s: SwingPoint) => `${s.type}@${s.index}`;
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+for (const detector of detectors) {
+  test(`${detector.name}: confirmed swings are known when pushed and never change`, () => {
+    const tracker = detector.createTracker();
+    const confirmed: SwingPoint[] = [];
+
+    candles.forEach((candle, i) => {
+      for (const swing of tracker.push(candle)) {
+        assert.equal(swing.status, 'CONFIRMED');
+        assert.equal(swing.knownAt, i);
+        assert.ok(swing.index < i, `${key(swing)} confirmed by its own candle`);
+        confirmed.push(swing);
+      }
+
+      // Batch detection on the candles so far agrees, including the
+      // knownAt of every swing, and provisional swings don't alter it
+      const prefix = candles.slice(0, i + 1);
+      assert.deepEqual(findSwingPoints(prefix, detector), confirmed.slice().sort((a, b) => a.index - b.index));
+      const withProvisional = findSwingPoints(prefix, detector, true);
+      assert.deepEqual(withProvisional.filter(s => s.status === 'CONFIRMED'), findSwingPoints(prefix, detector));
+    });
+
+    assert.ok(confirmed.length > 10, `only ${confirmed.length} swings`);
+  });
+
+  test(`${detector.name}: provisional swings come after the confirmed ones`, () => {
+    const tracker = detector.createTracker();
+    let lastConfirmed = -1;
+    let seen = 0;
+
+    candles.forEach((candle, i) => {
+      for (const swing of tracker.push(candle)) {
+        lastConfirmed = Math.max(lastConfirmed, swing.index);
+      }
+      for (const swing of tracker.getProvisional()) {
+        assert.equal(swing.status, 'PROVISIONAL');
+        assert.equal(swing.knownAt, i);
+        assert.ok(swing.index > lastConfirmed, `${key(swing)} at ${i} repaints up to ${lastConfirmed}`);
+        assert.ok(swing.index <= i);
+        seen++;
+      }
+    });
+
+    assert.ok(seen > 0);
+  });
+}
+
+test('a fractal swing is provisional the candle before it is confirmed', () => {
+  const lookback = 3;
+  const tracker = createFractalDetector(lookback).createTracker();
+  let provisional: SwingPoint[] = [];
+
+  candles.forEach((candle, i) => {
+    for (const swing of tracker.push(candle)) {
+      assert.equal(swing.knownAt - swing.index, lookback);
+      const before = provisional.find(p => key(p) === key(swing));
+      assert.ok(before, `${key(swing)} was not provisional at ${i - 1}`);
+      assert.equal(before.price, swing.price);
+      assert.equal(before.knownAt, i - 1);
+    }
+    provisional = tracker.getProvisional();
+  });
+});
+
+test('structure events are never rewritten by later candles', () => {
+  const analyzer = new IncrementalTrendAnalyzer(createFractalDetector(3));
+  const snapshots: StructureEvent[][] = [];
+
+  candles.forEach((candle, i) => {
+    analyzer.push(candle);
+    const { structureEvents } = analyzer.getAnalysis();
+    for (const event of structureEvents) {
+      assert.ok(event.knownAt <= i, `${event.type}@${event.index} known at ${event.knownAt}, read at ${i}`);
+    }
+    snapshots.push(structureEvents);
+  });
+
+  const final = analyzer.getAnalysis().structureEvents;
+  assert.ok(final.some(e => e.type === 'BOS' || e.type === 'CHOCH'));
+  snapshots.forEach((events, i) => {
+    assert.deepEqual(events, final.slice(0, events.length), `events at ${i} changed later`);
+  });
+});
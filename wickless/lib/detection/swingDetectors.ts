@@ -0,0 +1,300 @@
+// =============================================================================
+// WICKLESS STRATEGY — SWING DETECTORS
+// =============================================================================
+// Interchangeable ways of finding swing points (Rule 1 structure, Rule 5 SL):
+//
+// - FRACTAL: High above the highs of N candles on both sides (the original
+//   rule). Fixed N catches micro-swings on M15 and misses big legs on H4.
+// - ATR_ZIGZAG: A high becomes a swing once price falls a multiple of ATR
+//   below it (and vice versa), so swing size follows volatility
+// - PERCENT_ZIGZAG: Same with a fixed percentage of price
+//
+// Every detector is a tracker fed one candle at a time, so the batch
+// functions (findSwingPoints) and IncrementalTrendAnalyzer share one
+// implementation and agree by construction.
+//
+// Zigzag swings alternate HIGH/LOW. The extreme only moves on a strictly
+// higher high (lower low), so the first of equal highs is the swing.
+//
+// Confirmed swings carry the index of the candle that confirmed them
+// (knownAt) and never change. getProvisional() reports the candidates that
+// later candles may still confirm or cancel - the fractal's last `lookback`
+// candles, the zigzag's current leg extreme.
+// =============================================================================
+
+import {
+  Candle,
+  Instrument,
+  SwingDetector,
+  SwingDetectorConfig,
+  SwingDetectorInput,
+  SwingPoint,
+  SwingStatus,
+  SwingTracker,
+  Timeframe
+} from '../../types/types';
+import { STRATEGY_CONFIG, getSwingDetectorConfig } from '../config';
+import { AtrTracker } from './volatility';
+
+// -----------------------------------------------------------------------------
+// Fractal
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether window[k] is a swing high/low against `lookback` candles on its
+ * left and however many candles on its right the window has
+ */
+function checkFractal(
+  window: Candle[],
+  k: number,
+  lookback: number,
+  allowEqual: boolean
+): { high: boolean; low: boolean } {
+  const current = window[k];
+  let high = true;
+  let low = true;
+
+  for (let j = 1; j <= lookback; j++) {
+    const leftCandle = window[k - j];
+    const rightCandle = window[k + j];
+
+    if (leftCandle.high >= current.high ||
+        (rightCandle && (allowEqual ? rightCandle.high > current.high : rightCandle.high >= current.high))) {
+      high = false;
+    }
+    if (leftCandle.low <= current.low ||
+        (rightCandle && (allowEqual ? rightCandle.low < current.low : rightCandle.low <= current.low))) {
+      low = false;
+    }
+    if (!high && !low) break;
+  }
+
+  return { high, low };
+}
+
+function createFractalTracker(lookback: number, allowEqual: boolean): SwingTracker {
+  const window: Candle[] = [];
+  const size = lookback * 2 + 1;
+  let count = 0;
+
+  // HIGH before LOW at the same index
+  const toSwings = (k: number, status: SwingStatus): SwingPoint[] => {
+    const { high, low } = checkFractal(window, k, lookback, allowEqual);
+    const index = count - window.length + k;
+    const candle = window[k];
+    const swings: SwingPoint[] = [];
+    if (high) {
+      swings.push({ index, time: candle.time, price: candle.high, type: 'HIGH', status, knownAt: count - 1 });
+    }
+    if (low) {
+      swings.push({ index, time: candle.time, price: candle.low, type: 'LOW', status, knownAt: count - 1 });
+    }
+    return swings;
+  };
+
+  return {
+    push(candle: Candle): SwingPoint[] {
+      window.push(candle);
+      count++;
+      if (window.length > size) window.shift();
+      if (window.length < size) return [];
+
+      // The middle candle now has `lookback` candles on each side
+      return toSwings(lookback, 'CONFIRMED');
+    },
+
+    // Candles with a full left side and fewer than `lookback` candles to
+    // their right that pass the test so far
+    getProvisional(): SwingPoint[] {
+      const first = Math.max(lookback, window.length - lookback);
+      const provisional: SwingPoint[] = [];
+      for (let k = first; k < window.length; k++) {
+        provisional.push(...toSwings(k, 'PROVISIONAL'));
+      }
+      return provisional;
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Zigzag
+// -----------------------------------------------------------------------------
+
+interface Extreme {
+  index: number;
+  time: string;
+  price: number;
+}
+
+// Called once per candle, oldest first; returns the reversal size needed
+// from an extreme price as of that candle
+type ReversalSize = (candle: Candle) => (extreme: number) => number;
+
+function createZigzagTracker(reversalSize: ReversalSize): SwingTracker {
+  let index = -1;
+  let leg: 'UP' | 'DOWN' | null = null;
+  let high: Extreme | null = null;
+  let low: Extreme | null = null;
+
+  const toSwing = (extreme: Extreme, type: 'HIGH' | 'LOW', status: SwingStatus = 'CONFIRMED'): SwingPoint =>
+    ({ ...extreme, type, status, knownAt: index });
+
+  return {
+    push(candle: Candle): SwingPoint[] {
+      index++;
+      const sizeFrom = reversalSize(candle);
+      const candleHigh: Extreme = { index, time: candle.time, price: candle.high };
+      const candleLow: Extreme = { index, time: candle.time, price: candle.low };
+
+      // No pivot yet: the first qualifying move picks the leg
+      if (leg === null) {
+        if (!high || candle.high > high.price) high = candleHigh;
+        if (!low || candle.low < low.price) low = candleLow;
+
+        const range = high.price - low.price;
+        if (low.index < high.index && range >= sizeFrom(low.price)) {
+          leg = 'UP';
+          return [toSwing(low, 'LOW')];
+        }
+        if (high.index < low.index && range >= sizeFrom(high.price)) {
+          leg = 'DOWN';
+          return [toSwing(high, 'HIGH')];
+        }
+        return [];
+      }
+
+      if (leg === 'UP') {
+        if (candle.high > high!.price) {
+          high = candleHigh;
+          return [];
+        }
+        if (high!.price - candle.low >= sizeFrom(high!.price)) {
+          leg = 'DOWN';
+          low = candleLow;
+          return [toSwing(high!, 'HIGH')];
+        }
+        return [];
+      }
+
+      if (candle.low < low!.price) {
+        low = candleLow;
+        return [];
+      }
+      if (candle.high - low!.price >= sizeFrom(low!.price)) {
+        leg = 'UP';
+        high = candleHigh;
+        return [toSwing(low!, 'LOW')];
+      }
+      return [];
+    },
+
+    // The extreme of the current leg - the next pivot if price reverses
+    // from here
+    getProvisional(): SwingPoint[] {
+      if (leg === 'UP') return [toSwing(high!, 'HIGH', 'PROVISIONAL')];
+      if (leg === 'DOWN') return [toSwing(low!, 'LOW', 'PROVISIONAL')];
+      return [];
+    },
+  };
+}
+
+/**
+ * Reversal of `multiplier` × ATR. No pivots until ATR is warmed up.
+ */
+function atrReversal(period: number, multiplier: number): ReversalSize {
+  const atr = new AtrTracker(period);
+
+  return (candle: Candle) => {
+    const value = atr.push(candle);
+    const size = value === null ? Infinity : value * multiplier;
+    return () => size;
+  };
+}
+
+function percentReversal(percent: number): ReversalSize {
+  return () => (extreme: number) => extreme * percent / 100;
+}
+
+// -----------------------------------------------------------------------------
+// Detectors
+// -----------------------------------------------------------------------------
+
+/**
+ * N-bar fractal detector
+ *
+ * @param lookback - Candles on each side (default: SWING_LOOKBACK)
+ * @param allowEqual - Equal highs/lows to the right keep the swing
+ */
+export function createFractalDetector(
+  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK,
+  allowEqual: boolean = false
+): SwingDetector {
+  return {
+    name: `fractal(${lookback}${allowEqual ? ', equal' : ''})`,
+    createTracker: () => createFractalTracker(lookback, allowEqual),
+  };
+}
+
+/**
+ * Zigzag detector with an ATR-based reversal
+ *
+ * @param period - ATR period (default: ZIGZAG_ATR_PERIOD)
+ * @param multiplier - Reversal size in ATRs (default: ZIGZAG_ATR_MULTIPLIER)
+ */
+export function createAtrZigzagDetector(
+  period: number = STRATEGY_CONFIG.ZIGZAG_ATR_PERIOD,
+  multiplier: number = STRATEGY_CONFIG.ZIGZAG_ATR_MULTIPLIER
+): SwingDetector {
+  return {
+    name: `atr-zigzag(${period}, ${multiplier})`,
+    createTracker: () => createZigzagTracker(atrReversal(period, multiplier)),
+  };
+}
+
+/**
+ * Zigzag detector with a percentage reversal
+ *
+ * @param percent - Reversal size in percent of price (default: ZIGZAG_PERCENT)
+ */
+export function createPercentZigzagDetector(
+  percent: number = STRATEGY_CONFIG.ZIGZAG_PERCENT
+): SwingDetector {
+  return {
+    name: `percent-zigzag(${percent})`,
+    createTracker: () => createZigzagTracker(percentReversal(percent)),
+  };
+}
+
+/**
+ * Builds a detector from its config
+ *
+ * @param config - Detector settings
+ * @param lookback - Fractal lookback, overriding config.lookback (used by
+ *   the optimizer's swingLookback)
+ */
+export function createSwingDetector(config: SwingDetectorConfig, lookback?: number): SwingDetector {
+  switch (config.type) {
+    case 'FRACTAL':
+      return createFractalDetector(lookback ?? config.lookback, config.allowEqual);
+    case 'ATR_ZIGZAG':
+      return createAtrZigzagDetector(config.atrPeriod, config.atrMultiplier);
+    case 'PERCENT_ZIGZAG':
+      return createPercentZigzagDetector(config.percent);
+    default:
+      throw new Error(`Unknown swing detector: ${(config as SwingDetectorConfig).type}`);
+  }
+}
+
+/**
+ * Configured detector for a pair and timeframe (SWING_DETECTOR_RULES)
+ */
+export function getSwingDetector(pair: Instrument, timeframe: Timeframe): SwingDetector {
+  return createSwingDetector(getSwingDetectorConfig(pair, timeframe));
+}
+
+/**
+ * Turns a fractal lookback into a detector; detectors pass through
+ */
+export function resolveSwingDetector(detector: SwingDetectorInput): SwingDetector {
+  return typeof detector === 'number' ? createFractalDetector(detector) : detector;
+}
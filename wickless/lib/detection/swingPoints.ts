@@ -8,77 +8,39 @@
 // Swing High: A candle where High > High of N candles before AND after
 // Swing Low: A candle where Low < Low of N candles before AND after
 //
-// Default lookback N = 3 (configurable)
+// Default lookback N = 3 (configurable). Every function also takes a
+// SwingDetector instead (zigzag etc. - see swingDetectors.ts).
+//
+// Only confirmed swings are returned unless provisional ones are asked for;
+// the swings at the end of a series don't have their right-hand candles yet.
 // =============================================================================
 
-import { Candle, SwingPoint } from '../../types/types';
+import { Candle, SwingDetectorInput, SwingPoint } from '../../types/types';
 import { STRATEGY_CONFIG } from '../config';
+import { resolveSwingDetector } from './swingDetectors';
 
 /**
  * Identifies all swing points (highs and lows) in a candle array.
  * 
- * A swing high occurs when a candle's high is greater than
- * the highs of N candles on both sides.
- * 
- * A swing low occurs when a candle's low is less than
- * the lows of N candles on both sides.
+ * With a number, uses the N-bar fractal: a swing high's high is greater
+ * than the highs of N candles on both sides, a swing low's low is less
+ * than the lows of N candles on both sides.
  * 
  * @param candles - Array of candles (oldest first)
- * @param lookback - Number of candles to check on each side (default: 3)
+ * @param detector - Swing detector or fractal lookback (default: 3)
+ * @param includeProvisional - Also return the unconfirmed candidates at the
+ *   end of the series (status 'PROVISIONAL')
  * @returns Array of swing points sorted by index
  */
 export function findSwingPoints(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
+  includeProvisional: boolean = false
 ): SwingPoint[] {
-  const swings: SwingPoint[] = [];
-  
-  // Need at least lookback candles on each side
-  if (candles.length < lookback * 2 + 1) {
-    return swings;
-  }
-
-  for (let i = lookback; i < candles.length - lookback; i++) {
-    const current = candles[i];
-    let isSwingHigh = true;
-    let isSwingLow = true;
-
-    // Check candles on both sides
-    for (let j = 1; j <= lookback; j++) {
-      const leftCandle = candles[i - j];
-      const rightCandle = candles[i + j];
-
-      // Swing High: current high must be strictly greater than neighbors
-      if (leftCandle.high >= current.high || rightCandle.high >= current.high) {
-        isSwingHigh = false;
-      }
-
-      // Swing Low: current low must be strictly less than neighbors
-      if (leftCandle.low <= current.low || rightCandle.low <= current.low) {
-        isSwingLow = false;
-      }
-
-      // Early exit if neither condition can be met
-      if (!isSwingHigh && !isSwingLow) break;
-    }
-
-    if (isSwingHigh) {
-      swings.push({
-        index: i,
-        time: current.time,
-        price: current.high,
-        type: 'HIGH',
-      });
-    }
-
-    if (isSwingLow) {
-      swings.push({
-        index: i,
-        time: current.time,
-        price: current.low,
-        type: 'LOW',
-      });
-    }
+  const tracker = resolveSwingDetector(detector).createTracker();
+  const swings = candles.flatMap(candle => tracker.push(candle));
+  if (includeProvisional) {
+    swings.push(...tracker.getProvisional());
   }
 
   // Sort by index (chronological order)
@@ -89,42 +51,42 @@ export function findSwingPoints(
  * Finds swing highs only.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @returns Array of swing high points
  */
 export function findSwingHighs(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): SwingPoint[] {
-  return findSwingPoints(candles, lookback).filter(s => s.type === 'HIGH');
+  return findSwingPoints(candles, detector).filter(s => s.type === 'HIGH');
 }
 
 /**
  * Finds swing lows only.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @returns Array of swing low points
  */
 export function findSwingLows(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): SwingPoint[] {
-  return findSwingPoints(candles, lookback).filter(s => s.type === 'LOW');
+  return findSwingPoints(candles, detector).filter(s => s.type === 'LOW');
 }
 
 /**
  * Gets the most recent swing high.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @returns Most recent swing high or null
  */
 export function getMostRecentSwingHigh(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): SwingPoint | null {
-  const highs = findSwingHighs(candles, lookback);
+  const highs = findSwingHighs(candles, detector);
   return highs.length > 0 ? highs[highs.length - 1] : null;
 }
 
@@ -132,14 +94,14 @@ export function getMostRecentSwingHigh(
  * Gets the most recent swing low.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @returns Most recent swing low or null
  */
 export function getMostRecentSwingLow(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): SwingPoint | null {
-  const lows = findSwingLows(candles, lookback);
+  const lows = findSwingLows(candles, detector);
   return lows.length > 0 ? lows[lows.length - 1] : null;
 }
 
@@ -149,16 +111,16 @@ export function getMostRecentSwingLow(
  * @param candles - Array of candles
  * @param type - 'HIGH' or 'LOW'
  * @param count - Number of swing points to return
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @returns Array of the most recent N swing points
  */
 export function getLastNSwings(
   candles: Candle[],
   type: 'HIGH' | 'LOW',
   count: number,
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): SwingPoint[] {
-  const swings = findSwingPoints(candles, lookback).filter(s => s.type === type);
+  const swings = findSwingPoints(candles, detector).filter(s => s.type === type);
   return swings.slice(-count);
 }
 
@@ -223,11 +185,11 @@ export function isLowerLow(current: SwingPoint, previous: SwingPoint): boolean {
  * Returns the last two highs and lows with their relationship status.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  */
 export function getSwingRelationships(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): {
   highs: SwingPoint[];
   lows: SwingPoint[];
@@ -236,7 +198,7 @@ export function getSwingRelationships(
   hasLowerHigh: boolean | null;
   hasLowerLow: boolean | null;
 } {
-  const swings = findSwingPoints(candles, lookback);
+  const swings = findSwingPoints(candles, detector);
   const highs = swings.filter(s => s.type === 'HIGH').slice(-2);
   const lows = swings.filter(s => s.type === 'LOW').slice(-2);
 
@@ -272,35 +234,36 @@ export function getSwingRelationships(
  * 
  * @param candles - Array of candles
  * @param direction - Trade direction
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
+ * @param includeProvisional - Use a provisional swing when it is more
+ *   recent than the last confirmed one (default: PROVISIONAL_SL)
  * @returns The swing point for SL or null if not found
  */
 export function getStructureForSL(
   candles: Candle[],
   direction: 'BUY' | 'SELL',
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
+  includeProvisional: boolean = STRATEGY_CONFIG.PROVISIONAL_SL
 ): SwingPoint | null {
-  if (direction === 'BUY') {
-    return getMostRecentSwingLow(candles, lookback);
-  } else {
-    return getMostRecentSwingHigh(candles, lookback);
-  }
+  const type = direction === 'BUY' ? 'LOW' : 'HIGH';
+  const swings = findSwingPoints(candles, detector, includeProvisional).filter(s => s.type === type);
+  return swings.length > 0 ? swings[swings.length - 1] : null;
 }
 
 /**
  * Validates that enough swing points exist for reliable analysis.
  * 
  * @param candles - Array of candles
- * @param lookback - Number of candles to check on each side
+ * @param detector - Swing detector or fractal lookback
  * @param minRequired - Minimum swing points needed (default from config)
  * @returns Whether sufficient swing points exist
  */
 export function hasEnoughSwingPoints(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK,
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK,
   minRequired: number = STRATEGY_CONFIG.MIN_SWING_POINTS
 ): boolean {
-  const swings = findSwingPoints(candles, lookback);
+  const swings = findSwingPoints(candles, detector);
   return swings.length >= minRequired;
 }
 
@@ -312,6 +275,7 @@ export function hasEnoughSwingPoints(
  */
 export function formatSwingPoints(swings: SwingPoint[]): string {
   return swings
-    .map(s => `${s.type === 'HIGH' ? '▲' : '▼'} ${s.price.toFixed(5)} @ index ${s.index}`)
+    .map(s => `${s.type === 'HIGH' ? '▲' : '▼'} ${s.price.toFixed(5)} @ index ${s.index}` +
+      (s.status === 'PROVISIONAL' ? ' (provisional)' : ` (known @ ${s.knownAt})`))
     .join('\n');
 }
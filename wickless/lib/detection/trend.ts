@@ -18,33 +18,46 @@
 //   \        HH           \        LH
 //    \      /              \      /
 //     HL --                 LL --
+//
+// analyzeTrend also runs the market structure state machine
+// (marketStructure.ts); TREND_METHOD picks which trend the scanner trades.
+// Both only use confirmed swings, so neither repaints when the last
+// candles' right-hand bars print.
 // =============================================================================
 
-import { Candle, SwingPoint, Trend, TrendAnalysis } from '../../types/types';
+import {
+  Candle,
+  SwingDetectorInput,
+  SwingPoint,
+  Trend,
+  TrendAnalysis,
+  TrendMethod
+} from '../../types/types';
 import { STRATEGY_CONFIG } from '../config';
 import { 
   findSwingPoints, 
   getSwingRelationships,
   hasEnoughSwingPoints 
 } from './swingPoints';
+import { analyzeMarketStructure } from './marketStructure';
 
 /**
  * Classifies the current market trend based on swing point structure.
  * 
  * @param candles - Array of candles (oldest first)
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Trend classification: 'UP', 'DOWN', or 'RANGING'
  */
 export function classifyTrend(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): Trend {
   // Need minimum swing points for reliable classification
-  if (!hasEnoughSwingPoints(candles, lookback)) {
+  if (!hasEnoughSwingPoints(candles, detector)) {
     return 'RANGING';
   }
 
-  const relationships = getSwingRelationships(candles, lookback);
+  const relationships = getSwingRelationships(candles, detector);
   const { hasHigherHigh, hasHigherLow, hasLowerHigh, hasLowerLow } = relationships;
 
   // Uptrend: Both higher high AND higher low
@@ -66,14 +79,16 @@ export function classifyTrend(
  * Useful for UI display and debugging.
  * 
  * @param candles - Array of candles (oldest first)
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Complete trend analysis with swing points
  */
 export function analyzeTrend(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): TrendAnalysis {
-  const swings = findSwingPoints(candles, lookback);
+  // Provisional swings are reported but never classified
+  const allSwings = findSwingPoints(candles, detector, true);
+  const swings = allSwings.filter(s => s.status === 'CONFIRMED');
   const highs = swings.filter(s => s.type === 'HIGH');
   const lows = swings.filter(s => s.type === 'LOW');
 
@@ -82,7 +97,8 @@ export function analyzeTrend(
   const recentLows = lows.slice(-2);
 
   // Determine trend classification
-  const trend = classifyTrend(candles, lookback);
+  const trend = classifyTrend(candles, detector);
+  const structure = analyzeMarketStructure(candles, detector);
 
   // Identify specific swing points based on trend
   let latestHH: SwingPoint | null = null;
@@ -116,21 +132,37 @@ export function analyzeTrend(
     latestHL,
     latestLH,
     latestLL,
+    structureTrend: structure.trend,
+    structureEvents: structure.events,
+    provisionalSwings: allSwings.filter(s => s.status === 'PROVISIONAL'),
   };
 }
 
+/**
+ * Trend the strategy trades - swing comparison or market structure
+ *
+ * @param analysis - Trend analysis (or just its two trends)
+ * @param method - Which one (default: TREND_METHOD)
+ */
+export function selectTrend(
+  analysis: Pick<TrendAnalysis, 'trend' | 'structureTrend'>,
+  method: TrendMethod = STRATEGY_CONFIG.TREND_METHOD
+): Trend {
+  return method === 'STRUCTURE' ? analysis.structureTrend : analysis.trend;
+}
+
 /**
  * Validates if the trend is tradeable (not ranging).
  * 
  * @param candles - Array of candles
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Whether the market has a clear trend
  */
 export function isTrendTradeable(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): boolean {
-  const trend = classifyTrend(candles, lookback);
+  const trend = classifyTrend(candles, detector);
   return trend !== 'RANGING';
 }
 
@@ -138,14 +170,14 @@ export function isTrendTradeable(
  * Gets a human-readable description of the current trend.
  * 
  * @param candles - Array of candles
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Description string
  */
 export function getTrendDescription(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): string {
-  const analysis = analyzeTrend(candles, lookback);
+  const analysis = analyzeTrend(candles, detector);
   
   switch (analysis.trend) {
     case 'UP':
@@ -164,14 +196,14 @@ export function getTrendDescription(
  * Higher values indicate stronger trends.
  * 
  * @param candles - Array of candles
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Strength value (0-100) or null if ranging
  */
 export function calculateTrendStrength(
   candles: Candle[],
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): number | null {
-  const analysis = analyzeTrend(candles, lookback);
+  const analysis = analyzeTrend(candles, detector);
   
   if (analysis.trend === 'RANGING') {
     return null;
@@ -268,19 +300,19 @@ export function formatTrendAnalysis(analysis: TrendAnalysis): string {
  * 
  * @param candles - Array of candles
  * @param currentTrend - The established trend
- * @param lookback - Swing detection lookback period
+ * @param detector - Swing detector or fractal lookback
  * @returns Warning object if trend change detected
  */
 export function detectTrendChangeWarning(
   candles: Candle[],
   currentTrend: Trend,
-  lookback: number = STRATEGY_CONFIG.SWING_LOOKBACK
+  detector: SwingDetectorInput = STRATEGY_CONFIG.SWING_LOOKBACK
 ): { warning: boolean; message: string } | null {
   if (currentTrend === 'RANGING') {
     return null;
   }
 
-  const relationships = getSwingRelationships(candles, lookback);
+  const relationships = getSwingRelationships(candles, detector);
 
   if (currentTrend === 'UP') {
     // In uptrend, watch for potential lower high
@@ -0,0 +1,59 @@
+// =============================================================================
+// WICKLESS STRATEGY — VOLATILITY (ATR)
+// =============================================================================
+// Average True Range for volatility-relative thresholds (ATR zigzag swings,
+// ATR wick tolerance). Simple average over the first `period` true ranges,
+// Wilder smoothing after; no value until `period` candles have been seen.
+// =============================================================================
+
+import { Candle } from '../../types/types';
+
+export class AtrTracker {
+  private previousClose: number | null = null;
+  private atr = 0;
+  private samples = 0;
+
+  constructor(private readonly period: number) {}
+
+  /**
+   * Adds the next candle (oldest first)
+   *
+   * @returns ATR including this candle, or null while warming up
+   */
+  push(candle: Candle): number | null {
+    const trueRange = this.previousClose === null
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - this.previousClose),
+          Math.abs(candle.low - this.previousClose)
+        );
+    this.previousClose = candle.close;
+    this.samples++;
+    this.atr += (trueRange - this.atr) / Math.min(this.samples, this.period);
+
+    return this.value;
+  }
+
+  /**
+   * Current ATR, or null while warming up
+   */
+  get value(): number | null {
+    return this.samples >= this.period ? this.atr : null;
+  }
+}
+
+/**
+ * ATR at the end of a series
+ *
+ * @param candles - Candles oldest first
+ * @param period - ATR period
+ * @returns ATR, or null with fewer than `period` candles
+ */
+export function calculateATR(candles: Candle[], period: number): number | null {
+  const tracker = new AtrTracker(period);
+  for (const candle of candles) {
+    tracker.push(candle);
+  }
+  return tracker.value;
+}
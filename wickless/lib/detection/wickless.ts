@@ -12,10 +12,61 @@
 //   - Candle is bearish: C < O
 //   - No top wick: H <= O + ε
 //   - Meaning: Price opened and never spiked above - sellers dominated
+//
+// ε and the doji (minimum body) threshold are set separately per pair and
+// timeframe (WICKLESS_RULES): a fixed price, a fraction of the candle's
+// range, or a multiple of ATR, so detection holds across volatility regimes.
 // =============================================================================
 
-import { Candle, Pair, Trend, WicklessResult } from '../../types/types';
-import { getTolerance } from '../config';
+import {
+  Candle,
+  Instrument,
+  ToleranceSize,
+  Trend,
+  WicklessConfig,
+  WicklessResult
+} from '../../types/types';
+import { DEFAULT_WICKLESS_CONFIG, getTolerance } from '../config';
+
+export interface WicklessThresholds {
+  // ε - largest entry-side wick (price)
+  wick: number;
+  // Smallest body (price)
+  minBody: number;
+}
+
+/**
+ * Resolves the wick and body thresholds for a candle
+ * 
+ * @param candle - Signal candle (RANGE sizes scale with its range)
+ * @param tolerance - Fixed ε for FIXED sizes without a value
+ * @param config - Threshold settings (default: fixed ε for both)
+ * @param atr - ATR before the candle, for ATR sizes
+ * @returns Thresholds in price, or null when an ATR size has no ATR
+ */
+export function getWicklessThresholds(
+  candle: Candle,
+  tolerance: number,
+  config: WicklessConfig = DEFAULT_WICKLESS_CONFIG,
+  atr: number | null = null
+): WicklessThresholds | null {
+  const range = candle.high - candle.low;
+
+  const toPrice = (size: ToleranceSize): number | null => {
+    switch (size.mode) {
+      case 'RANGE':
+        return (size.value ?? 0) * range;
+      case 'ATR':
+        return atr === null ? null : (size.value ?? 0) * atr;
+      default:
+        return size.value ?? tolerance;
+    }
+  };
+
+  const wick = toPrice(config.wickTolerance);
+  const minBody = toPrice(config.minBody);
+  return wick === null || minBody === null ? null : { wick, minBody };
+}
 
 /**
  * Detects if a candle qualifies as a "no-wick" signal candle
@@ -24,15 +75,23 @@ import { getTolerance } from '../config';
  * @param candle - The candle to analyze
  * @param pair - Trading pair (for tolerance lookup)
  * @param trend - Current market trend
+ * @param tolerance - Fixed no-wick tolerance ε (default: pair config)
+ * @param config - Wick and minimum-body thresholds (default: ε for both)
+ * @param atr - ATR before the candle (needed for ATR thresholds)
  * @returns WicklessResult with detection details
  */
 export function detectWickless(
   candle: Candle,
-  pair: Pair,
-  trend: Trend
+  pair: Instrument,
+  trend: Trend,
+  tolerance: number = getTolerance(pair),
+  config: WicklessConfig = DEFAULT_WICKLESS_CONFIG,
+  atr: number | null = null
 ): WicklessResult {
-  // No signals in ranging market (Rule 1)
-  if (trend === 'RANGING') {
+  const thresholds = getWicklessThresholds(candle, tolerance, config, atr);
+
+  // No signals in ranging market (Rule 1), or without ATR to scale with
+  if (trend === 'RANGING' || !thresholds) {
     return {
       isValid: false,
       direction: null,
@@ -41,16 +100,12 @@ export function detectWickless(
     };
   }
 
-  const tolerance = getTolerance(pair);
   const { open, high, low, close } = candle;
 
-  // Calculate wick sizes for reference
-  const upperWick = high - Math.max(open, close);
-  const lowerWick = Math.min(open, close) - low;
   const bodySize = Math.abs(close - open);
 
   // Skip doji candles (very small body) - not valid signals
-  if (bodySize < tolerance) {
+  if (bodySize < thresholds.minBody) {
     return {
       isValid: false,
       direction: null,
@@ -63,7 +118,7 @@ export function detectWickless(
   // Condition: C > O (bullish) AND L >= O - ε (no bottom wick)
   if (trend === 'UP') {
     const isBullish = close > open;
-    const hasNoBottomWick = low >= open - tolerance;
+    const hasNoBottomWick = low >= open - thresholds.wick;
 
     if (isBullish && hasNoBottomWick) {
       return {
@@ -79,7 +134,7 @@ export function detectWickless(
   // Condition: C < O (bearish) AND H <= O + ε (no top wick)
   if (trend === 'DOWN') {
     const isBearish = close < open;
-    const hasNoTopWick = high <= open + tolerance;
+    const hasNoTopWick = high <= open + thresholds.wick;
 
     if (isBearish && hasNoTopWick) {
       return {
@@ -112,7 +167,7 @@ export function detectWickless(
  */
 export function scanForWicklessCandles(
   candles: Candle[],
-  pair: Pair,
+  pair: Instrument,
   trend: Trend,
   maxCandles: number = 10
 ): Array<{ index: number; result: WicklessResult }> {
@@ -147,7 +202,7 @@ export function scanForWicklessCandles(
  */
 export function getMostRecentWickless(
   candles: Candle[],
-  pair: Pair,
+  pair: Instrument,
   trend: Trend
 ): { index: number; result: WicklessResult } | null {
   // Check the last complete candle first
@@ -174,11 +229,15 @@ export function getMostRecentWickless(
  * 
  * @param candle - The candle to analyze
  * @param pair - Trading pair
- * @returns Detailed wick measurements
+ * @param config - Wick and minimum-body thresholds
+ * @param atr - ATR before the candle (needed for ATR thresholds)
+ * @returns Detailed wick measurements (thresholds null without ATR)
  */
 export function analyzeWicks(
   candle: Candle,
-  pair: Pair
+  pair: Instrument,
+  config: WicklessConfig = DEFAULT_WICKLESS_CONFIG,
+  atr: number | null = null
 ): {
   upperWick: number;
   lowerWick: number;
@@ -187,11 +246,12 @@ export function analyzeWicks(
   upperWickPercent: number;
   lowerWickPercent: number;
   isBullish: boolean;
-  tolerance: number;
+  tolerance: number | null;
+  minBody: number | null;
   meetsNoTopWickCriteria: boolean;
   meetsNoBottomWickCriteria: boolean;
 } {
-  const tolerance = getTolerance(pair);
+  const thresholds = getWicklessThresholds(candle, getTolerance(pair), config, atr);
   const { open, high, low, close } = candle;
   
   const upperWick = high - Math.max(open, close);
@@ -207,9 +267,10 @@ export function analyzeWicks(
     upperWickPercent: range > 0 ? (upperWick / range) * 100 : 0,
     lowerWickPercent: range > 0 ? (lowerWick / range) * 100 : 0,
     isBullish: close > open,
-    tolerance,
-    meetsNoTopWickCriteria: high <= open + tolerance,
-    meetsNoBottomWickCriteria: low >= open - tolerance,
+    tolerance: thresholds?.wick ?? null,
+    minBody: thresholds?.minBody ?? null,
+    meetsNoTopWickCriteria: thresholds !== null && high <= open + thresholds.wick,
+    meetsNoBottomWickCriteria: thresholds !== null && low >= open - thresholds.wick,
   };
 }
 
@@ -220,11 +281,15 @@ export function analyzeWicks(
  * @param candle - The candle to validate
  * @param pair - Trading pair
  * @param trend - Current market trend
+ * @param config - Wick and minimum-body thresholds
+ * @param atr - ATR before the candle (needed for ATR thresholds)
  */
 export function validateWicklessCandle(
   candle: Candle,
-  pair: Pair,
-  trend: Trend
+  pair: Instrument,
+  trend: Trend,
+  config: WicklessConfig = DEFAULT_WICKLESS_CONFIG,
+  atr: number | null = null
 ): {
   isValid: boolean;
   checks: {
@@ -236,7 +301,8 @@ export function validateWicklessCandle(
   };
   reason: string;
 } {
-  const tolerance = getTolerance(pair);
+  const thresholds = getWicklessThresholds(candle, getTolerance(pair), config, atr);
+  const wick = thresholds?.wick ?? -Infinity;
   const { open, high, low, close } = candle;
   const bodySize = Math.abs(close - open);
   const isBullish = close > open;
@@ -247,10 +313,10 @@ export function validateWicklessCandle(
       (trend === 'UP' && isBullish) || 
       (trend === 'DOWN' && !isBullish),
     wickRequirementMet: 
-      (trend === 'UP' && isBullish && low >= open - tolerance) ||
-      (trend === 'DOWN' && !isBullish && high <= open + tolerance),
+      (trend === 'UP' && isBullish && low >= open - wick) ||
+      (trend === 'DOWN' && !isBullish && high <= open + wick),
     isComplete: candle.complete,
-    notDoji: bodySize >= tolerance,
+    notDoji: thresholds !== null && bodySize >= thresholds.minBody,
   };
 
   const isValid = Object.values(checks).every(Boolean);
@@ -258,6 +324,7 @@ export function validateWicklessCandle(
   let reason = '';
   if (!checks.trendAligned) reason = 'Market is ranging - no trades';
   else if (!checks.isComplete) reason = 'Candle is not complete';
+  else if (!thresholds) reason = 'Not enough candles for ATR thresholds';
   else if (!checks.notDoji) reason = 'Candle body too small (doji)';
   else if (!checks.correctDirection) reason = `Need ${trend === 'UP' ? 'bullish' : 'bearish'} candle for ${trend.toLowerCase()}trend`;
   else if (!checks.wickRequirementMet) reason = `Has ${trend === 'UP' ? 'bottom' : 'top'} wick - not valid`;
@@ -0,0 +1,261 @@
+// =============================================================================
+// WICKLESS STRATEGY — OANDA REQUEST LAYER
+// =============================================================================
+// Every OANDA (and proxy) REST call goes through oandaRequest, which adds:
+// - A per-account request budget (token bucket) shared by all callers
+// - A timeout per attempt
+// - Retries with exponential backoff and full jitter for rate limits,
+//   network failures, timeouts and 5xx responses
+// - Retry-After on 429s
+// - Typed errors (OandaApiError.kind) so callers can tell "OANDA said no"
+//   from "no trend"
+// =============================================================================
+
+import { OandaErrorKind } from '../types/types';
+import { OANDA_CONFIG } from './config';
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+export class OandaApiError extends Error {
+  readonly kind: OandaErrorKind;
+  // HTTP status, null for network failures and timeouts
+  readonly status: number | null;
+  // Delay the server asked for (429 Retry-After)
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    kind: OandaErrorKind,
+    message: string,
+    status: number | null = null,
+    retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'OandaApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * Whether trying again could succeed
+   */
+  get retryable(): boolean {
+    return this.kind === 'RATE_LIMIT' ||
+      this.kind === 'NETWORK' ||
+      this.kind === 'TIMEOUT' ||
+      this.kind === 'SERVER';
+  }
+}
+
+/**
+ * Checks whether an error is worth retrying
+ * Untyped errors are assumed transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof OandaApiError ? error.retryable : true;
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date)
+ *
+ * @returns Delay in ms, or null if missing/invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Maps a failed response to a typed error
+ *
+ * @param response - Non-2xx response
+ * @param label - Prefix for the message (e.g., 'OANDA API')
+ */
+async function toApiError(response: Response, label: string): Promise<OandaApiError> {
+  let detail = '';
+  try {
+    const body = await response.json();
+    detail = body?.errorMessage ?? '';
+  } catch {
+    // Body isn't JSON - the status says enough
+  }
+
+  const message = [`${label} error: ${response.status}`, response.statusText, detail && `- ${detail}`]
+    .filter(Boolean)
+    .join(' ');
+  const status = response.status;
+
+  if (status === 401 || status === 403) {
+    return new OandaApiError('AUTH', message, status);
+  }
+  if (status === 429) {
+    return new OandaApiError('RATE_LIMIT', message, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  // OANDA answers unknown instruments with 400 "Invalid value specified for 'instrument'"
+  if ((status === 400 || status === 404) && /instrument/i.test(detail)) {
+    return new OandaApiError('INSTRUMENT', message, status);
+  }
+  if (status >= 500) {
+    return new OandaApiError('SERVER', message, status);
+  }
+  return new OandaApiError('REQUEST', message, status);
+}
+
+// -----------------------------------------------------------------------------
+// Request Budget
+// -----------------------------------------------------------------------------
+
+/**
+ * Token bucket limiting requests per second
+ * Callers queue in order when the bucket is empty.
+ */
+export class RequestBudget {
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param ratePerSecond - Sustained requests per second (also the burst size)
+   * @param now - Time source
+   * @param sleep - Delay function
+   */
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {
+    this.tokens = ratePerSecond;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Waits until a request may be sent
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await this.sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.ratePerSecond, this.tokens + elapsed * this.ratePerSecond);
+    this.updatedAt = now;
+  }
+}
+
+const budgets = new Map<string, RequestBudget>();
+
+/**
+ * Gets the shared budget for an account (or proxy URL)
+ */
+export function getRequestBudget(
+  key: string,
+  ratePerSecond: number = OANDA_CONFIG.REQUESTS_PER_SECOND
+): RequestBudget {
+  let budget = budgets.get(key);
+  if (!budget) {
+    budget = new RequestBudget(ratePerSecond);
+    budgets.set(key, budget);
+  }
+  return budget;
+}
+
+// -----------------------------------------------------------------------------
+// Requests
+// -----------------------------------------------------------------------------
+
+export interface OandaRequestOptions {
+  headers?: Record<string, string>;
+  // Used in error messages (default: 'OANDA API')
+  label?: string;
+  // Budget to draw from (default: OANDA account ID)
+  budget?: RequestBudget;
+  timeoutMs?: number;
+  // Total attempts including the first
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * GETs a JSON resource with budget, timeout, retries and typed errors
+ *
+ * @param url - Request URL
+ * @param options - Headers, limits and injectable fetch/sleep/random
+ * @returns Parsed JSON body
+ * @throws OandaApiError once retries are exhausted or the error is permanent
+ */
+export async function oandaRequest<T>(url: string, options: OandaRequestOptions = {}): Promise<T> {
+  const {
+    headers,
+    label = 'OANDA API',
+    budget = getRequestBudget(OANDA_CONFIG.ACCOUNT_ID || 'default'),
+    timeoutMs = OANDA_CONFIG.TIMEOUT_MS,
+    attempts = OANDA_CONFIG.MAX_ATTEMPTS,
+    baseDelayMs = OANDA_CONFIG.RETRY_BASE_DELAY_MS,
+    maxDelayMs = OANDA_CONFIG.RETRY_MAX_DELAY_MS,
+    fetch: fetchFn = fetch,
+    sleep = defaultSleep,
+    random = Math.random,
+  } = options;
+
+  let lastError: OandaApiError | null = null;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0 && lastError) {
+      // Full jitter, but never sooner than the server asked
+      const backoff = random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.max(backoff, lastError.retryAfterMs ?? 0));
+    }
+
+    await budget.acquire();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchFn(url, { headers, signal: controller.signal });
+
+      if (!response.ok) {
+        lastError = await toApiError(response, label);
+      } else {
+        return await response.json() as T;
+      }
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new OandaApiError('TIMEOUT', `${label} timed out after ${timeoutMs}ms`)
+        : new OandaApiError('NETWORK', `${label} request failed: ${error}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!lastError.retryable) break;
+  }
+
+  throw lastError ?? new OandaApiError('REQUEST', `${label} request not attempted`);
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// WICKLESS STRATEGY — MARKET CALENDAR TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MarketCalendar } from './calendar';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const calendar = new MarketCalendar({
+  hours: { XAU_USD: { dailyBreak: { startHour: 17, endHour: 18 } } },
+  holidays: [
+    { date: '12-25', name: 'Christmas Day' },
+    { date: '2025-04-18', name: 'Good Friday', pairs: ['XAU_USD'] },
+  ],
+});
+
+const at = (time: string) => new Date(time);
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('a holiday closes the trading day that ends on it', () => {
+  // Christmas 2024 is a Wednesday: closed 17:00 New York on the 24th
+  // (22:00 UTC) until 17:00 on the 25th
+  assert.equal(calendar.isOpen('EUR_USD', at('2024-12-24T21:59:00.000Z')), true);
+  assert.equal(calendar.isOpen('EUR_USD', at('2024-12-24T22:00:00.000Z')), false);
+  assert.equal(calendar.isOpen('EUR_USD', at('2024-12-25T22:00:00.000Z')), true);
+
+  assert.deepEqual(calendar.getClosure('EUR_USD', at('2024-12-25T12:00:00.000Z')), {
+    reason: 'HOLIDAY',
+    until: '2024-12-25T22:00:00.000Z',
+    name: 'Christmas Day',
+  });
+});
+
+test('a holiday on a Sunday leaves the Sunday open alone', () => {
+  // Christmas 2022: the weekend break covers it, and the session opening
+  // that evening closes on the 26th
+  assert.equal(calendar.getClosure('EUR_USD', at('2022-12-25T12:00:00.000Z'))?.reason, 'WEEKEND');
+  assert.equal(calendar.isOpen('EUR_USD', at('2022-12-25T22:30:00.000Z')), true);
+});
+
+test('hasRecentCandle covers the last candle before a holiday only', () => {
+  // The 21:45 M15 candle closes at 22:00 as the holiday starts
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'M15', at('2024-12-24T22:10:00.000Z')), true);
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'M15', at('2024-12-24T22:16:00.000Z')), false);
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'H1', at('2024-12-24T22:59:00.000Z')), true);
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'H1', at('2024-12-24T23:01:00.000Z')), false);
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'M15', at('2024-12-25T12:00:00.000Z')), false);
+
+  // Trading again after 17:00 New York on the 25th
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'M15', at('2024-12-25T22:05:00.000Z')), true);
+});
+
+test('a holiday limited to some pairs leaves the others open', () => {
+  const goodFriday = at('2025-04-18T12:00:00.000Z');
+
+  assert.equal(calendar.isOpen('EUR_USD', goodFriday), true);
+  assert.equal(calendar.isOpen('XAU_USD', goodFriday), false);
+  assert.equal(calendar.hasRecentCandle('EUR_USD', 'M15', goodFriday), true);
+  assert.equal(calendar.hasRecentCandle('XAU_USD', 'M15', goodFriday), false);
+});
+
+test('getNextOpen chains a holiday, the weekend and the daily break', () => {
+  const goodFriday = at('2025-04-18T12:00:00.000Z');
+
+  // Holiday → Friday close → Sunday 17:00 open → XAU break until 18:00 (EDT)
+  assert.equal(calendar.getNextOpen('XAU_USD', goodFriday).toISOString(), '2025-04-20T22:00:00.000Z');
+  assert.equal(calendar.getNextOpen('EUR_USD', goodFriday).toISOString(), goodFriday.toISOString());
+});
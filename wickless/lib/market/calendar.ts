@@ -0,0 +1,141 @@
+// =============================================================================
+// WICKLESS STRATEGY — MARKET CALENDAR
+// =============================================================================
+// When each instrument can trade:
+// - The weekly FX session (Sunday 17:00 → Friday 17:00 New York)
+// - Per-instrument daily breaks (MARKET_HOURS, e.g. XAU_USD 17:00-18:00)
+// - Holidays that close a whole trading day (MARKET_HOLIDAYS)
+//
+// The cron cycle and scanner ask it before fetching, so closed periods
+// neither produce scans nor count towards a setup's entry window.
+// =============================================================================
+
+import {
+  Instrument,
+  MarketClosure,
+  MarketHoliday,
+  Timeframe,
+  TradingHours
+} from '../../types/types';
+import { MARKET_HOLIDAYS, MARKET_HOURS, TIMEFRAME_CONFIGS } from '../config';
+import {
+  fromNewYorkTime,
+  getTradingDay,
+  getWeeklyOpen,
+  isWeekendBreak,
+  toNewYorkTime
+} from './clock';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface MarketCalendarOptions {
+  // Default: MARKET_HOURS
+  hours?: Partial<Record<Instrument, TradingHours>>;
+  // Default: MARKET_HOLIDAYS
+  holidays?: MarketHoliday[];
+}
+
+// -----------------------------------------------------------------------------
+// Calendar
+// -----------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Closures can chain (weekend → daily break); stop looking after this many
+const MAX_CHAINED_CLOSURES = 30;
+
+export class MarketCalendar {
+  private readonly hours: Partial<Record<Instrument, TradingHours>>;
+  private readonly holidays: MarketHoliday[];
+
+  constructor(options: MarketCalendarOptions = {}) {
+    this.hours = options.hours ?? MARKET_HOURS;
+    this.holidays = options.holidays ?? MARKET_HOLIDAYS;
+  }
+
+  /**
+   * Why a pair can't trade at a time
+   *
+   * @param pair - Instrument
+   * @param time - Time to check
+   * @returns The closure, or null when the market is open
+   */
+  getClosure(pair: Instrument, time: Date = new Date()): MarketClosure | null {
+    const now = time.getTime();
+
+    if (isWeekendBreak(now)) {
+      return { reason: 'WEEKEND', until: new Date(getWeeklyOpen(now)).toISOString() };
+    }
+
+    const day = getTradingDay(now);
+    const holiday = this.findHoliday(pair, day.date);
+    if (holiday) {
+      return { reason: 'HOLIDAY', until: new Date(day.end).toISOString(), name: holiday.name };
+    }
+
+    const dailyBreak = this.hours[pair]?.dailyBreak;
+    if (dailyBreak) {
+      const wallClock = toNewYorkTime(now);
+      const midnight = Math.floor(wallClock / DAY_MS) * DAY_MS;
+      const hour = (wallClock - midnight) / HOUR_MS;
+
+      if (hour >= dailyBreak.startHour && hour < dailyBreak.endHour) {
+        return {
+          reason: 'DAILY_BREAK',
+          until: new Date(fromNewYorkTime(midnight + dailyBreak.endHour * HOUR_MS)).toISOString(),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a pair is trading at a time
+   */
+  isOpen(pair: Instrument, time: Date = new Date()): boolean {
+    return this.getClosure(pair, time) === null;
+  }
+
+  /**
+   * First time at or after `time` that the pair trades
+   */
+  getNextOpen(pair: Instrument, time: Date = new Date()): Date {
+    let next = time;
+    for (let i = 0; i < MAX_CHAINED_CLOSURES; i++) {
+      const closure = this.getClosure(pair, next);
+      if (!closure) return next;
+      next = new Date(closure.until);
+    }
+    return next;
+  }
+
+  /**
+   * Whether a candle can have closed within the last candle period
+   * True just after the market closes, so the final candle of a session
+   * is still scanned; false once nothing new can have printed.
+   *
+   * @param pair - Instrument
+   * @param timeframe - Candle timeframe
+   * @param time - Current time
+   */
+  hasRecentCandle(pair: Instrument, timeframe: Timeframe, time: Date = new Date()): boolean {
+    const periodMs = TIMEFRAME_CONFIGS[timeframe].minutes * 60 * 1000;
+    return this.isOpen(pair, time) || this.isOpen(pair, new Date(time.getTime() - periodMs));
+  }
+
+  private findHoliday(pair: Instrument, date: string): MarketHoliday | undefined {
+    return this.holidays.find(holiday =>
+      (holiday.date === date || holiday.date === date.slice(5)) &&
+      (!holiday.pairs || holiday.pairs.includes(pair))
+    );
+  }
+}
+
+/**
+ * Calendar built from MARKET_HOURS and MARKET_HOLIDAYS
+ */
+export const defaultMarketCalendar = new MarketCalendar();
@@ -0,0 +1,90 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE CLOCK TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timeframe } from '../../types/types';
+import { getCandleBucket, getCandleCloseTime, getNextCandleClose } from './clock';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+/**
+ * Bucket of a time as ISO strings, for readable assertions
+ */
+function bucket(time: string, granularity: string): [string, string] {
+  const { start, end } = getCandleBucket(Date.parse(time), granularity);
+  return [new Date(start).toISOString(), new Date(end).toISOString()];
+}
+
+function nextClose(timeframe: Timeframe, now: string): string {
+  return getNextCandleClose(timeframe, new Date(now)).toISOString();
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('minute and H1 buckets align to the UTC hour', () => {
+  assert.deepEqual(bucket('2024-03-12T10:07:00.000Z', 'M15'),
+    ['2024-03-12T10:00:00.000Z', '2024-03-12T10:15:00.000Z']);
+  assert.deepEqual(bucket('2024-03-12T10:59:59.999Z', 'H1'),
+    ['2024-03-12T10:00:00.000Z', '2024-03-12T11:00:00.000Z']);
+});
+
+test('D buckets run 17:00 to 17:00 New York through the DST changes', () => {
+  // Friday before the March change: EST
+  assert.deepEqual(bucket('2024-03-08T12:00:00.000Z', 'D'),
+    ['2024-03-07T22:00:00.000Z', '2024-03-08T22:00:00.000Z']);
+  // Sunday open after it: EDT
+  assert.deepEqual(bucket('2024-03-10T21:00:00.000Z', 'D'),
+    ['2024-03-10T21:00:00.000Z', '2024-03-11T21:00:00.000Z']);
+  // Last session before the November change: EDT
+  assert.deepEqual(bucket('2024-11-01T20:59:00.000Z', 'D'),
+    ['2024-10-31T21:00:00.000Z', '2024-11-01T21:00:00.000Z']);
+  // Sunday open after it: EST
+  assert.deepEqual(bucket('2024-11-03T22:00:00.000Z', 'D'),
+    ['2024-11-03T22:00:00.000Z', '2024-11-04T22:00:00.000Z']);
+});
+
+test('H4 buckets count from the session open', () => {
+  assert.deepEqual(bucket('2024-03-08T21:59:00.000Z', 'H4'),
+    ['2024-03-08T18:00:00.000Z', '2024-03-08T22:00:00.000Z']);
+  assert.deepEqual(bucket('2024-03-11T00:30:00.000Z', 'H4'),
+    ['2024-03-10T21:00:00.000Z', '2024-03-11T01:00:00.000Z']);
+});
+
+test('W buckets open Friday 17:00 and close on the following Friday', () => {
+  // The week spanning the March change is an hour short in UTC
+  assert.deepEqual(bucket('2024-03-13T12:00:00.000Z', 'W'),
+    ['2024-03-08T22:00:00.000Z', '2024-03-15T21:00:00.000Z']);
+  // The week spanning the November change is an hour long
+  assert.deepEqual(bucket('2024-11-06T12:00:00.000Z', 'W'),
+    ['2024-11-01T21:00:00.000Z', '2024-11-08T22:00:00.000Z']);
+  // Friday 17:00 itself starts the next week
+  assert.equal(bucket('2024-03-08T22:00:00.000Z', 'W')[0], '2024-03-08T22:00:00.000Z');
+  assert.equal(getCandleCloseTime('2024-03-08T22:00:00.000Z', 'W1'), Date.parse('2024-03-15T21:00:00.000Z'));
+});
+
+test('unaligned granularities are rejected', () => {
+  assert.throws(() => getCandleBucket(0, 'H5'), /Cannot align/);
+  assert.throws(() => getCandleBucket(0, 'M7'), /Cannot align/);
+});
+
+test('next close during the week is the end of the current candle', () => {
+  assert.equal(nextClose('M15', '2024-03-12T10:07:00.000Z'), '2024-03-12T10:15:00.000Z');
+  assert.equal(nextClose('H4', '2024-03-12T10:07:00.000Z'), '2024-03-12T13:00:00.000Z');
+  assert.equal(nextClose('M15', '2024-03-08T21:59:00.000Z'), '2024-03-08T22:00:00.000Z');
+});
+
+test('next close over the weekend is the first candle after the Sunday open', () => {
+  // Friday close onwards, then the DST change before Sunday's open
+  assert.equal(nextClose('M15', '2024-03-08T22:00:00.000Z'), '2024-03-10T21:15:00.000Z');
+  assert.equal(nextClose('H1', '2024-03-09T12:00:00.000Z'), '2024-03-10T22:00:00.000Z');
+  assert.equal(nextClose('H4', '2024-03-09T12:00:00.000Z'), '2024-03-11T01:00:00.000Z');
+  assert.equal(nextClose('D1', '2024-03-10T20:59:00.000Z'), '2024-03-11T21:00:00.000Z');
+  // Back to standard time in November
+  assert.equal(nextClose('M15', '2024-11-02T12:00:00.000Z'), '2024-11-03T22:15:00.000Z');
+});
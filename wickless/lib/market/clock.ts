@@ -0,0 +1,221 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE CLOCK
+// =============================================================================
+// When candles open and close, in UTC, the way OANDA prints them:
+// - Minutes and H1 align to the UTC hour
+// - H2-H12 and D align to 17:00 New York (21:00/22:00 UTC with US DST)
+// - W starts Friday 17:00 New York
+// - The FX week runs Sunday 17:00 → Friday 17:00 New York; nothing closes
+//   in between, so the first close after the weekend is the end of the
+//   candle that opens on Sunday
+// =============================================================================
+
+import { Timeframe } from '../../types/types';
+import { TIMEFRAME_CONFIGS, getGranularityMinutes } from '../config';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CandleBucket {
+  // Bucket open (ms since epoch, UTC)
+  start: number;
+  // Next bucket's open
+  end: number;
+}
+
+export interface TradingDay {
+  // New York date the day closes on (YYYY-MM-DD)
+  date: string;
+  // 17:00 New York the evening before (ms, UTC)
+  start: number;
+  // 17:00 New York on `date`
+  end: number;
+}
+
+// -----------------------------------------------------------------------------
+// New York Time
+// -----------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// OANDA's default dailyAlignment (New York time)
+export const DAILY_ALIGNMENT_HOUR = 17;
+
+/**
+ * Whether US daylight saving applies at a New York wall-clock time
+ * (second Sunday of March 02:00 → first Sunday of November 02:00)
+ */
+export function isUsDaylightTime(year: number, month: number, day: number, hour: number): boolean {
+  const nthSunday = (m: number, n: number) => {
+    const firstDay = new Date(Date.UTC(year, m - 1, 1)).getUTCDay();
+    return 1 + ((7 - firstDay) % 7) + (n - 1) * 7;
+  };
+
+  const start = nthSunday(3, 2);
+  const end = nthSunday(11, 1);
+
+  if (month < 3 || month > 11) return false;
+  if (month > 3 && month < 11) return true;
+  if (month === 3) return day > start || (day === start && hour >= 2);
+  return day < end || (day === end && hour < 2);
+}
+
+/**
+ * Converts a UTC time to New York wall-clock time (as a UTC timestamp)
+ */
+export function toNewYorkTime(time: number): number {
+  const standard = new Date(time - 5 * HOUR_MS);
+  const dst = isUsDaylightTime(
+    standard.getUTCFullYear(),
+    standard.getUTCMonth() + 1,
+    standard.getUTCDate(),
+    standard.getUTCHours()
+  );
+  return time - (dst ? 4 : 5) * HOUR_MS;
+}
+
+/**
+ * Converts New York wall-clock time (as a UTC timestamp) back to UTC
+ */
+export function fromNewYorkTime(wallClock: number): number {
+  const date = new Date(wallClock);
+  const dst = isUsDaylightTime(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours()
+  );
+  return wallClock + (dst ? 4 : 5) * HOUR_MS;
+}
+
+/**
+ * Start of the trading day a time belongs to, as New York wall-clock
+ * midnight shifted by the daily alignment (a Monday session opens Sunday
+ * 17:00, so its day is Sunday)
+ */
+function getSessionDay(time: number): number {
+  const session = toNewYorkTime(time) - DAILY_ALIGNMENT_HOUR * HOUR_MS;
+  return Math.floor(session / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Trading day a time belongs to (17:00 → 17:00 New York)
+ *
+ * @param time - Time in ms (UTC)
+ */
+export function getTradingDay(time: number): TradingDay {
+  const sessionDay = getSessionDay(time);
+  const wallStart = sessionDay + DAILY_ALIGNMENT_HOUR * HOUR_MS;
+  return {
+    date: new Date(sessionDay + DAY_MS).toISOString().slice(0, 10),
+    start: fromNewYorkTime(wallStart),
+    end: fromNewYorkTime(wallStart + DAY_MS),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Candle Alignment
+// -----------------------------------------------------------------------------
+
+/**
+ * Finds the candle a time falls into for an OANDA granularity
+ *
+ * @param time - Time in ms (UTC)
+ * @param granularity - M1-M30, H1-H12 dividing the day, D or W
+ * @returns Bucket open and the next bucket's open
+ * @throws If the granularity has no fixed alignment
+ */
+export function getCandleBucket(time: number, granularity: string): CandleBucket {
+  const match = /^([MHDW])(\d*)$/.exec(granularity);
+  const minutes = getGranularityMinutes(granularity);
+  const unit = match?.[1];
+
+  // Minutes and H1 line up with the UTC hour
+  if ((unit === 'M' && 60 % minutes === 0) || granularity === 'H1') {
+    const period = minutes * 60 * 1000;
+    const start = Math.floor(time / period) * period;
+    return { start, end: start + period };
+  }
+
+  // Everything longer counts from 17:00 New York
+  if ((unit === 'H' && 24 % (minutes / 60) === 0) || granularity === 'D' || granularity === 'W') {
+    const period = unit === 'W' ? 7 * DAY_MS : minutes * 60 * 1000;
+    const session = toNewYorkTime(time) - DAILY_ALIGNMENT_HOUR * HOUR_MS;
+    const sessionDay = getSessionDay(time);
+
+    let sessionStart: number;
+    if (unit === 'W') {
+      // Sessions opening Friday 17:00 belong to the next trading week
+      const daysSinceFriday = (new Date(sessionDay).getUTCDay() + 2) % 7;
+      sessionStart = sessionDay - daysSinceFriday * DAY_MS;
+    } else {
+      sessionStart = sessionDay + Math.floor((session - sessionDay) / period) * period;
+    }
+
+    const wallStart = sessionStart + DAILY_ALIGNMENT_HOUR * HOUR_MS;
+    return {
+      start: fromNewYorkTime(wallStart),
+      end: fromNewYorkTime(wallStart + period),
+    };
+  }
+
+  throw new Error(`Cannot align candles to granularity: ${granularity}`);
+}
+
+/**
+ * Close time of a candle (ms, UTC)
+ * Unlike open + minutes, this follows DST for D and the Friday close for W.
+ *
+ * @param time - Candle open time
+ * @param timeframe - Candle timeframe
+ */
+export function getCandleCloseTime(time: string, timeframe: Timeframe): number {
+  const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+  return getCandleBucket(new Date(time).getTime(), granularity).end;
+}
+
+// -----------------------------------------------------------------------------
+// Weekend
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether the FX market is in its weekend break (Friday 17:00 → Sunday
+ * 17:00 New York)
+ */
+export function isWeekendBreak(time: number): boolean {
+  // Sessions opening Friday and Saturday 17:00 don't trade
+  const day = new Date(getSessionDay(time)).getUTCDay();
+  return day === 5 || day === 6;
+}
+
+/**
+ * Next Sunday 17:00 New York open at or after a time
+ *
+ * @returns The time itself when the market is open
+ */
+export function getWeeklyOpen(time: number): number {
+  if (!isWeekendBreak(time)) return time;
+
+  const sessionDay = getSessionDay(time);
+  const daysToSunday = 7 - new Date(sessionDay).getUTCDay();
+  return fromNewYorkTime(sessionDay + daysToSunday * DAY_MS + DAILY_ALIGNMENT_HOUR * HOUR_MS);
+}
+
+// -----------------------------------------------------------------------------
+// Next Close
+// -----------------------------------------------------------------------------
+
+/**
+ * Next time a candle of a timeframe closes
+ * Over the weekend this is the close of the first candle after the open.
+ *
+ * @param timeframe - Candle timeframe
+ * @param now - Current time
+ */
+export function getNextCandleClose(timeframe: Timeframe, now: Date = new Date()): Date {
+  const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+  const from = getWeeklyOpen(now.getTime());
+  return new Date(getCandleBucket(from, granularity).end);
+}
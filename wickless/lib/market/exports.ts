@@ -0,0 +1,35 @@
+// =============================================================================
+// WICKLESS STRATEGY — MARKET MODULE EXPORTS
+// =============================================================================
+
+// Candle clock (alignment, weekend, next close)
+export {
+  getCandleBucket,
+  getCandleCloseTime,
+  getNextCandleClose,
+  getWeeklyOpen,
+  getTradingDay,
+  isWeekendBreak,
+  isUsDaylightTime,
+  toNewYorkTime,
+  fromNewYorkTime,
+  DAILY_ALIGNMENT_HOUR,
+  type CandleBucket,
+  type TradingDay,
+} from './clock';
+
+// Market hours, daily breaks and holidays
+export {
+  MarketCalendar,
+  defaultMarketCalendar,
+  type MarketCalendarOptions,
+} from './calendar';
+
+// Instrument metadata (pip size, precision, margin)
+export {
+  InstrumentCatalog,
+  instrumentCatalog,
+  parseOandaInstruments,
+  getPipSize,
+  BUILT_IN_INSTRUMENTS,
+} from './instruments';
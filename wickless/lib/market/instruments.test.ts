@@ -0,0 +1,34 @@
+// =============================================================================
+// WICKLESS STRATEGY — INSTRUMENT CATALOG TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pair } from '../../types/types';
+import { COST_CONFIGS, PAIR_CONFIGS, formatPrice, getPipMultiplier, priceToPips } from '../config';
+import { getCommissionInPrice } from '../signals/costs';
+import { getPipSize, instrumentCatalog } from './instruments';
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('configured pairs use the catalog pip size and precision', () => {
+  for (const pair of Object.keys(PAIR_CONFIGS) as Pair[]) {
+    const instrument = instrumentCatalog.get(pair);
+    assert.ok(instrument, `${pair} missing from the catalog`);
+    assert.equal(getPipMultiplier(pair), 1 / getPipSize(instrument), pair);
+    assert.equal(PAIR_CONFIGS[pair].displayPrecision, instrument.displayPrecision, pair);
+  }
+});
+
+test('XAU_USD pips are 0.01 like OANDA', () => {
+  assert.equal(priceToPips(1.5, 'XAU_USD'), 150);
+  assert.equal(formatPrice(2034.5, 'XAU_USD'), '2034.500');
+});
+
+test('XAU_USD commission converts to price per ounce', () => {
+  // $5 per 100 oz lot is 5 cents an ounce
+  const config = { ...COST_CONFIGS.XAU_USD, commissionPerLot: 5 };
+  assert.equal(getCommissionInPrice(config, 'XAU_USD'), 0.05);
+});
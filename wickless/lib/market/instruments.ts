@@ -0,0 +1,159 @@
+// =============================================================================
+// WICKLESS STRATEGY — INSTRUMENT CATALOG
+// =============================================================================
+// Metadata for every instrument the app can scan (pip location, precision,
+// margin, type), so pairs beyond the hand-tuned ones in PAIR_CONFIGS work
+// without code changes:
+// - Starts with a built-in snapshot (the configured pairs plus a few common
+//   crosses, indices and metals)
+// - register() adds OANDA's account instruments (fetchAccountInstruments
+//   in lib/oanda.ts) or a snapshot file saved earlier
+//
+// lib/config.ts derives tolerance, SL buffer and costs from the pip size for
+// instruments without a PAIR_CONFIGS entry, and its toInstrument() turns a
+// catalog name into an InstrumentId.
+// =============================================================================
+
+import { readFile, writeFile } from 'fs/promises';
+import {
+  Instrument,
+  InstrumentInfo,
+  InstrumentType,
+  OandaInstrument,
+  OandaInstrumentsResponse
+} from '../../types/types';
+
+// -----------------------------------------------------------------------------
+// Built-in Snapshot
+// -----------------------------------------------------------------------------
+
+export const BUILT_IN_INSTRUMENTS: InstrumentInfo[] = [
+  { name: 'EUR_USD', type: 'CURRENCY', displayName: 'EUR/USD', pipLocation: -4, displayPrecision: 5, tradeUnitsPrecision: 0, marginRate: 0.0333 },
+  { name: 'GBP_USD', type: 'CURRENCY', displayName: 'GBP/USD', pipLocation: -4, displayPrecision: 5, tradeUnitsPrecision: 0, marginRate: 0.05 },
+  { name: 'AUD_USD', type: 'CURRENCY', displayName: 'AUD/USD', pipLocation: -4, displayPrecision: 5, tradeUnitsPrecision: 0, marginRate: 0.05 },
+  { name: 'USD_JPY', type: 'CURRENCY', displayName: 'USD/JPY', pipLocation: -2, displayPrecision: 3, tradeUnitsPrecision: 0, marginRate: 0.0333 },
+  { name: 'EUR_JPY', type: 'CURRENCY', displayName: 'EUR/JPY', pipLocation: -2, displayPrecision: 3, tradeUnitsPrecision: 0, marginRate: 0.05 },
+  { name: 'GBP_JPY', type: 'CURRENCY', displayName: 'GBP/JPY', pipLocation: -2, displayPrecision: 3, tradeUnitsPrecision: 0, marginRate: 0.05 },
+  { name: 'XAU_USD', type: 'METAL', displayName: 'Gold', pipLocation: -2, displayPrecision: 3, tradeUnitsPrecision: 0, marginRate: 0.05 },
+  { name: 'XAG_USD', type: 'METAL', displayName: 'Silver', pipLocation: -4, displayPrecision: 5, tradeUnitsPrecision: 0, marginRate: 0.1 },
+  { name: 'NAS100_USD', type: 'CFD', displayName: 'US Nas 100', pipLocation: 0, displayPrecision: 1, tradeUnitsPrecision: 1, marginRate: 0.05 },
+];
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+const INSTRUMENT_TYPES: InstrumentType[] = ['CURRENCY', 'CFD', 'METAL'];
+
+/**
+ * Converts OANDA's instrument list to catalog entries
+ * Accepts the raw API response or its `instruments` array.
+ *
+ * @throws If an entry is missing its name or pip location
+ */
+export function parseOandaInstruments(
+  data: OandaInstrumentsResponse | OandaInstrument[]
+): InstrumentInfo[] {
+  const instruments = Array.isArray(data) ? data : data.instruments;
+
+  return instruments.map(instrument => {
+    if (!instrument.name || typeof instrument.pipLocation !== 'number') {
+      throw new Error(`Invalid instrument entry: ${JSON.stringify(instrument)}`);
+    }
+
+    const type = INSTRUMENT_TYPES.includes(instrument.type as InstrumentType)
+      ? instrument.type as InstrumentType
+      : 'CFD';
+
+    return {
+      name: instrument.name,
+      type,
+      displayName: instrument.displayName || instrument.name,
+      pipLocation: instrument.pipLocation,
+      displayPrecision: instrument.displayPrecision ?? -instrument.pipLocation + 1,
+      tradeUnitsPrecision: instrument.tradeUnitsPrecision ?? 0,
+      marginRate: parseFloat(String(instrument.marginRate ?? 0)),
+    };
+  });
+}
+
+/**
+ * Size of one pip in price units (e.g. 0.0001 for EUR_USD)
+ */
+export function getPipSize(instrument: InstrumentInfo): number {
+  return 10 ** instrument.pipLocation;
+}
+
+// -----------------------------------------------------------------------------
+// Catalog
+// -----------------------------------------------------------------------------
+
+export class InstrumentCatalog {
+  private instruments = new Map<string, InstrumentInfo>();
+
+  constructor(instruments: InstrumentInfo[] = BUILT_IN_INSTRUMENTS) {
+    this.register(instruments);
+  }
+
+  /**
+   * Adds or replaces instruments
+   *
+   * @returns Number of instruments registered
+   */
+  register(instruments: InstrumentInfo[]): number {
+    for (const instrument of instruments) {
+      this.instruments.set(instrument.name, instrument);
+    }
+    return instruments.length;
+  }
+
+  get(name: Instrument): InstrumentInfo | null {
+    return this.instruments.get(name) ?? null;
+  }
+
+  has(name: string): boolean {
+    return this.instruments.has(name);
+  }
+
+  /**
+   * All instruments, optionally of one type, sorted by name
+   */
+  list(type?: InstrumentType): InstrumentInfo[] {
+    return [...this.instruments.values()]
+      .filter(instrument => !type || instrument.type === type)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Registers instruments from a JSON file - either a saved catalog or a
+   * raw OANDA instruments response
+   *
+   * @returns Number of instruments registered
+   */
+  async loadSnapshot(path: string): Promise<number> {
+    const data = JSON.parse(await readFile(path, 'utf8'));
+    const instruments: InstrumentInfo[] = Array.isArray(data) && data.every(isInstrumentInfo)
+      ? data
+      : parseOandaInstruments(data);
+    return this.register(instruments);
+  }
+
+  /**
+   * Writes the catalog to a JSON file for loadSnapshot
+   */
+  async saveSnapshot(path: string): Promise<void> {
+    await writeFile(path, JSON.stringify(this.list(), null, 2) + '\n');
+  }
+}
+
+function isInstrumentInfo(value: unknown): value is InstrumentInfo {
+  const entry = value as InstrumentInfo;
+  return typeof entry?.name === 'string' &&
+    typeof entry.pipLocation === 'number' &&
+    typeof entry.marginRate === 'number';
+}
+
+/**
+ * Catalog the config helpers read from
+ */
+export const instrumentCatalog = new InstrumentCatalog();
@@ -3,24 +3,72 @@
 // =============================================================================
 // Fetches candle data from OANDA REST API
 // Uses the same proxy pattern as SweepSignal
+// Requests go through lib/http.ts (budget, retries, typed errors)
 // =============================================================================
 
-import { Candle, OandaCandleResponse, Pair, Timeframe } from '../types/types';
+import {
+  Candle,
+  Instrument,
+  InstrumentInfo,
+  OandaCandleResponse,
+  OandaInstrumentsResponse,
+  OandaPriceBar,
+  OandaPriceComponents,
+  PriceBar,
+  PriceSide,
+  Timeframe
+} from '../types/types';
 import { OANDA_CONFIG, TIMEFRAME_CONFIGS, STRATEGY_CONFIG } from './config';
+import { getRequestBudget, oandaRequest } from './http';
+import { getNextCandleClose } from './market/clock';
+import { parseOandaInstruments } from './market/instruments';
+
+function oandaHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${OANDA_CONFIG.API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function parsePriceBar(bar: OandaPriceBar): PriceBar {
+  return {
+    open: parseFloat(bar.o),
+    high: parseFloat(bar.h),
+    low: parseFloat(bar.l),
+    close: parseFloat(bar.c),
+  };
+}
 
 /**
  * Converts OANDA API response to our Candle format
+ * Without a mid component (price=BA), mid is the bid/ask average.
  */
 function parseOandaCandles(response: OandaCandleResponse): Candle[] {
-  return response.candles.map(c => ({
-    time: c.time,
-    open: parseFloat(c.mid.o),
-    high: parseFloat(c.mid.h),
-    low: parseFloat(c.mid.l),
-    close: parseFloat(c.mid.c),
-    volume: c.volume,
-    complete: c.complete,
-  }));
+  return response.candles.map(c => {
+    const bid = c.bid ? parsePriceBar(c.bid) : undefined;
+    const ask = c.ask ? parsePriceBar(c.ask) : undefined;
+    const mid = c.mid
+      ? parsePriceBar(c.mid)
+      : bid && ask
+        ? {
+            open: (bid.open + ask.open) / 2,
+            high: (bid.high + ask.high) / 2,
+            low: (bid.low + ask.low) / 2,
+            close: (bid.close + ask.close) / 2,
+          }
+        : null;
+
+    if (!mid) {
+      throw new Error(`OANDA candle at ${c.time} has no mid or bid/ask prices`);
+    }
+
+    const candle: Candle = { time: c.time, ...mid, volume: c.volume, complete: c.complete };
+    if (bid && ask) {
+      candle.bid = bid;
+      candle.ask = ask;
+    }
+    return candle;
+  });
 }
 
 /**
@@ -29,29 +77,20 @@ function parseOandaCandles(response: OandaCandleResponse): Candle[] {
  * @param pair - Trading pair (e.g., 'EUR_USD')
  * @param timeframe - Timeframe (e.g., 'M15')
  * @param count - Number of candles to fetch
+ * @param price - Price components (mid, bid/ask)
  * @returns Array of Candle objects
  */
 export async function fetchCandles(
-  pair: Pair,
+  pair: Instrument,
   timeframe: Timeframe,
-  count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH
+  count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH,
+  price: OandaPriceComponents = OANDA_CONFIG.PRICE_COMPONENTS
 ): Promise<Candle[]> {
   const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
   
-  const url = `${OANDA_CONFIG.API_URL}/v3/instruments/${pair}/candles?granularity=${granularity}&count=${count}`;
+  const url = `${OANDA_CONFIG.API_URL}/v3/instruments/${pair}/candles?granularity=${granularity}&count=${count}&price=${price}`;
   
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${OANDA_CONFIG.API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`OANDA API error: ${response.status} ${response.statusText}`);
-  }
-
-  const data: OandaCandleResponse = await response.json();
+  const data = await oandaRequest<OandaCandleResponse>(url, { headers: oandaHeaders() });
   return parseOandaCandles(data);
 }
 
@@ -63,28 +102,27 @@ export async function fetchCandles(
  * @param pair - Trading pair
  * @param timeframe - Timeframe
  * @param count - Number of candles
+ * @param price - Price components (mid, bid/ask)
  * @returns Array of Candle objects
  */
 export async function fetchCandlesViaProxy(
   proxyUrl: string,
-  pair: Pair,
+  pair: Instrument,
   timeframe: Timeframe,
-  count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH
+  count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH,
+  price: OandaPriceComponents = OANDA_CONFIG.PRICE_COMPONENTS
 ): Promise<Candle[]> {
   const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
   
-  const url = `${proxyUrl}/candles?instrument=${pair}&granularity=${granularity}&count=${count}`;
+  const url = `${proxyUrl}/candles?instrument=${pair}&granularity=${granularity}&count=${count}&price=${price}`;
   
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    throw new Error(`Proxy error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json();
+  const data = await oandaRequest<OandaCandleResponse | Candle[]>(url, {
+    label: 'Proxy',
+    budget: getRequestBudget(proxyUrl),
+  });
   
   // Handle both direct OANDA format and proxy-wrapped format
-  if (data.candles) {
+  if (!Array.isArray(data)) {
     return parseOandaCandles(data);
   }
   
@@ -92,6 +130,77 @@ export async function fetchCandlesViaProxy(
   return data;
 }
 
+/**
+ * Fetches candles between two timestamps from OANDA API
+ * Takes a raw granularity so lower timeframes (M1, M5) can be requested
+ *
+ * @param pair - Trading pair
+ * @param granularity - OANDA granularity (e.g., 'M1')
+ * @param from - ISO timestamp (inclusive)
+ * @param to - ISO timestamp (exclusive)
+ * @param price - Price components (mid, bid/ask)
+ * @returns Array of Candle objects
+ */
+export async function fetchCandlesBetween(
+  pair: Instrument,
+  granularity: string,
+  from: string,
+  to: string,
+  price: OandaPriceComponents = OANDA_CONFIG.PRICE_COMPONENTS
+): Promise<Candle[]> {
+  const url = `${OANDA_CONFIG.API_URL}/v3/instruments/${pair}/candles?granularity=${granularity}` +
+    `&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&price=${price}`;
+
+  const data = await oandaRequest<OandaCandleResponse>(url, { headers: oandaHeaders() });
+  return parseOandaCandles(data);
+}
+
+/**
+ * Fetches the instruments the account can trade
+ *
+ * @returns Catalog entries (pip location, precision, margin, type)
+ */
+export async function fetchAccountInstruments(): Promise<InstrumentInfo[]> {
+  const url = `${OANDA_CONFIG.API_URL}/v3/accounts/${OANDA_CONFIG.ACCOUNT_ID}/instruments`;
+
+  const data = await oandaRequest<OandaInstrumentsResponse>(url, { headers: oandaHeaders() });
+  return parseOandaInstruments(data);
+}
+
+/**
+ * Fetches candles between two timestamps via proxy server
+ *
+ * @param proxyUrl - URL of your proxy server
+ * @param pair - Trading pair
+ * @param granularity - OANDA granularity (e.g., 'M1')
+ * @param from - ISO timestamp (inclusive)
+ * @param to - ISO timestamp (exclusive)
+ * @param price - Price components (mid, bid/ask)
+ * @returns Array of Candle objects
+ */
+export async function fetchCandlesBetweenViaProxy(
+  proxyUrl: string,
+  pair: Instrument,
+  granularity: string,
+  from: string,
+  to: string,
+  price: OandaPriceComponents = OANDA_CONFIG.PRICE_COMPONENTS
+): Promise<Candle[]> {
+  const url = `${proxyUrl}/candles?instrument=${pair}&granularity=${granularity}` +
+    `&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&price=${price}`;
+
+  const data = await oandaRequest<OandaCandleResponse | Candle[]>(url, {
+    label: 'Proxy',
+    budget: getRequestBudget(proxyUrl),
+  });
+
+  if (!Array.isArray(data)) {
+    return parseOandaCandles(data);
+  }
+
+  return data;
+}
+
 /**
  * Gets the latest complete candle
  * 
@@ -128,6 +237,49 @@ export function getCompleteCandles(candles: Candle[]): Candle[] {
   return candles.filter(c => c.complete);
 }
 
+/**
+ * Gets one side's OHLC, falling back to mid when bid/ask is missing
+ * 
+ * @param candle - Candle
+ * @param side - MID, BID or ASK
+ * @returns OHLC for that side
+ */
+export function getCandlePrices(candle: Candle, side: PriceSide): PriceBar {
+  const bar = side === 'BID' ? candle.bid : side === 'ASK' ? candle.ask : undefined;
+  return bar ?? { open: candle.open, high: candle.high, low: candle.low, close: candle.close };
+}
+
+/**
+ * Side a trade's entry fills on: BUY buys at the ask, SELL sells at the bid
+ */
+export function getEntrySide(direction: 'BUY' | 'SELL'): PriceSide {
+  return direction === 'BUY' ? 'ASK' : 'BID';
+}
+
+/**
+ * Side a trade's SL/TP fills on: BUY closes at the bid, SELL at the ask
+ */
+export function getExitSide(direction: 'BUY' | 'SELL'): PriceSide {
+  return direction === 'BUY' ? 'BID' : 'ASK';
+}
+
+/**
+ * Checks whether a candle carries bid and ask prices
+ */
+export function hasBidAsk(candle: Candle): boolean {
+  return candle.bid !== undefined && candle.ask !== undefined;
+}
+
+/**
+ * Gets the spread at a candle's close
+ * 
+ * @param candle - Candle
+ * @returns Ask - bid, or null without bid/ask data
+ */
+export function getCandleSpread(candle: Candle): number | null {
+  return candle.bid && candle.ask ? candle.ask.close - candle.bid.close : null;
+}
+
 /**
  * Gets candles after a specific time
  * 
@@ -151,34 +303,41 @@ export function getCurrentPrice(candles: Candle[]): number | null {
   return latest ? latest.close : null;
 }
 
+export interface MultiPairCandles {
+  candles: Map<Instrument, Candle[]>;
+  // Typed OandaApiError for HTTP failures
+  errors: Map<Instrument, Error>;
+}
+
 /**
  * Fetches candles for multiple pairs
  * 
  * @param pairs - Array of trading pairs
  * @param timeframe - Timeframe
  * @param count - Number of candles per pair
- * @returns Map of pair to candles
+ * @returns Candles for pairs that loaded, errors for pairs that didn't
  */
 export async function fetchMultiplePairs(
-  pairs: Pair[],
+  pairs: Instrument[],
   timeframe: Timeframe,
   count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH
-): Promise<Map<Pair, Candle[]>> {
-  const results = new Map<Pair, Candle[]>();
+): Promise<MultiPairCandles> {
+  const candles = new Map<Instrument, Candle[]>();
+  const errors = new Map<Instrument, Error>();
   
   // Fetch in parallel
   const promises = pairs.map(async pair => {
     try {
-      const candles = await fetchCandles(pair, timeframe, count);
-      results.set(pair, candles);
+      candles.set(pair, await fetchCandles(pair, timeframe, count));
     } catch (error) {
+      // Keep the failure - an empty array would look like a quiet market
       console.error(`Failed to fetch ${pair}:`, error);
-      results.set(pair, []);
+      errors.set(pair, error instanceof Error ? error : new Error(String(error)));
     }
   });
   
   await Promise.all(promises);
-  return results;
+  return { candles, errors };
 }
 
 /**
@@ -188,28 +347,29 @@ export async function fetchMultiplePairs(
  * @param pairs - Array of trading pairs
  * @param timeframe - Timeframe
  * @param count - Number of candles per pair
- * @returns Map of pair to candles
+ * @returns Candles for pairs that loaded, errors for pairs that didn't
  */
 export async function fetchMultiplePairsViaProxy(
   proxyUrl: string,
-  pairs: Pair[],
+  pairs: Instrument[],
   timeframe: Timeframe,
   count: number = STRATEGY_CONFIG.CANDLES_TO_FETCH
-): Promise<Map<Pair, Candle[]>> {
-  const results = new Map<Pair, Candle[]>();
+): Promise<MultiPairCandles> {
+  const candles = new Map<Instrument, Candle[]>();
+  const errors = new Map<Instrument, Error>();
   
   const promises = pairs.map(async pair => {
     try {
-      const candles = await fetchCandlesViaProxy(proxyUrl, pair, timeframe, count);
-      results.set(pair, candles);
+      candles.set(pair, await fetchCandlesViaProxy(proxyUrl, pair, timeframe, count));
     } catch (error) {
+      // Keep the failure - an empty array would look like a quiet market
       console.error(`Failed to fetch ${pair}:`, error);
-      results.set(pair, []);
+      errors.set(pair, error instanceof Error ? error : new Error(String(error)));
     }
   });
   
   await Promise.all(promises);
-  return results;
+  return { candles, errors };
 }
 
 /**
@@ -243,41 +403,14 @@ export function getCandleFromEnd(candles: Candle[], index: number): Candle | nul
 
 /**
  * Calculates time until next candle close
+ * Follows OANDA's alignment and the weekend break (see lib/market/clock.ts).
  * 
  * @param timeframe - Current timeframe
+ * @param now - Current time
  * @returns Milliseconds until next close
  */
-export function getTimeUntilNextClose(timeframe: Timeframe): number {
-  const now = new Date();
-  const minutes = now.getMinutes();
-  const seconds = now.getSeconds();
-  const ms = now.getMilliseconds();
-  
-  let intervalMinutes: number;
-  
-  switch (timeframe) {
-    case 'M15':
-      intervalMinutes = 15;
-      break;
-    case 'M30':
-      intervalMinutes = 30;
-      break;
-    case 'H1':
-      intervalMinutes = 60;
-      break;
-    case 'H4':
-      intervalMinutes = 240;
-      break;
-    default:
-      intervalMinutes = 15;
-  }
-  
-  const minutesIntoInterval = minutes % intervalMinutes;
-  const minutesRemaining = intervalMinutes - minutesIntoInterval - 1;
-  const secondsRemaining = 60 - seconds;
-  const msRemaining = 1000 - ms;
-  
-  return (minutesRemaining * 60 * 1000) + (secondsRemaining * 1000) + msRemaining;
+export function getTimeUntilNextClose(timeframe: Timeframe, now: Date = new Date()): number {
+  return getNextCandleClose(timeframe, now).getTime() - now.getTime();
 }
 
 /**
@@ -0,0 +1,69 @@
+// =============================================================================
+// WICKLESS STRATEGY — CLOCK & ID GENERATION
+// =============================================================================
+// The cron pipeline reads time and creates IDs through these instead of
+// calling new Date() / Date.now() directly, so a replay can pin both.
+// =============================================================================
+
+export interface Clock {
+  now(): Date;
+}
+
+export type IdGenerator = () => string;
+
+/**
+ * Wall-clock time (production)
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Manually driven clock for replays
+ */
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(start: string | Date) {
+    this.time = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Jumps to a point in time
+   */
+  set(time: string | Date): void {
+    this.time = new Date(time).getTime();
+  }
+
+  /**
+   * Moves the clock forward
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * Creates IDs in the same format as the live system (timestamp-random)
+ *
+ * @param clock - Time source for the timestamp part
+ * @param random - Random source for the suffix
+ */
+export function createIdGenerator(
+  clock: Clock = systemClock,
+  random: () => number = Math.random
+): IdGenerator {
+  return () => `${clock.now().getTime()}-${random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Creates predictable IDs (prefix-1, prefix-2, ...) for replays
+ */
+export function createSequentialIdGenerator(prefix: string = 'replay'): IdGenerator {
+  let next = 1;
+  return () => `${prefix}-${next++}`;
+}
@@ -0,0 +1,99 @@
+// =============================================================================
+// WICKLESS STRATEGY — CRON CYCLE TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, Signal } from '../../types/types';
+import { MemorySource } from '../sources/memory';
+import { createRandom } from '../backtest/random';
+import { FakeClock, createSequentialIdGenerator } from './clock';
+import { MemoryStore } from './store';
+import { CronCycleResult, runCronCycle } from './cycle';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+// BUY limit at 1.1000, SL 1.0980, TP 1.1020
+const openSignal: Signal = {
+  id: 'signal-1',
+  setupId: 'setup-1',
+  pair: 'EUR_USD',
+  timeframe: 'M15',
+  direction: 'BUY',
+  entryPrice: 1.1000,
+  stopLoss: 1.0980,
+  takeProfit: 1.1020,
+  entryTime: '2024-01-03T10:00:00.000Z',
+  outcome: null,
+  outcomeTime: null,
+  entryFillPrice: null,
+  exitFillPrice: null,
+  netR: null,
+  createdAt: '2024-01-03T10:01:00.000Z',
+};
+
+function candle(time: string, low: number, high: number): Candle {
+  return { time, open: low, high, low, close: high, complete: true };
+}
+
+/**
+ * Runs one M15 cycle at `now` over the given candles, checking open
+ * signals only (no pairs to scan)
+ */
+async function runCycle(
+  signal: Signal,
+  candles: Candle[],
+  now: string
+): Promise<{ store: MemoryStore; result: CronCycleResult }> {
+  const clock = new FakeClock(now);
+  const source = new MemorySource(clock).setTimeframe('EUR_USD', 'M15', candles);
+  const store = new MemoryStore([], [signal]);
+
+  const result = await runCronCycle({
+    timeframe: 'M15',
+    pairs: [],
+    source,
+    store,
+    clock,
+    generateId: createSequentialIdGenerator('test'),
+    random: createRandom(1),
+  });
+
+  return { store, result };
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('the first hit after the entry decides the outcome, even if runs were missed', async () => {
+  const { store, result } = await runCycle(openSignal, [
+    candle('2024-01-03T10:00:00.000Z', 1.0995, 1.1005),
+    candle('2024-01-03T10:15:00.000Z', 1.0975, 1.1005),  // stop loss
+    candle('2024-01-03T10:30:00.000Z', 1.1005, 1.1025),  // take profit
+  ], '2024-01-03T10:46:00.000Z');
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.closedSignals, { wins: 0, losses: 1 });
+  assert.equal(store.getSignals()[0].outcome, 'LOSS');
+  assert.equal(store.getSignals()[0].outcomeTime, '2024-01-03T10:15:00.000Z');
+});
+
+test('only the candle the entry filled on ignores its take profit', async () => {
+  // A tick-monitor entry falls mid-candle
+  const signal = { ...openSignal, entryTime: '2024-01-03T10:07:00.000Z' };
+  const candles = [
+    candle('2024-01-03T10:00:00.000Z', 1.0995, 1.1025),  // TP with no finer data
+    candle('2024-01-03T10:15:00.000Z', 1.1005, 1.1025),  // take profit
+  ];
+
+  const early = await runCycle(signal, candles.slice(0, 1), '2024-01-03T10:16:00.000Z');
+  assert.deepEqual(early.result.closedSignals, { wins: 0, losses: 0 });
+  assert.equal(early.store.getSignals()[0].outcome, null);
+
+  const { store, result } = await runCycle(signal, candles, '2024-01-03T10:31:00.000Z');
+  assert.deepEqual(result.closedSignals, { wins: 1, losses: 0 });
+  assert.equal(store.getSignals()[0].outcomeTime, '2024-01-03T10:15:00.000Z');
+});
@@ -0,0 +1,375 @@
+// =============================================================================
+// WICKLESS STRATEGY — CRON CYCLE
+// =============================================================================
+// One run of the scheduled pipeline, shared by GET /api/cron and replays:
+// 1. Scans all pairs for new signals
+// 2. Monitors active setups for retracement entries
+// 3. Checks open signals for SL/TP hits
+// 4. Expires setups older than 10 candles
+//
+// Pairs whose market is closed (weekend, holiday, daily break - see
+// lib/market/calendar.ts) are skipped, and a setup's age is the number of
+// candles that actually printed after its signal candle, not cron runs.
+// Entries are looked for in each of those candles, oldest first, so a
+// touch in a candle that a missed or late run skipped still triggers.
+// Open signals are walked the same way from their entry candle, so the
+// first SL/TP hit decides the outcome even if runs were missed.
+// Fetched candles are checked and repaired first (lib/sources/quality.ts).
+//
+// Candles, persistence, time, IDs and randomness are all injected, so the
+// same cycle runs against OANDA + Supabase in production or recorded
+// candles + MemoryStore + FakeClock in a replay.
+// =============================================================================
+
+import {
+  AmbiguityPolicy,
+  Candle,
+  CandleSource,
+  Instrument,
+  OutcomeResolution,
+  Signal,
+  Timeframe
+} from '../../types/types';
+
+import { RECOMMENDED_PAIRS, STRATEGY_CONFIG, TIMEFRAME_CONFIGS, getCostConfig } from '../config';
+import { hasBidAsk } from '../oanda';
+import { scanMultiplePairs } from '../signals/scanner';
+import { createActiveSetup } from '../signals/manager';
+import { checkRetracement } from '../signals/retracement';
+import { resolveOutcomeWithDrillDown, signalToTradeSetup } from '../signals/outcome';
+import { calculateTradeCosts, withoutSpread } from '../signals/costs';
+import { getCandleBucket } from '../market/clock';
+import { MarketCalendar, defaultMarketCalendar } from '../market/calendar';
+import { fetchHistory } from '../sources/history';
+import { validateCandles } from '../sources/quality';
+import { Clock, IdGenerator, createIdGenerator, systemClock } from './clock';
+import { PipelineStore } from './store';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CronCycleOptions {
+  timeframe: Timeframe;
+  pairs?: Instrument[];
+  source: CandleSource;
+  store: PipelineStore;
+  clock?: Clock;
+  generateId?: IdGenerator;
+  // Random source for slippage in the cost model
+  random?: () => number;
+  policy?: AmbiguityPolicy;
+  // Market hours and holidays (default: defaultMarketCalendar)
+  calendar?: MarketCalendar;
+}
+
+export interface CronCycleResult {
+  timestamp: string;
+  timeframe: Timeframe;
+  newSignals: number;
+  triggeredEntries: number;
+  expiredSetups: number;
+  closedSignals: { wins: number; losses: number };
+  errors: string[];
+}
+
+// -----------------------------------------------------------------------------
+// Cycle
+// -----------------------------------------------------------------------------
+
+/**
+ * Fetches recent candles, repaired by the data-quality check
+ */
+async function fetchRecentCandles(
+  source: CandleSource,
+  pair: Instrument,
+  timeframe: Timeframe,
+  count: number
+): Promise<Candle[]> {
+  const candles = await source.fetchCandles(pair, timeframe, count);
+  return validateCandles(candles, {
+    granularity: TIMEFRAME_CONFIGS[timeframe].oandaGranularity,
+    pair,
+  }).candles;
+}
+
+/**
+ * Complete candles from a candle open up to now, oldest first, repaired
+ * Pages through fetchHistory, so a signal open for weeks is still walked
+ * from its entry.
+ */
+async function fetchCandlesFrom(
+  source: CandleSource,
+  pair: Instrument,
+  timeframe: Timeframe,
+  from: number,
+  now: Date
+): Promise<Candle[]> {
+  const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+  const { candles } = await fetchHistory(source, {
+    pair,
+    granularity,
+    from: new Date(from).toISOString(),
+    to: now.toISOString(),
+  });
+  return validateCandles(candles, { granularity, pair }).candles.filter(c => c.complete);
+}
+
+/**
+ * Complete candles after a candle time, oldest first
+ */
+function getCandlesSince(candles: Candle[], time: string): Candle[] {
+  const since = new Date(time).getTime();
+  return candles.filter(c => c.complete && new Date(c.time).getTime() > since);
+}
+
+/**
+ * Runs the full scan and monitoring cycle once
+ *
+ * @param options - Timeframe, pairs and injected dependencies
+ * @returns Counts of what changed in this cycle
+ */
+export async function runCronCycle(options: CronCycleOptions): Promise<CronCycleResult> {
+  const {
+    timeframe,
+    pairs = RECOMMENDED_PAIRS,
+    source,
+    store,
+    clock = systemClock,
+    random = Math.random,
+    policy,
+    calendar = defaultMarketCalendar,
+  } = options;
+  const generateId = options.generateId ?? createIdGenerator(clock, random);
+
+  const results: CronCycleResult = {
+    timestamp: clock.now().toISOString(),
+    timeframe,
+    newSignals: 0,
+    triggeredEntries: 0,
+    expiredSetups: 0,
+    closedSignals: { wins: 0, losses: 0 },
+    errors: [],
+  };
+
+  // ===========================================================================
+  // STEP 1: Scan for new wickless signals
+  // ===========================================================================
+
+  const scanResult = await scanMultiplePairs({
+    pairs,
+    timeframe,
+    source,
+    calendar,
+    now: clock.now(),
+  });
+
+  for (const failed of scanResult.failed) {
+    results.errors.push(`Scan failed for ${failed.pair} (${failed.error?.kind}): ${failed.error?.message}`);
+  }
+
+  // Save new setups
+  for (const signal of scanResult.signalsFound) {
+    try {
+      const setup = createActiveSetup(signal);
+      if (!setup) continue;
+
+      if (await store.setupExists(signal.pair, setup.signalCandleTime)) {
+        console.log(`Setup already exists for ${signal.pair} at ${setup.signalCandleTime}`);
+        continue;
+      }
+
+      const saved = await store.saveActiveSetup({
+        ...setup,
+        id: generateId(),
+        createdAt: clock.now().toISOString(),
+      });
+      if (saved) {
+        results.newSignals++;
+      }
+    } catch (err) {
+      results.errors.push(`Failed to save setup for ${signal.pair}: ${err}`);
+    }
+  }
+
+  // Log the scan
+  await store.logScan(pairs, timeframe, scanResult.results, scanResult.totalDuration);
+
+  // ===========================================================================
+  // STEP 2: Monitor active setups for retracement entries
+  // ===========================================================================
+
+  const activeSetups = await store.getActiveSetups();
+
+  for (const setup of activeSetups) {
+    // Only process setups for current timeframe
+    if (setup.timeframe !== timeframe) continue;
+
+    // No new candle while the market is closed
+    if (!calendar.hasRecentCandle(setup.pair, timeframe, clock.now())) continue;
+
+    try {
+      // Enough candles to count the whole entry window
+      const candles = await fetchRecentCandles(
+        source,
+        setup.pair,
+        timeframe,
+        STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY + 2
+      );
+
+      // Candles printed since the signal candle (weekends and holidays
+      // have none, and repeated cron runs don't add any)
+      const since = getCandlesSince(candles, setup.signalCandleTime);
+
+      // Check every candle in the entry window, not just the latest, so a
+      // touch in a candle a missed run skipped still fills; the signal
+      // candle itself never does (ask for BUY, bid for SELL)
+      const retracement = checkRetracement(setup.direction, setup.entryZone, since);
+
+      if (retracement.triggered && retracement.triggerCandle) {
+        // Mark setup as triggered, unless the tick monitor already did
+        const updated = await store.updateSetup(setup.id, {
+          status: 'TRIGGERED',
+          ifStatus: 'WAITING',
+        });
+        if (!updated) continue;
+
+        // Create signal record
+        const signal: Signal = {
+          id: generateId(),
+          setupId: setup.id,
+          pair: setup.pair,
+          timeframe: setup.timeframe,
+          direction: setup.direction,
+          entryPrice: setup.entryZone,
+          stopLoss: setup.stopLoss,
+          takeProfit: setup.takeProfit,
+          entryTime: retracement.triggerCandle.time,
+          outcome: null,
+          outcomeTime: null,
+          entryFillPrice: null,
+          exitFillPrice: null,
+          netR: null,
+          createdAt: clock.now().toISOString(),
+        };
+
+        await store.saveSignal(signal);
+        results.triggeredEntries++;
+      } else {
+        const newCount = since.length;
+
+        if (newCount >= STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY) {
+          // Expire the setup
+          const expired = await store.updateSetup(setup.id, {
+            status: 'EXPIRED',
+            candlesElapsed: newCount,
+            ifStatus: 'WAITING',
+          });
+          if (expired) results.expiredSetups++;
+        } else if (newCount !== setup.candlesElapsed) {
+          // Just update the count
+          await store.updateSetup(setup.id, { candlesElapsed: newCount });
+        }
+      }
+    } catch (err) {
+      results.errors.push(`Error processing setup ${setup.id}: ${err}`);
+    }
+  }
+
+  // ===========================================================================
+  // STEP 3: Check open signals for SL/TP hits
+  // ===========================================================================
+
+  const openSignals = await store.getOpenSignals();
+
+  for (const signal of openSignals) {
+    // Only process signals for current timeframe
+    if (signal.timeframe !== timeframe) continue;
+
+    // SL/TP can't be hit while the market is closed
+    if (!calendar.hasRecentCandle(signal.pair, timeframe, clock.now())) continue;
+
+    try {
+      // The candle the entry filled on (tick-monitor entries fall mid-candle)
+      const entryCandleStart = getCandleBucket(
+        new Date(signal.entryTime).getTime(),
+        TIMEFRAME_CONFIGS[timeframe].oandaGranularity
+      ).start;
+
+      // Every candle since the entry, so a hit in a candle a missed run
+      // skipped isn't decided by a later one
+      const candles = await fetchCandlesFrom(
+        source,
+        signal.pair,
+        timeframe,
+        entryCandleStart,
+        clock.now()
+      );
+      const setup = signalToTradeSetup(signal);
+
+      let resolution: OutcomeResolution | null = null;
+      let exitCandle: Candle | null = null;
+
+      for (const candle of candles) {
+        // Drills down to lower timeframe if SL and TP share the candle, or
+        // to find the fill on the entry candle
+        const result = await resolveOutcomeWithDrillDown(setup, candle, {
+          pair: signal.pair,
+          timeframe,
+          source,
+          policy,
+          entryCandle: new Date(candle.time).getTime() === entryCandleStart,
+        });
+
+        if (result.outcome !== 'OPEN') {
+          resolution = result;
+          exitCandle = candle;
+          break;
+        }
+      }
+
+      // No SL or TP hit yet
+      if (!resolution || resolution.outcome === 'OPEN' || !exitCandle) continue;
+
+      const outcome = resolution.outcome;
+      const outcomeTime = resolution.outcomeTime ?? exitCandle.time;
+
+      // Net result after spread, slippage and commission
+      // (bid/ask candles already put the spread in the fills)
+      const costConfig = getCostConfig(signal.pair);
+      const costs = calculateTradeCosts(
+        signal,
+        outcome,
+        outcomeTime,
+        hasBidAsk(exitCandle) ? withoutSpread(costConfig) : costConfig,
+        random
+      );
+
+      // Only the first close counts - the tick monitor may have closed it
+      const updated = await store.updateSignalOutcome(
+        signal.id,
+        outcome,
+        outcomeTime,
+        resolution.outcomePrice ?? undefined,
+        costs
+      );
+      if (!updated) continue;
+
+      if (outcome === 'WIN') {
+        results.closedSignals.wins++;
+      } else {
+        results.closedSignals.losses++;
+      }
+    } catch (err) {
+      results.errors.push(`Error checking signal ${signal.id}: ${err}`);
+    }
+  }
+
+  // ===========================================================================
+  // STEP 4: Clean up any old expired setups
+  // ===========================================================================
+
+  results.expiredSetups += await store.expireOldSetups();
+
+  return results;
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// WICKLESS STRATEGY — PIPELINE MODULE EXPORTS
+// =============================================================================
+
+// Clock and IDs
+export {
+  systemClock,
+  FakeClock,
+  createIdGenerator,
+  createSequentialIdGenerator,
+  type Clock,
+  type IdGenerator,
+} from './clock';
+
+// Persistence
+export {
+  supabaseStore,
+  MemoryStore,
+  type PipelineStore,
+  type SetupUpdates,
+  type OutcomeCosts,
+  type ScanLogEntry,
+} from './store';
+
+// Cron cycle (scan → monitor → outcome)
+export {
+  runCronCycle,
+  type CronCycleOptions,
+  type CronCycleResult,
+} from './cycle';
+
+// Replay harness
+export {
+  runReplay,
+  diffReplay,
+  summarizeReplay,
+  type ReplayOptions,
+  type ReplayTick,
+  type ReplayResult,
+  type ReplaySnapshot,
+  type ReplayDifference,
+} from './replay';
@@ -0,0 +1,310 @@
+// =============================================================================
+// WICKLESS STRATEGY — CRON REPLAY HARNESS
+// =============================================================================
+// Feeds recorded candles through runCronCycle exactly as production would
+// have seen them:
+// - A FakeClock is set to each candle close (plus the cron delay)
+// - A clocked MemorySource only returns candles that existed at that time,
+//   with the still-forming candle marked incomplete like OANDA does
+// - Higher timeframes for the trend filter come from recorded candles when
+//   given, otherwise they are resampled from the replay timeframe
+// - A MemoryStore (optionally seeded with production state) stands in for
+//   Supabase, and IDs/slippage come from seeded generators
+//
+// The same inputs always produce the same setups, triggers and outcomes.
+// diffReplay compares them against production rows.
+// =============================================================================
+
+import {
+  ActiveSetup,
+  AmbiguityPolicy,
+  Candle,
+  CandleSource,
+  Instrument,
+  Signal,
+  Timeframe
+} from '../../types/types';
+
+import { TIMEFRAME_CONFIGS } from '../config';
+import { createRandom } from '../backtest/random';
+import { MemorySource } from '../sources/memory';
+import { withResampling } from '../sources/resample';
+import { getCandleCloseTime } from '../market/clock';
+import { MarketCalendar } from '../market/calendar';
+import { FakeClock, createSequentialIdGenerator } from './clock';
+import { MemoryStore } from './store';
+import { runCronCycle, CronCycleResult } from './cycle';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ReplayOptions {
+  timeframe: Timeframe;
+  // Recorded candles per pair for the replay timeframe (oldest first)
+  candles: Partial<Record<Instrument, Candle[]>>;
+  // Recorded drill-down candles (M1/M5) per pair
+  lowerCandles?: Partial<Record<Instrument, Candle[]>>;
+  // Recorded higher-timeframe candles per pair for the trend filter
+  // (default: resampled from `candles`)
+  higherTimeframeCandles?: Partial<Record<Instrument, Partial<Record<Timeframe, Candle[]>>>>;
+  // Replay window - cron runs for candles closing in [from, to]
+  from: string;
+  to: string;
+  // Delay between a candle close and the cron run (default: 60s)
+  cronDelayMs?: number;
+  // Starting state, e.g. production setups/signals at `from`
+  store?: MemoryStore;
+  policy?: AmbiguityPolicy;
+  seed?: number;
+  // Market hours the cycle follows (default: defaultMarketCalendar)
+  calendar?: MarketCalendar;
+}
+
+export interface ReplayTick {
+  time: string;
+  result: CronCycleResult;
+}
+
+export interface ReplayResult {
+  timeframe: Timeframe;
+  pairs: Instrument[];
+  ticks: ReplayTick[];
+  setups: ActiveSetup[];
+  signals: Signal[];
+}
+
+export interface ReplaySnapshot {
+  setups: ActiveSetup[];
+  signals: Signal[];
+}
+
+export interface ReplayDifference {
+  entity: 'SETUP' | 'SIGNAL';
+  kind: 'MISSING' | 'UNEXPECTED' | 'CHANGED';
+  key: string;
+  field?: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+// -----------------------------------------------------------------------------
+// Replay Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Collects every candle close time in the window across all pairs
+ */
+function getCloseTimes(options: ReplayOptions): number[] {
+  const from = new Date(options.from).getTime();
+  const to = new Date(options.to).getTime();
+  const times = new Set<number>();
+
+  Object.values(options.candles).forEach(candles => {
+    for (const candle of candles ?? []) {
+      const close = getCandleCloseTime(candle.time, options.timeframe);
+      if (close >= from && close <= to) {
+        times.add(close);
+      }
+    }
+  });
+
+  return Array.from(times).sort((a, b) => a - b);
+}
+
+/**
+ * Loads the recorded candles into a source that follows the replay clock
+ * Higher timeframes without recorded candles are resampled from the replay
+ * timeframe, so the trend filter sees what production would have.
+ */
+function createReplaySource(options: ReplayOptions, clock: FakeClock): CandleSource {
+  const { timeframe, candles, lowerCandles = {}, higherTimeframeCandles = {} } = options;
+  const drillDown = TIMEFRAME_CONFIGS[timeframe].drillDownGranularity;
+  const memory = new MemorySource(clock);
+
+  (Object.keys(candles) as Instrument[]).forEach(pair => {
+    memory.setTimeframe(pair, timeframe, candles[pair] ?? []);
+  });
+  (Object.keys(lowerCandles) as Instrument[]).forEach(pair => {
+    memory.set(pair, drillDown, lowerCandles[pair] ?? []);
+  });
+  (Object.keys(higherTimeframeCandles) as Instrument[]).forEach(pair => {
+    const recorded = higherTimeframeCandles[pair] ?? {};
+    (Object.keys(recorded) as Timeframe[]).forEach(higher => {
+      memory.setTimeframe(pair, higher, recorded[higher] ?? []);
+    });
+  });
+
+  const resampled = withResampling(memory, { base: timeframe, clock });
+  const isRecorded = (pair: Instrument, higher: Timeframe) =>
+    higherTimeframeCandles[pair]?.[higher] !== undefined;
+
+  return {
+    name: `replay(${timeframe})`,
+    fetchCandles: (pair, higher, count) => isRecorded(pair, higher)
+      ? memory.fetchCandles(pair, higher, count)
+      : resampled.fetchCandles(pair, higher, count),
+    fetchCandlesBetween: (pair, granularity, from, to) =>
+      resampled.fetchCandlesBetween(pair, granularity, from, to),
+  };
+}
+
+/**
+ * Replays the cron pipeline over recorded candles
+ *
+ * @param options - Recorded data, window and starting state
+ * @returns Per-run results and the final setups/signals
+ */
+export async function runReplay(options: ReplayOptions): Promise<ReplayResult> {
+  const {
+    timeframe,
+    candles,
+    cronDelayMs = 60 * 1000,
+    store = new MemoryStore(),
+    policy,
+    seed = 1,
+    calendar,
+  } = options;
+
+  const pairs = Object.keys(candles) as Instrument[];
+  const clock = new FakeClock(options.from);
+  const source = createReplaySource(options, clock);
+  const generateId = createSequentialIdGenerator();
+  const random = createRandom(seed);
+  const ticks: ReplayTick[] = [];
+
+  for (const close of getCloseTimes(options)) {
+    clock.set(new Date(close + cronDelayMs));
+
+    const result = await runCronCycle({
+      timeframe,
+      pairs,
+      source,
+      store,
+      clock,
+      generateId,
+      random,
+      policy,
+      calendar,
+    });
+
+    ticks.push({ time: clock.now().toISOString(), result });
+  }
+
+  return {
+    timeframe,
+    pairs,
+    ticks,
+    setups: store.getSetups(),
+    signals: store.getSignals(),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Diffing
+// -----------------------------------------------------------------------------
+
+// IDs differ between runs, so rows are matched on what identifies them in the market
+function setupKey(setup: ActiveSetup): string {
+  return `${setup.pair}|${setup.timeframe}|${setup.signalCandleTime}`;
+}
+
+function signalKey(signal: Signal): string {
+  return `${signal.pair}|${signal.timeframe}|${signal.direction}|${signal.entryTime}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    // Database DECIMAL round trips can lose the last few digits
+    return Math.abs(a - b) < 1e-8;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const timeA = Date.parse(a);
+    const timeB = Date.parse(b);
+    if (!isNaN(timeA) && !isNaN(timeB)) return timeA === timeB;
+  }
+  return a === b;
+}
+
+function diffRows<T>(
+  entity: ReplayDifference['entity'],
+  expected: T[],
+  actual: T[],
+  getKey: (row: T) => string,
+  fields: (keyof T)[]
+): ReplayDifference[] {
+  const differences: ReplayDifference[] = [];
+  const actualByKey = new Map(actual.map(row => [getKey(row), row]));
+  const expectedKeys = new Set(expected.map(getKey));
+
+  for (const row of expected) {
+    const key = getKey(row);
+    const other = actualByKey.get(key);
+
+    if (!other) {
+      differences.push({ entity, kind: 'MISSING', key });
+      continue;
+    }
+
+    for (const field of fields) {
+      if (!sameValue(row[field], other[field])) {
+        differences.push({
+          entity,
+          kind: 'CHANGED',
+          key,
+          field: String(field),
+          expected: row[field],
+          actual: other[field],
+        });
+      }
+    }
+  }
+
+  for (const row of actual) {
+    const key = getKey(row);
+    if (!expectedKeys.has(key)) {
+      differences.push({ entity, kind: 'UNEXPECTED', key });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Compares a replay against another run (usually production rows)
+ *
+ * @param expected - Reference setups and signals
+ * @param actual - Replayed setups and signals
+ * @returns Rows missing from, added by, or changed in the replay
+ */
+export function diffReplay(expected: ReplaySnapshot, actual: ReplaySnapshot): ReplayDifference[] {
+  return [
+    ...diffRows('SETUP', expected.setups, actual.setups, setupKey, [
+      'direction', 'entryZone', 'stopLoss', 'takeProfit', 'status', 'candlesElapsed',
+    ]),
+    ...diffRows('SIGNAL', expected.signals, actual.signals, signalKey, [
+      'entryPrice', 'stopLoss', 'takeProfit', 'outcome', 'outcomeTime',
+    ]),
+  ];
+}
+
+/**
+ * Creates a summary of a replay for logging/display
+ */
+export function summarizeReplay(result: ReplayResult): string {
+  const lines: string[] = [];
+  const closed = result.signals.filter(s => s.outcome !== null);
+  const wins = closed.filter(s => s.outcome === 'WIN').length;
+  const errors = result.ticks.reduce((sum, t) => sum + t.result.errors.length, 0);
+
+  lines.push(`=== REPLAY ${result.timeframe} (${result.pairs.join(', ')}) ===`);
+  lines.push(`Cron runs: ${result.ticks.length}`);
+  if (result.ticks.length > 0) {
+    lines.push(`Period: ${result.ticks[0].time} → ${result.ticks[result.ticks.length - 1].time}`);
+  }
+  lines.push(`Setups: ${result.setups.length} (expired ${result.setups.filter(s => s.status === 'EXPIRED').length})`);
+  lines.push(`Signals: ${result.signals.length} (${wins}W / ${closed.length - wins}L, ${result.signals.length - closed.length} open)`);
+  lines.push(`Errors: ${errors}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,223 @@
+// =============================================================================
+// WICKLESS STRATEGY — PIPELINE STORE
+// =============================================================================
+// The persistence operations the cron cycle needs, behind one interface:
+// - supabaseStore: production tables (lib/supabase.ts)
+// - MemoryStore: in-process maps for replays, seeded from a snapshot
+//
+// MemoryStore mirrors the Supabase queries, including their sort order,
+// so a replay walks setups and signals in the same order as production.
+// =============================================================================
+
+import {
+  ActiveSetup,
+  CostBreakdown,
+  Instrument,
+  Signal,
+  SignalOutcome,
+  Timeframe
+} from '../../types/types';
+
+import {
+  setupExists,
+  saveActiveSetup,
+  getActiveSetups,
+  updateSetup,
+  saveSignal,
+  getOpenSignals,
+  updateSignalOutcome,
+  expireOldSetups,
+  logScan
+} from '../supabase';
+import { STRATEGY_CONFIG } from '../config';
+import { DetailedScanResult } from '../signals/scanner';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type OutcomeCosts = Pick<CostBreakdown, 'entryFillPrice' | 'exitFillPrice' | 'netR'>;
+
+export interface SetupUpdates {
+  status?: string;
+  candlesElapsed?: number;
+  // Only update if the setup still has this status (compare-and-set)
+  ifStatus?: string;
+}
+
+export interface PipelineStore {
+  setupExists(pair: Instrument, signalTime: string): Promise<boolean>;
+  saveActiveSetup(setup: ActiveSetup): Promise<ActiveSetup | null>;
+  getActiveSetups(): Promise<ActiveSetup[]>;
+  updateSetup(id: string, updates: SetupUpdates): Promise<boolean>;
+  saveSignal(signal: Signal): Promise<Signal | null>;
+  getOpenSignals(): Promise<Signal[]>;
+  updateSignalOutcome(
+    id: string,
+    outcome: SignalOutcome,
+    outcomeTime: string,
+    outcomePrice?: number,
+    costs?: OutcomeCosts
+  ): Promise<boolean>;
+  expireOldSetups(): Promise<number>;
+  logScan(
+    pairs: Instrument[],
+    timeframe: Timeframe,
+    results: DetailedScanResult[],
+    duration: number
+  ): Promise<void>;
+}
+
+export interface ScanLogEntry {
+  pairs: Instrument[];
+  timeframe: Timeframe;
+  signalsFound: number;
+}
+
+// -----------------------------------------------------------------------------
+// Supabase Store
+// -----------------------------------------------------------------------------
+
+export const supabaseStore: PipelineStore = {
+  setupExists,
+  saveActiveSetup,
+  getActiveSetups,
+  updateSetup,
+  saveSignal,
+  getOpenSignals,
+  updateSignalOutcome,
+  expireOldSetups,
+  logScan,
+};
+
+// -----------------------------------------------------------------------------
+// In-Memory Store
+// -----------------------------------------------------------------------------
+
+export class MemoryStore implements PipelineStore {
+  private setups = new Map<string, ActiveSetup>();
+  private signals = new Map<string, Signal>();
+  private scanLogs: ScanLogEntry[] = [];
+
+  /**
+   * @param setups - Initial setups (e.g., production state at replay start)
+   * @param signals - Initial signals
+   */
+  constructor(setups: ActiveSetup[] = [], signals: Signal[] = []) {
+    setups.forEach(s => this.setups.set(s.id, { ...s }));
+    signals.forEach(s => this.signals.set(s.id, { ...s }));
+  }
+
+  async setupExists(pair: Instrument, signalTime: string): Promise<boolean> {
+    return Array.from(this.setups.values()).some(
+      s => s.pair === pair && s.signalCandleTime === signalTime
+    );
+  }
+
+  async saveActiveSetup(setup: ActiveSetup): Promise<ActiveSetup | null> {
+    this.setups.set(setup.id, { ...setup });
+    return { ...setup };
+  }
+
+  async getActiveSetups(): Promise<ActiveSetup[]> {
+    // Same as Supabase: WAITING, newest first
+    return sortDescending(
+      Array.from(this.setups.values()).filter(s => s.status === 'WAITING'),
+      s => s.createdAt
+    ).map(s => ({ ...s }));
+  }
+
+  async updateSetup(id: string, updates: SetupUpdates): Promise<boolean> {
+    const setup = this.setups.get(id);
+    if (!setup) return false;
+    if (updates.ifStatus && setup.status !== updates.ifStatus) return false;
+
+    if (updates.status) setup.status = updates.status as ActiveSetup['status'];
+    if (updates.candlesElapsed !== undefined) setup.candlesElapsed = updates.candlesElapsed;
+    return true;
+  }
+
+  async saveSignal(signal: Signal): Promise<Signal | null> {
+    this.signals.set(signal.id, { ...signal });
+    return { ...signal };
+  }
+
+  async getOpenSignals(): Promise<Signal[]> {
+    // Same as Supabase: no outcome, latest entry first
+    return sortDescending(
+      Array.from(this.signals.values()).filter(s => s.outcome === null),
+      s => s.entryTime
+    ).map(s => ({ ...s }));
+  }
+
+  async updateSignalOutcome(
+    id: string,
+    outcome: SignalOutcome,
+    outcomeTime: string,
+    _outcomePrice?: number,
+    costs?: OutcomeCosts
+  ): Promise<boolean> {
+    const signal = this.signals.get(id);
+    if (!signal || signal.outcome !== null) return false;
+
+    signal.outcome = outcome;
+    signal.outcomeTime = outcomeTime;
+    if (costs) {
+      signal.entryFillPrice = costs.entryFillPrice;
+      signal.exitFillPrice = costs.exitFillPrice;
+      signal.netR = costs.netR;
+    }
+    return true;
+  }
+
+  async expireOldSetups(): Promise<number> {
+    let expired = 0;
+    this.setups.forEach(setup => {
+      if (setup.status === 'WAITING' && setup.candlesElapsed >= STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY) {
+        setup.status = 'EXPIRED';
+        expired++;
+      }
+    });
+    return expired;
+  }
+
+  async logScan(
+    pairs: Instrument[],
+    timeframe: Timeframe,
+    results: DetailedScanResult[]
+  ): Promise<void> {
+    this.scanLogs.push({
+      pairs,
+      timeframe,
+      signalsFound: results.filter(r => r.wicklessDetected && r.setup).length,
+    });
+  }
+
+  /**
+   * All setups in insertion order, any status
+   */
+  getSetups(): ActiveSetup[] {
+    return Array.from(this.setups.values()).map(s => ({ ...s }));
+  }
+
+  /**
+   * All signals in insertion order, open and closed
+   */
+  getSignals(): Signal[] {
+    return Array.from(this.signals.values()).map(s => ({ ...s }));
+  }
+
+  getScanLogs(): ScanLogEntry[] {
+    return [...this.scanLogs];
+  }
+}
+
+/**
+ * Stable sort by an ISO timestamp, newest first
+ */
+function sortDescending<T>(items: T[], getTime: (item: T) => string): T[] {
+  return items
+    .map((item, index) => ({ item, index, time: new Date(getTime(item)).getTime() }))
+    .sort((a, b) => b.time - a.time || a.index - b.index)
+    .map(entry => entry.item);
+}
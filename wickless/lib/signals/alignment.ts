@@ -0,0 +1,231 @@
+// =============================================================================
+// WICKLESS STRATEGY — HIGHER-TIMEFRAME TREND ALIGNMENT
+// =============================================================================
+// Rule 1 checked one level up: an M15 BUY into an H4 downtrend trades
+// against the bigger trend. Trend on each configured higher timeframe is
+// classified with the same analyzeTrend logic (and that timeframe's swing
+// detector), then per TREND_FILTER_CONFIGS:
+// - RECORD: the trends only go on the scan result
+// - DOWNRANK: conflicting setups are ranked after aligned ones
+// - REJECT: conflicting setups fail validation
+//
+// Backtests build the higher timeframes by resampling the scanned candles
+// (or take them as given) and only see a higher candle once it has closed.
+// =============================================================================
+
+import {
+  Candle,
+  CandleSource,
+  HigherTimeframeTrend,
+  Instrument,
+  Timeframe,
+  Trend,
+  TrendAlignment,
+  TrendFilterConfig
+} from '../../types/types';
+import { STRATEGY_CONFIG, TIMEFRAME_CONFIGS } from '../config';
+import { getCompleteCandles } from '../oanda';
+import { analyzeTrend, selectTrend } from '../detection/trend';
+import { IncrementalTrendAnalyzer } from '../detection/incremental';
+import { getSwingDetector } from '../detection/swingDetectors';
+import { getCandleCloseTime } from '../market/clock';
+import { validateCandles } from '../sources/quality';
+import { canResample, resampleCandles } from '../sources/resample';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TimeframeTrend {
+  timeframe: Timeframe;
+  // Null when it couldn't be classified
+  trend: Trend | null;
+}
+
+// -----------------------------------------------------------------------------
+// Assessment
+// -----------------------------------------------------------------------------
+
+/**
+ * Compares the scanned trend with the higher-timeframe trends
+ *
+ * @param trend - Trend on the scanned timeframe
+ * @param higher - Trends on the higher timeframes
+ * @param config - Filter settings
+ */
+export function assessTrendAlignment(
+  trend: Trend,
+  higher: TimeframeTrend[],
+  config: TrendFilterConfig
+): TrendAlignment {
+  const higherTimeframes: HigherTimeframeTrend[] = higher.map(h => ({
+    ...h,
+    aligned: h.trend !== null && h.trend === trend,
+  }));
+
+  const conflicts = higherTimeframes
+    .filter(h =>
+      h.trend === null ||
+      (h.trend === 'RANGING' ? config.rangingConflicts === true : h.trend !== trend)
+    )
+    .map(h => h.timeframe);
+
+  const aligned = higherTimeframes.filter(h => h.aligned).length;
+
+  return {
+    mode: config.mode,
+    higherTimeframes,
+    conflicts,
+    score: higherTimeframes.length > 0 ? aligned / higherTimeframes.length : 1,
+  };
+}
+
+/**
+ * Why a setup fails the filter, or null when it passes
+ * Only REJECT mode rejects.
+ */
+export function getAlignmentRejection(alignment: TrendAlignment): string | null {
+  if (alignment.mode !== 'REJECT' || alignment.conflicts.length === 0) {
+    return null;
+  }
+
+  const against = alignment.higherTimeframes
+    .filter(h => alignment.conflicts.includes(h.timeframe))
+    .map(h => `${h.timeframe} ${h.trend ?? 'unknown'}`);
+
+  return `Against higher timeframe trend (${against.join(', ')})`;
+}
+
+/**
+ * Orders results so DOWNRANK setups with conflicts come after aligned ones
+ * (stable - otherwise keeps the given order)
+ */
+export function rankByAlignment<T extends { trendAlignment: TrendAlignment | null }>(results: T[]): T[] {
+  const rank = (result: T) =>
+    result.trendAlignment?.mode === 'DOWNRANK' ? result.trendAlignment.score : 1;
+
+  return [...results].sort((a, b) => rank(b) - rank(a));
+}
+
+/**
+ * One-line description for logs (e.g. "H4 UP ✓, D1 DOWN ✗")
+ */
+export function formatTrendAlignment(alignment: TrendAlignment): string {
+  return alignment.higherTimeframes
+    .map(h => `${h.timeframe} ${h.trend ?? 'unknown'} ${h.aligned ? '✓' : alignment.conflicts.includes(h.timeframe) ? '✗' : '-'}`)
+    .join(', ');
+}
+
+// -----------------------------------------------------------------------------
+// Live
+// -----------------------------------------------------------------------------
+
+/**
+ * Fetches and classifies each higher timeframe
+ * A timeframe that can't be fetched comes back with trend null.
+ *
+ * @param pair - Instrument
+ * @param source - Candle source
+ * @param config - Filter settings
+ * @param candleCount - Candles per timeframe
+ */
+export async function fetchHigherTimeframeTrends(
+  pair: Instrument,
+  source: CandleSource,
+  config: TrendFilterConfig,
+  candleCount: number = STRATEGY_CONFIG.CANDLES_TO_FETCH
+): Promise<TimeframeTrend[]> {
+  return Promise.all(config.timeframes.map(async timeframe => {
+    try {
+      const fetched = await source.fetchCandles(pair, timeframe, candleCount);
+      const { candles } = validateCandles(fetched, {
+        granularity: TIMEFRAME_CONFIGS[timeframe].oandaGranularity,
+        pair,
+      });
+      const analysis = analyzeTrend(getCompleteCandles(candles), getSwingDetector(pair, timeframe));
+      return { timeframe, trend: selectTrend(analysis) };
+    } catch (error) {
+      console.error(`Error fetching ${timeframe} trend for ${pair}:`, error);
+      return { timeframe, trend: null };
+    }
+  }));
+}
+
+// -----------------------------------------------------------------------------
+// Historical
+// -----------------------------------------------------------------------------
+
+interface HigherSeries {
+  timeframe: Timeframe;
+  // Null when the timeframe can't be built from the scanned candles
+  candles: Candle[] | null;
+  analyzer: IncrementalTrendAnalyzer;
+  next: number;
+}
+
+/**
+ * Higher-timeframe trends as they stood at each point of a backtest
+ * Times passed to at() must not go backwards.
+ */
+export class HistoricalTrendAlignment {
+  private series: HigherSeries[];
+
+  /**
+   * @param pair - Instrument
+   * @param timeframe - Scanned timeframe
+   * @param candles - Scanned candles (resampled into the higher timeframes)
+   * @param config - Filter settings
+   * @param higherCandles - Candles to use instead of resampling
+   */
+  constructor(
+    pair: Instrument,
+    timeframe: Timeframe,
+    candles: Candle[],
+    config: TrendFilterConfig,
+    higherCandles: Partial<Record<Timeframe, Candle[]>> = {}
+  ) {
+    const base = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+    const complete = getCompleteCandles(candles);
+
+    this.series = config.timeframes.map(higher => {
+      const granularity = TIMEFRAME_CONFIGS[higher].oandaGranularity;
+      const series = higherCandles[higher] ??
+        (canResample(base, granularity) ? resampleCandles(complete, granularity) : null);
+
+      return {
+        timeframe: higher,
+        candles: series ? getCompleteCandles(series) : null,
+        analyzer: new IncrementalTrendAnalyzer(getSwingDetector(pair, higher)),
+        next: 0,
+      };
+    });
+  }
+
+  /**
+   * Trends from the higher candles closed by a time
+   *
+   * @param time - Close of the scanned candle (ms)
+   */
+  at(time: number): TimeframeTrend[] {
+    return this.series.map(entry => {
+      if (!entry.candles) {
+        return { timeframe: entry.timeframe, trend: null };
+      }
+
+      while (
+        entry.next < entry.candles.length &&
+        getCandleCloseTime(entry.candles[entry.next].time, entry.timeframe) <= time
+      ) {
+        entry.analyzer.push(entry.candles[entry.next++]);
+      }
+
+      return {
+        timeframe: entry.timeframe,
+        trend: selectTrend({
+          trend: entry.analyzer.getTrend(),
+          structureTrend: entry.analyzer.getStructureTrend(),
+        }),
+      };
+    });
+  }
+}
@@ -0,0 +1,92 @@
+// =============================================================================
+// WICKLESS STRATEGY — TRANSACTION COST TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostConfig, Signal } from '../../types/types';
+import { calculateTradeCosts } from './costs';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+// 2 pip spread (4 at rollover), 1 pip slippage, $7 per lot at $10 per pip
+const config: CostConfig = {
+  spread: {
+    type: 'TIME_OF_DAY',
+    spread: 0.0002,
+    windows: [{ startHour: 21, endHour: 22, spread: 0.0004 }],
+  },
+  slippage: { type: 'FIXED', slippage: 0.0001 },
+  commissionPerLot: 7,
+  pipValuePerLot: 10,
+};
+
+const COMMISSION = 0.00007;
+
+function signal(direction: 'BUY' | 'SELL'): Signal {
+  const buy = direction === 'BUY';
+  return {
+    id: 'signal-1',
+    setupId: 'setup-1',
+    pair: 'EUR_USD',
+    timeframe: 'M15',
+    direction,
+    entryPrice: 1.1000,
+    stopLoss: buy ? 1.0980 : 1.1020,
+    takeProfit: buy ? 1.1020 : 1.0980,
+    entryTime: '2024-01-02T21:15:00.000Z',
+    outcome: null,
+    outcomeTime: null,
+    entryFillPrice: null,
+    exitFillPrice: null,
+    netR: null,
+    createdAt: '2024-01-02T21:15:00.000Z',
+  };
+}
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-10, `${actual} ≠ ${expected}`);
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('limit entry and take profit fill at the quoted price', () => {
+  for (const direction of ['BUY', 'SELL'] as const) {
+    const trade = signal(direction);
+    const costs = calculateTradeCosts(trade, 'WIN', '2024-01-02T14:00:00.000Z', config);
+
+    assert.equal(costs.entryFillPrice, trade.entryPrice);
+    assert.equal(costs.exitFillPrice, trade.takeProfit);
+    assert.equal(costs.spreadCost, 0);
+    assert.equal(costs.slippageCost, 0);
+    close(costs.commissionCost, COMMISSION);
+    close(costs.totalCost, COMMISSION);
+    close(costs.netR, 1 - COMMISSION / 0.0020);
+  }
+});
+
+test('stop loss pays half the spread at exit plus slippage', () => {
+  const buy = calculateTradeCosts(signal('BUY'), 'LOSS', '2024-01-02T14:00:00.000Z', config);
+  assert.equal(buy.entryFillPrice, 1.1000);
+  close(buy.exitFillPrice, 1.0980 - 0.0001 - 0.0001);
+  close(buy.spreadCost, 0.0001);
+  close(buy.slippageCost, 0.0001);
+  close(buy.totalCost, 0.0002 + COMMISSION);
+  close(buy.netR, -1 - (0.0002 + COMMISSION) / 0.0020);
+
+  const sell = calculateTradeCosts(signal('SELL'), 'LOSS', '2024-01-02T14:00:00.000Z', config);
+  close(sell.exitFillPrice, 1.1020 + 0.0001 + 0.0001);
+  close(sell.netR, buy.netR);
+});
+
+test('stop loss spread is taken at the exit time, not the entry time', () => {
+  // Entry inside the rollover window, exit outside it and vice versa
+  const calm = calculateTradeCosts(signal('BUY'), 'LOSS', '2024-01-02T23:00:00.000Z', config);
+  close(calm.spreadCost, 0.0001);
+
+  const rollover = calculateTradeCosts(signal('BUY'), 'LOSS', '2024-01-03T21:30:00.000Z', config);
+  close(rollover.spreadCost, 0.0002);
+});
@@ -0,0 +1,223 @@
+// =============================================================================
+// WICKLESS STRATEGY — TRANSACTION COST MODEL
+// =============================================================================
+// Turns a gross SL/TP outcome into a net result. Entries at the retracement
+// zone and take profits are limit orders and fill at their quoted price.
+// Stop-loss exits are market orders and pay:
+// - Spread: half the spread at exit time (candles are mid prices). When
+//   levels were checked on bid/ask the spread is already in the fills, so
+//   callers pass withoutSpread(config).
+// - Slippage: adverse fill beyond the stop level
+// Every trade also pays commission: round-turn per lot, converted to price
+// via pip value.
+//
+// Net R = (exit fill - entry fill) × direction - commission, divided by the
+// planned risk (entry zone to stop loss).
+// =============================================================================
+
+import { CostBreakdown, CostConfig, Instrument, Signal, SignalOutcome } from '../../types/types';
+import { getCostConfig, getPipMultiplier } from '../config';
+
+// -----------------------------------------------------------------------------
+// R Multiples
+// -----------------------------------------------------------------------------
+
+/**
+ * Calculates the gross R multiple of a closed signal (no costs).
+ * WIN = reward / risk, LOSS = -1, open signals return null.
+ *
+ * @param signal - Signal with entry, SL and TP
+ * @returns R multiple or null if the signal is still open
+ */
+export function calculateGrossRMultiple(signal: Signal): number | null {
+  if (signal.outcome === null) {
+    return null;
+  }
+
+  const risk = Math.abs(signal.entryPrice - signal.stopLoss);
+  if (risk === 0) {
+    return 0;
+  }
+
+  if (signal.outcome === 'WIN') {
+    return Math.abs(signal.takeProfit - signal.entryPrice) / risk;
+  }
+
+  return -1;
+}
+
+/**
+ * Calculates the R multiple of a closed signal, net of costs when they
+ * have been recorded. Falls back to gross R for signals without costs.
+ *
+ * @param signal - Signal with entry, SL and TP
+ * @returns R multiple or null if the signal is still open
+ */
+export function calculateRMultiple(signal: Signal): number | null {
+  if (signal.outcome === null) {
+    return null;
+  }
+  return signal.netR ?? calculateGrossRMultiple(signal);
+}
+
+// -----------------------------------------------------------------------------
+// Cost Components
+// -----------------------------------------------------------------------------
+
+/**
+ * Gets the spread at a given time from a spread model
+ *
+ * @param config - Cost configuration
+ * @param time - ISO timestamp
+ * @returns Spread in price units
+ */
+export function getSpreadAt(config: CostConfig, time: string): number {
+  const model = config.spread;
+
+  if (model.type === 'FIXED') {
+    return model.spread;
+  }
+
+  const hour = new Date(time).getUTCHours();
+  for (const window of model.windows) {
+    const inWindow = window.startHour <= window.endHour
+      ? hour >= window.startHour && hour < window.endHour
+      : hour >= window.startHour || hour < window.endHour; // Wraps midnight
+    if (inWindow) {
+      return window.spread;
+    }
+  }
+
+  return model.spread;
+}
+
+/**
+ * Gets the slippage for one stop-loss fill
+ *
+ * @param config - Cost configuration
+ * @param random - Random source for RANDOM slippage (default: Math.random)
+ * @returns Slippage in price units
+ */
+export function getSlippage(config: CostConfig, random: () => number = Math.random): number {
+  const model = config.slippage;
+
+  switch (model.type) {
+    case 'FIXED':
+      return model.slippage;
+    case 'RANDOM':
+      return random() * model.maxSlippage;
+    case 'NONE':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Converts round-turn commission per lot into price units
+ */
+export function getCommissionInPrice(config: CostConfig, pair: Instrument): number {
+  if (config.commissionPerLot === 0 || config.pipValuePerLot === 0) {
+    return 0;
+  }
+  const commissionPips = config.commissionPerLot / config.pipValuePerLot;
+  return commissionPips / getPipMultiplier(pair);
+}
+
+/**
+ * Copy of a cost configuration with zero spread
+ * For trades whose entry and exit were checked on bid/ask prices.
+ *
+ * @param config - Cost configuration
+ */
+export function withoutSpread(config: CostConfig): CostConfig {
+  return { ...config, spread: { type: 'FIXED', spread: 0 } };
+}
+
+// -----------------------------------------------------------------------------
+// Applying Costs
+// -----------------------------------------------------------------------------
+
+/**
+ * Calculates fills and net R for a closed trade.
+ *
+ * @param signal - Signal with entry, SL, TP and entry time
+ * @param outcome - WIN or LOSS
+ * @param outcomeTime - Time the exit level was hit
+ * @param config - Cost configuration (default: pair config)
+ * @param random - Random source for RANDOM slippage
+ * @returns Cost breakdown with gross and net R
+ */
+export function calculateTradeCosts(
+  signal: Signal,
+  outcome: SignalOutcome,
+  outcomeTime: string,
+  config: CostConfig = getCostConfig(signal.pair),
+  random: () => number = Math.random
+): CostBreakdown {
+  const pair = signal.pair;
+  const sign = signal.direction === 'BUY' ? 1 : -1;
+  const exitLevel = outcome === 'WIN' ? signal.takeProfit : signal.stopLoss;
+  const risk = Math.abs(signal.entryPrice - signal.stopLoss);
+
+  // Limit fills (entry, TP) at the quoted price; a BUY's stop sells at the
+  // bid (below mid), a SELL's buys at the ask
+  const stopped = outcome === 'LOSS';
+  const exitHalfSpread = stopped ? getSpreadAt(config, outcomeTime) / 2 : 0;
+  const slippage = stopped ? getSlippage(config, random) : 0;
+  const commission = getCommissionInPrice(config, pair);
+
+  const entryFillPrice = signal.entryPrice;
+  const exitFillPrice = exitLevel - sign * (exitHalfSpread + slippage);
+
+  const grossMove = (exitLevel - signal.entryPrice) * sign;
+  const netMove = (exitFillPrice - entryFillPrice) * sign - commission;
+
+  const spreadCost = exitHalfSpread;
+  const slippageCost = slippage;
+
+  return {
+    entryFillPrice,
+    exitFillPrice,
+    spreadCost,
+    slippageCost,
+    commissionCost: commission,
+    totalCost: spreadCost + slippageCost + commission,
+    grossR: risk > 0 ? grossMove / risk : 0,
+    netR: risk > 0 ? netMove / risk : 0,
+  };
+}
+
+/**
+ * Returns a copy of a closed signal with fills and net R filled in
+ *
+ * @param signal - Closed signal (outcome and outcomeTime set)
+ * @param config - Cost configuration (default: pair config, null = no costs)
+ * @param random - Random source for RANDOM slippage
+ */
+export function applyTradeCosts(
+  signal: Signal,
+  config: CostConfig | null = getCostConfig(signal.pair),
+  random: () => number = Math.random
+): Signal {
+  if (signal.outcome === null || signal.outcomeTime === null) {
+    return signal;
+  }
+
+  if (config === null) {
+    return {
+      ...signal,
+      entryFillPrice: signal.entryPrice,
+      exitFillPrice: signal.outcome === 'WIN' ? signal.takeProfit : signal.stopLoss,
+      netR: calculateGrossRMultiple(signal),
+    };
+  }
+
+  const costs = calculateTradeCosts(signal, signal.outcome, signal.outcomeTime, config, random);
+
+  return {
+    ...signal,
+    entryFillPrice: costs.entryFillPrice,
+    exitFillPrice: costs.exitFillPrice,
+    netR: costs.netR,
+  };
+}
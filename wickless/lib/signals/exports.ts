@@ -15,11 +15,24 @@ export {
   type DetailedScanResult,
   type MultiScanOptions,
   type MultiScanResult,
+  type HistoricalScanOptions,
 } from './scanner';
 
+// Higher-timeframe trend alignment
+export {
+  assessTrendAlignment,
+  getAlignmentRejection,
+  rankByAlignment,
+  formatTrendAlignment,
+  fetchHigherTimeframeTrends,
+  HistoricalTrendAlignment,
+  type TimeframeTrend,
+} from './alignment';
+
 // Retracement monitoring
 export {
   checkRetracement,
+  isEntryTouched,
   isSetupExpired,
   getRemainingCandles,
   getMovementStatus,
@@ -31,11 +44,46 @@ export {
   simulateRetracement,
 } from './retracement';
 
+// Outcome resolution
+export {
+  resolveOutcome,
+  resolveOutcomeWithDrillDown,
+  applyAmbiguityPolicy,
+  isAmbiguousCandle,
+  getExitPrices,
+  signalToTradeSetup,
+  getCandlePeriod,
+  type OutcomeResolverOptions,
+  type DrillDownOptions,
+} from './outcome';
+
+// Transaction costs
+export {
+  calculateGrossRMultiple,
+  calculateRMultiple,
+  calculateTradeCosts,
+  applyTradeCosts,
+  withoutSpread,
+  getSpreadAt,
+  getSlippage,
+  getCommissionInPrice,
+} from './costs';
+
+// Performance metrics
+export {
+  calculateMetrics,
+  calculateMetricsBreakdown,
+  calculateDailyR,
+  summarizeMetrics,
+  type MetricsOptions,
+} from './metrics';
+
 // Signal manager
 export {
   createActiveSetup,
   createSignal,
   SignalManager,
+  type SignalManagerOptions,
   getSignalManager,
   resetSignalManager,
   formatActiveSetup,
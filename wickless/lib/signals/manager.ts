@@ -10,16 +10,19 @@
 
 import { 
   ActiveSetup, 
+  AmbiguityPolicy,
+  CostConfig,
   Signal, 
   Candle, 
-  Pair, 
+  Instrument, 
   Timeframe,
   SetupStatus,
   SignalOutcome,
   TradeSetup
 } from '../../types/types';
 
-import { STRATEGY_CONFIG } from '../config';
+import { STRATEGY_CONFIG, getCostConfig } from '../config';
+import { getCandleSpread, hasBidAsk } from '../oanda';
 import { DetailedScanResult } from './scanner';
 import { 
   checkRetracement, 
@@ -28,7 +31,9 @@ import {
   getUrgencyLevel,
   monitorSetups 
 } from './retracement';
-import { checkOutcome } from '../detection/structure';
+import { resolveOutcome, signalToTradeSetup } from './outcome';
+import { IdGenerator } from '../pipeline/clock';
+import { applyTradeCosts, calculateGrossRMultiple, calculateRMultiple, withoutSpread } from './costs';
 
 // -----------------------------------------------------------------------------
 // Setup Creation
@@ -45,9 +50,13 @@ function generateId(): string {
  * Creates an ActiveSetup from a scan result
  * 
  * @param scanResult - The scan result with detected signal
+ * @param id - Setup ID (default: timestamp-random)
  * @returns ActiveSetup object ready for storage
  */
-export function createActiveSetup(scanResult: DetailedScanResult): ActiveSetup | null {
+export function createActiveSetup(
+  scanResult: DetailedScanResult,
+  id: string = generateId()
+): ActiveSetup | null {
   if (!scanResult.wicklessDetected || !scanResult.wicklessCandle || !scanResult.setup) {
     return null;
   }
@@ -56,7 +65,7 @@ export function createActiveSetup(scanResult: DetailedScanResult): ActiveSetup |
   const setup = scanResult.setup;
 
   return {
-    id: generateId(),
+    id,
     pair: scanResult.pair,
     timeframe: scanResult.timeframe,
     direction: setup.direction,
@@ -65,6 +74,7 @@ export function createActiveSetup(scanResult: DetailedScanResult): ActiveSetup |
     signalCandleHigh: candle.high,
     signalCandleLow: candle.low,
     signalCandleClose: candle.close,
+    signalSpread: getCandleSpread(candle),
     entryZone: setup.entryZone,
     stopLoss: setup.stopLoss,
     takeProfit: setup.takeProfit,
@@ -79,11 +89,16 @@ export function createActiveSetup(scanResult: DetailedScanResult): ActiveSetup |
  * 
  * @param setup - The active setup that was triggered
  * @param entryTime - Time of entry
+ * @param id - Signal ID (default: timestamp-random)
  * @returns Signal object ready for storage
  */
-export function createSignal(setup: ActiveSetup, entryTime: string): Signal {
+export function createSignal(
+  setup: ActiveSetup,
+  entryTime: string,
+  id: string = generateId()
+): Signal {
   return {
-    id: generateId(),
+    id,
     setupId: setup.id,
     pair: setup.pair,
     timeframe: setup.timeframe,
@@ -94,19 +109,64 @@ export function createSignal(setup: ActiveSetup, entryTime: string): Signal {
     entryTime,
     outcome: null,
     outcomeTime: null,
+    entryFillPrice: null,
+    exitFillPrice: null,
+    netR: null,
     createdAt: new Date().toISOString(),
   };
 }
 
+/**
+ * Sums gross and net R over closed signals
+ * Signals without recorded costs count their gross R as net
+ */
+function sumR(signals: Signal[]): { grossR: number; netR: number } {
+  let grossR = 0;
+  let netR = 0;
+
+  for (const signal of signals) {
+    grossR += calculateGrossRMultiple(signal) ?? 0;
+    netR += calculateRMultiple(signal) ?? 0;
+  }
+
+  return { grossR, netR };
+}
+
 // -----------------------------------------------------------------------------
 // In-Memory Manager (for simple deployments)
 // -----------------------------------------------------------------------------
 
+export interface SignalManagerOptions {
+  // Fallback for candles that hit both SL and TP
+  ambiguityPolicy?: AmbiguityPolicy;
+  // Candles to wait for retracement entry (Rule 4)
+  maxCandlesForEntry?: number;
+  // Transaction costs (default: pair config, null = no costs)
+  costModel?: CostConfig | null;
+  // Random source for RANDOM slippage
+  random?: () => number;
+  // Signal IDs (default: timestamp-random)
+  generateId?: IdGenerator;
+}
+
 export class SignalManager {
   private activeSetups: Map<string, ActiveSetup> = new Map();
   private triggeredSignals: Map<string, Signal> = new Map();
   private expiredSetups: ActiveSetup[] = [];
   private completedSignals: Signal[] = [];
+  private ambiguityPolicy: AmbiguityPolicy;
+  private maxCandlesForEntry: number;
+  private costModel: CostConfig | null | undefined;
+  private random: () => number;
+  private generateId: IdGenerator;
+
+  constructor(options: SignalManagerOptions = {}) {
+    this.ambiguityPolicy = options.ambiguityPolicy ?? STRATEGY_CONFIG.AMBIGUITY_POLICY;
+    this.maxCandlesForEntry = options.maxCandlesForEntry ?? STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY;
+    this.costModel = options.costModel;
+    this.random = options.random ?? Math.random;
+    this.generateId = options.generateId ?? generateId;
+  }
 
   /**
    * Adds a new active setup
@@ -125,7 +185,7 @@ export class SignalManager {
   /**
    * Gets active setups for a specific pair
    */
-  getSetupsForPair(pair: Pair): ActiveSetup[] {
+  getSetupsForPair(pair: Instrument): ActiveSetup[] {
     return this.getActiveSetups().filter(s => s.pair === pair);
   }
 
@@ -162,7 +222,7 @@ export class SignalManager {
    * Returns triggered entries and expired setups
    */
   processNewCandle(
-    pair: Pair,
+    pair: Instrument,
     timeframe: Timeframe,
     candle: Candle
   ): {
@@ -174,7 +234,7 @@ export class SignalManager {
       s => s.pair === pair && s.timeframe === timeframe && s.status === 'WAITING'
     );
 
-    const result = monitorSetups(relevantSetups, candle);
+    const result = monitorSetups(relevantSetups, candle, this.maxCandlesForEntry);
     const triggeredSignals: Signal[] = [];
 
     // Process triggered setups
@@ -184,7 +244,7 @@ export class SignalManager {
       this.activeSetups.set(setup.id, setup);
 
       // Create signal
-      const signal = createSignal(setup, candle.time);
+      const signal = createSignal(setup, candle.time, this.generateId());
       this.triggeredSignals.set(signal.id, signal);
       triggeredSignals.push(signal);
 
@@ -213,10 +273,13 @@ export class SignalManager {
 
   /**
    * Checks outcomes for all triggered signals against a new candle
+   * Lower-timeframe candles for the same period resolve candles that hit both
+   * SL and TP, and find the fill on the entry candle (see outcome.ts)
    */
   checkSignalOutcomes(
-    pair: Pair,
-    candle: Candle
+    pair: Instrument,
+    candle: Candle,
+    lowerCandles: Candle[] = []
   ): Signal[] {
     const closedSignals: Signal[] = [];
     const relevantSignals = this.getTriggeredSignals().filter(
@@ -224,22 +287,26 @@ export class SignalManager {
     );
 
     for (const signal of relevantSignals) {
-      const outcome = checkOutcome(
-        {
-          direction: signal.direction,
-          entryZone: signal.entryPrice,
-          stopLoss: signal.stopLoss,
-          takeProfit: signal.takeProfit,
-          riskPips: 0,
-          structurePoint: { index: 0, time: '', price: 0, type: 'LOW' },
-        },
-        candle.high,
-        candle.low
-      );
-
-      if (outcome !== 'OPEN') {
-        signal.outcome = outcome as SignalOutcome;
-        signal.outcomeTime = candle.time;
+      const resolution = resolveOutcome(signalToTradeSetup(signal), candle, {
+        policy: this.ambiguityPolicy,
+        lowerCandles,
+        entryCandle: signal.entryTime === candle.time,
+      });
+
+      if (resolution.outcome !== 'OPEN') {
+        signal.outcome = resolution.outcome as SignalOutcome;
+        signal.outcomeTime = resolution.outcomeTime;
+
+        // Record fills and net R after spread, slippage and commission
+        // (bid/ask candles already put the spread in the fills)
+        const baseModel = this.costModel === undefined
+          ? getCostConfig(pair)
+          : this.costModel;
+        const costModel = baseModel && hasBidAsk(candle) ? withoutSpread(baseModel) : baseModel;
+        const costed = applyTradeCosts(signal, costModel, this.random);
+        signal.entryFillPrice = costed.entryFillPrice;
+        signal.exitFillPrice = costed.exitFillPrice;
+        signal.netR = costed.netR;
         
         // Move to completed
         this.completedSignals.push(signal);
@@ -255,7 +322,7 @@ export class SignalManager {
    * Checks if a setup already exists for this signal candle
    * Prevents duplicates
    */
-  hasExistingSetup(pair: Pair, signalCandleTime: string): boolean {
+  hasExistingSetup(pair: Instrument, signalCandleTime: string): boolean {
     return this.getActiveSetups().some(
       s => s.pair === pair && s.signalCandleTime === signalCandleTime
     );
@@ -272,10 +339,13 @@ export class SignalManager {
     wins: number;
     losses: number;
     winRate: number;
+    grossR: number;
+    netR: number;
   } {
     const wins = this.completedSignals.filter(s => s.outcome === 'WIN').length;
     const losses = this.completedSignals.filter(s => s.outcome === 'LOSS').length;
     const total = wins + losses;
+    const { grossR, netR } = sumR(this.completedSignals);
 
     return {
       activeSetups: this.activeSetups.size,
@@ -285,29 +355,36 @@ export class SignalManager {
       wins,
       losses,
       winRate: total > 0 ? (wins / total) * 100 : 0,
+      grossR,
+      netR,
     };
   }
 
   /**
    * Gets stats for a specific pair
    */
-  getStatsForPair(pair: Pair): {
+  getStatsForPair(pair: Instrument): {
     wins: number;
     losses: number;
     expired: number;
     winRate: number;
+    grossR: number;
+    netR: number;
   } {
     const pairSignals = this.completedSignals.filter(s => s.pair === pair);
     const wins = pairSignals.filter(s => s.outcome === 'WIN').length;
     const losses = pairSignals.filter(s => s.outcome === 'LOSS').length;
     const expired = this.expiredSetups.filter(s => s.pair === pair).length;
     const total = wins + losses;
+    const { grossR, netR } = sumR(pairSignals);
 
     return {
       wins,
       losses,
       expired,
       winRate: total > 0 ? (wins / total) * 100 : 0,
+      grossR,
+      netR,
     };
   }
 
@@ -0,0 +1,258 @@
+// =============================================================================
+// WICKLESS STRATEGY — PERFORMANCE METRICS
+// =============================================================================
+// Win rate alone hides how much each win pays once RR is configurable.
+// These metrics work from any Signal[] (backtest trades or database rows):
+// - Expectancy, profit factor, average win/loss (all in R)
+// - Max drawdown in R and in % of a fixed-fractional account
+// - Sharpe and Sortino on daily R
+// - Longest win/loss streaks and average time in trade
+//
+// R comes from calculateRMultiple, so results are net of costs whenever
+// the signal has them recorded. Open signals are ignored.
+//
+// A win is a signal with outcome WIN, for every metric: win rate, average
+// win, profit factor and streaks all split trades the same way.
+// =============================================================================
+
+import {
+  MetricsBreakdown,
+  PerformanceMetrics,
+  Signal
+} from '../../types/types';
+import { calculateRMultiple } from './costs';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface MetricsOptions {
+  // Percent of current equity risked per trade, for drawdown % (default: 1)
+  riskPerTrade?: number;
+  // Used to annualize Sharpe/Sortino (default: 260 FX weekdays)
+  tradingDaysPerYear?: number;
+}
+
+interface ClosedTrade {
+  signal: Signal;
+  r: number;
+  outcomeTime: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Closed signals with their R, ordered by exit time
+ */
+function getClosedTrades(signals: Signal[]): ClosedTrade[] {
+  const closed: ClosedTrade[] = [];
+
+  for (const signal of signals) {
+    const r = calculateRMultiple(signal);
+    if (r === null || signal.outcomeTime === null) continue;
+    closed.push({ signal, r, outcomeTime: new Date(signal.outcomeTime).getTime() });
+  }
+
+  return closed.sort((a, b) => a.outcomeTime - b.outcomeTime);
+}
+
+function isWin(trade: ClosedTrade): boolean {
+  return trade.signal.outcome === 'WIN';
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Sums R per UTC day from the first to the last exit.
+ * Weekdays without exits count as 0R; weekends only appear if a trade
+ * closed on them (FX is shut Saturday and most of Sunday).
+ *
+ * @param signals - Signals from a backtest or the database
+ * @returns Daily R values, oldest first
+ */
+export function calculateDailyR(signals: Signal[]): number[] {
+  const trades = getClosedTrades(signals);
+  if (trades.length === 0) {
+    return [];
+  }
+
+  const byDay = new Map<number, number>();
+  for (const trade of trades) {
+    const day = Math.floor(trade.outcomeTime / DAY_MS);
+    byDay.set(day, (byDay.get(day) ?? 0) + trade.r);
+  }
+
+  const firstDay = Math.floor(trades[0].outcomeTime / DAY_MS);
+  const lastDay = Math.floor(trades[trades.length - 1].outcomeTime / DAY_MS);
+  const daily: number[] = [];
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    const r = byDay.get(day);
+    if (r !== undefined) {
+      daily.push(r);
+    } else if (weekday !== 0 && weekday !== 6) {
+      daily.push(0);
+    }
+  }
+
+  return daily;
+}
+
+// -----------------------------------------------------------------------------
+// Metrics
+// -----------------------------------------------------------------------------
+
+/**
+ * Calculates performance metrics for a set of signals.
+ *
+ * @param signals - Signals from a backtest or the database
+ * @param options - Risk per trade and annualization
+ * @returns Metrics over the closed signals
+ */
+export function calculateMetrics(
+  signals: Signal[],
+  options: MetricsOptions = {}
+): PerformanceMetrics {
+  const { riskPerTrade = 1, tradingDaysPerYear = 260 } = options;
+  const trades = getClosedTrades(signals);
+
+  const winRs = trades.filter(isWin).map(t => t.r);
+  const lossRs = trades.filter(t => !isWin(t)).map(t => t.r);
+  const grossProfit = winRs.reduce((sum, r) => sum + r, 0);
+  const grossLoss = Math.abs(lossRs.reduce((sum, r) => sum + r, 0));
+  const totalR = trades.reduce((sum, t) => sum + t.r, 0);
+
+  // Drawdown (R and fixed-fractional %) and streaks in exit order
+  let r = 0;
+  let peakR = 0;
+  let maxDrawdownR = 0;
+  let equity = 1;
+  let peakEquity = 1;
+  let maxDrawdownPercent = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let minutesInTrade = 0;
+
+  for (const trade of trades) {
+    r += trade.r;
+    peakR = Math.max(peakR, r);
+    maxDrawdownR = Math.max(maxDrawdownR, peakR - r);
+
+    equity = Math.max(equity * (1 + (riskPerTrade / 100) * trade.r), 0);
+    peakEquity = Math.max(peakEquity, equity);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, ((peakEquity - equity) / peakEquity) * 100);
+
+    if (isWin(trade)) {
+      winStreak++;
+      lossStreak = 0;
+    } else {
+      lossStreak++;
+      winStreak = 0;
+    }
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
+
+    minutesInTrade += (trade.outcomeTime - new Date(trade.signal.entryTime).getTime()) / 60000;
+  }
+
+  // Sharpe/Sortino on daily R
+  const daily = calculateDailyR(trades.map(t => t.signal));
+  const dailyMean = mean(daily);
+  const stdDev = Math.sqrt(mean(daily.map(d => (d - dailyMean) ** 2)));
+  const downsideDev = Math.sqrt(mean(daily.map(d => Math.min(d, 0) ** 2)));
+  const annualize = Math.sqrt(tradingDaysPerYear);
+
+  const wins = winRs.length;
+
+  return {
+    totalTrades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalR,
+    expectancy: trades.length > 0 ? totalR / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageWinR: mean(winRs),
+    averageLossR: mean(lossRs),
+    maxDrawdownR,
+    maxDrawdownPercent,
+    sharpeRatio: stdDev > 0 ? (dailyMean / stdDev) * annualize : 0,
+    sortinoRatio: downsideDev > 0 ? (dailyMean / downsideDev) * annualize : 0,
+    longestWinStreak,
+    longestLossStreak,
+    averageMinutesInTrade: trades.length > 0 ? minutesInTrade / trades.length : 0,
+  };
+}
+
+/**
+ * Groups signals by a key and calculates metrics per group
+ */
+function metricsBy<K extends string>(
+  signals: Signal[],
+  getKey: (signal: Signal) => K,
+  options: MetricsOptions
+): Partial<Record<K, PerformanceMetrics>> {
+  const groups = new Map<K, Signal[]>();
+  for (const signal of signals) {
+    const key = getKey(signal);
+    const group = groups.get(key) ?? [];
+    group.push(signal);
+    groups.set(key, group);
+  }
+
+  const result: Partial<Record<K, PerformanceMetrics>> = {};
+  groups.forEach((group, key) => {
+    result[key] = calculateMetrics(group, options);
+  });
+  return result;
+}
+
+/**
+ * Calculates metrics overall and broken down by pair, timeframe and direction
+ *
+ * @param signals - Signals from a backtest or the database
+ * @param options - Risk per trade and annualization
+ */
+export function calculateMetricsBreakdown(
+  signals: Signal[],
+  options: MetricsOptions = {}
+): MetricsBreakdown {
+  return {
+    overall: calculateMetrics(signals, options),
+    byPair: metricsBy(signals, s => s.pair, options),
+    byTimeframe: metricsBy(signals, s => s.timeframe, options),
+    byDirection: metricsBy(signals, s => s.direction, options),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Summary Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Creates a summary of performance metrics for logging/display
+ */
+export function summarizeMetrics(metrics: PerformanceMetrics): string {
+  const lines: string[] = [];
+  const profitFactor = metrics.profitFactor === null ? '∞' : metrics.profitFactor.toFixed(2);
+
+  lines.push(`Trades: ${metrics.totalTrades} (${metrics.wins}W / ${metrics.losses}L, ${metrics.winRate.toFixed(1)}%)`);
+  lines.push(`Total: ${metrics.totalR.toFixed(2)}R, expectancy ${metrics.expectancy.toFixed(3)}R`);
+  lines.push(`Profit factor: ${profitFactor}`);
+  lines.push(`Avg win: ${metrics.averageWinR.toFixed(2)}R, avg loss: ${metrics.averageLossR.toFixed(2)}R`);
+  lines.push(`Max drawdown: ${metrics.maxDrawdownR.toFixed(2)}R (${metrics.maxDrawdownPercent.toFixed(1)}%)`);
+  lines.push(`Sharpe: ${metrics.sharpeRatio.toFixed(2)}, Sortino: ${metrics.sortinoRatio.toFixed(2)}`);
+  lines.push(`Streaks: ${metrics.longestWinStreak} wins, ${metrics.longestLossStreak} losses`);
+  lines.push(`Avg time in trade: ${(metrics.averageMinutesInTrade / 60).toFixed(1)}h`);
+
+  return lines.join('\n');
+}
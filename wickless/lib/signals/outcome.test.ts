@@ -0,0 +1,91 @@
+// =============================================================================
+// WICKLESS STRATEGY — OUTCOME RESOLUTION TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, TradeSetup } from '../../types/types';
+import { resolveOutcome } from './outcome';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const setup: TradeSetup = {
+  direction: 'BUY',
+  entryZone: 1.1000,
+  stopLoss: 1.0980,
+  takeProfit: 1.1020,
+  riskPips: 20,
+  structurePoint: { index: 0, time: '', price: 1.0982, type: 'LOW', status: 'CONFIRMED', knownAt: 0 },
+};
+
+function candle(time: string, open: number, high: number, low: number, close: number): Candle {
+  return { time, open, high, low, close, complete: true };
+}
+
+// M15 entry candle: rallies through TP first, then drops to fill the entry
+const entryCandle = candle('2024-01-02T10:00:00.000Z', 1.1010, 1.1025, 1.0995, 1.1000);
+
+const tpBeforeFill = [
+  candle('2024-01-02T10:00:00.000Z', 1.1010, 1.1025, 1.1008, 1.1020),
+  candle('2024-01-02T10:05:00.000Z', 1.1020, 1.1021, 1.0995, 1.0998),
+  candle('2024-01-02T10:10:00.000Z', 1.0998, 1.1005, 1.0996, 1.1000),
+];
+
+// -----------------------------------------------------------------------------
+// Entry candle
+// -----------------------------------------------------------------------------
+
+test('TP before the fill on the entry candle is not a win', () => {
+  const resolution = resolveOutcome(setup, entryCandle, {
+    entryCandle: true,
+    lowerCandles: tpBeforeFill,
+  });
+  assert.equal(resolution.outcome, 'OPEN');
+});
+
+test('entry candle without lower-timeframe data only counts the SL', () => {
+  assert.equal(resolveOutcome(setup, entryCandle, { entryCandle: true }).outcome, 'OPEN');
+
+  const stopped = candle('2024-01-02T10:00:00.000Z', 1.1010, 1.1025, 1.0975, 1.0990);
+  const resolution = resolveOutcome(setup, stopped, { entryCandle: true });
+  assert.equal(resolution.outcome, 'LOSS');
+  assert.equal(resolution.outcomePrice, setup.stopLoss);
+});
+
+test('TP after the fill on the entry candle is a win', () => {
+  const lowerCandles = [
+    candle('2024-01-02T10:00:00.000Z', 1.1010, 1.1012, 1.0995, 1.1005),
+    candle('2024-01-02T10:05:00.000Z', 1.1005, 1.1022, 1.1004, 1.1018),
+    candle('2024-01-02T10:10:00.000Z', 1.1018, 1.1025, 1.1010, 1.1020),
+  ];
+  const resolution = resolveOutcome(setup, entryCandle, { entryCandle: true, lowerCandles });
+  assert.equal(resolution.outcome, 'WIN');
+  assert.equal(resolution.outcomeTime, '2024-01-02T10:05:00.000Z');
+  assert.equal(resolution.method, 'LOWER_TIMEFRAME');
+});
+
+// -----------------------------------------------------------------------------
+// Later candles
+// -----------------------------------------------------------------------------
+
+test('a later candle that only reaches TP is a win', () => {
+  const later = candle('2024-01-02T10:15:00.000Z', 1.1005, 1.1025, 1.1001, 1.1022);
+  const resolution = resolveOutcome(setup, later);
+  assert.equal(resolution.outcome, 'WIN');
+  assert.equal(resolution.method, 'SINGLE_LEVEL');
+});
+
+test('an ambiguous later candle is decided by the lower timeframe', () => {
+  const later = candle('2024-01-02T10:15:00.000Z', 1.1000, 1.1025, 1.0975, 1.1000);
+  const resolution = resolveOutcome(setup, later, {
+    policy: 'PESSIMISTIC',
+    lowerCandles: [
+      candle('2024-01-02T10:15:00.000Z', 1.1000, 1.1025, 1.0999, 1.1020),
+      candle('2024-01-02T10:20:00.000Z', 1.1020, 1.1021, 1.0975, 1.0980),
+    ],
+  });
+  assert.equal(resolution.outcome, 'WIN');
+  assert.equal(resolution.method, 'LOWER_TIMEFRAME');
+});
@@ -0,0 +1,340 @@
+// =============================================================================
+// WICKLESS STRATEGY — OUTCOME RESOLUTION
+// =============================================================================
+// Resolves SL/TP hits for open trades.
+//
+// checkOutcome looks at a single candle's high/low, so a candle whose range
+// spans BOTH the stop loss and the take profit can't tell which came first.
+// This module:
+// 1. Uses checkOutcome directly when only one level is inside the candle
+// 2. Walks lower-timeframe candles (M1/M5) for that period when both are
+// 3. Falls back to an AmbiguityPolicy when finer data can't decide
+//
+// The candle the limit entry filled on is different: a TP printed before
+// the fill isn't a win. Lower-timeframe candles are walked from the first
+// one that touches the entry; on that one, and on the whole entry candle
+// when there is no finer data, only the SL counts and the TP is left for
+// the next candle.
+//
+// SL/TP are checked on the side the exit fills on: BUY closes at the bid,
+// SELL at the ask. Mid-only candles use mid.
+// =============================================================================
+
+import {
+  AmbiguityPolicy,
+  Candle,
+  CandleSource,
+  Instrument,
+  OutcomeResolution,
+  PriceBar,
+  Signal,
+  Timeframe,
+  TradeSetup
+} from '../../types/types';
+
+import { STRATEGY_CONFIG, TIMEFRAME_CONFIGS } from '../config';
+import { checkOutcome } from '../detection/structure';
+import { getCandlePrices, getExitSide } from '../oanda';
+import { getCandleCloseTime } from '../market/clock';
+import { isEntryTouched } from './retracement';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Builds the TradeSetup shape checkOutcome expects from a stored signal
+ */
+export function signalToTradeSetup(signal: Signal): TradeSetup {
+  return {
+    direction: signal.direction,
+    entryZone: signal.entryPrice,
+    stopLoss: signal.stopLoss,
+    takeProfit: signal.takeProfit,
+    riskPips: 0,
+    structurePoint: { index: 0, time: '', price: 0, type: 'LOW', status: 'CONFIRMED', knownAt: 0 },
+  };
+}
+
+/**
+ * Gets the OHLC a trade's SL/TP fill against
+ */
+export function getExitPrices(setup: TradeSetup, candle: Candle): PriceBar {
+  return getCandlePrices(candle, getExitSide(setup.direction));
+}
+
+/**
+ * Checks if a candle's range contains both SL and TP
+ */
+export function isAmbiguousCandle(setup: TradeSetup, candle: Candle): boolean {
+  const prices = getExitPrices(setup, candle);
+  const hitsHigh = setup.direction === 'BUY'
+    ? prices.high >= setup.takeProfit
+    : prices.high >= setup.stopLoss;
+  const hitsLow = setup.direction === 'BUY'
+    ? prices.low <= setup.stopLoss
+    : prices.low <= setup.takeProfit;
+
+  return hitsHigh && hitsLow;
+}
+
+/**
+ * Picks an outcome for an ambiguous candle without finer data.
+ *
+ * OPEN_DISTANCE assumes price travelled open → nearer extreme → far extreme,
+ * so the level on the side closer to the open was touched first.
+ */
+export function applyAmbiguityPolicy(
+  setup: TradeSetup,
+  candle: Candle,
+  policy: AmbiguityPolicy
+): 'WIN' | 'LOSS' {
+  switch (policy) {
+    case 'OPTIMISTIC':
+      return 'WIN';
+    case 'OPEN_DISTANCE': {
+      const prices = getExitPrices(setup, candle);
+      const highFirst = prices.high - prices.open <= prices.open - prices.low;
+      if (setup.direction === 'BUY') {
+        return highFirst ? 'WIN' : 'LOSS';
+      }
+      return highFirst ? 'LOSS' : 'WIN';
+    }
+    case 'PESSIMISTIC':
+    default:
+      return 'LOSS';
+  }
+}
+
+/**
+ * Gets the [from, to) window covered by a candle
+ */
+export function getCandlePeriod(candle: Candle, timeframe: Timeframe): { from: string; to: string } {
+  const start = new Date(candle.time).getTime();
+  const end = getCandleCloseTime(candle.time, timeframe);
+  return {
+    from: new Date(start).toISOString(),
+    to: new Date(end).toISOString(),
+  };
+}
+
+function levelPrice(setup: TradeSetup, outcome: 'WIN' | 'LOSS'): number {
+  return outcome === 'WIN' ? setup.takeProfit : setup.stopLoss;
+}
+
+// -----------------------------------------------------------------------------
+// Resolver
+// -----------------------------------------------------------------------------
+
+export interface OutcomeResolverOptions {
+  policy?: AmbiguityPolicy;
+  // Lower-timeframe candles covering the candle's period (oldest first)
+  lowerCandles?: Candle[];
+  // The candle is the one the entry filled on
+  entryCandle?: boolean;
+}
+
+const OPEN_RESOLUTION: OutcomeResolution = {
+  outcome: 'OPEN',
+  outcomeTime: null,
+  outcomePrice: null,
+  ambiguous: false,
+  method: 'NONE',
+};
+
+/**
+ * Walks lower-timeframe candles until one of them touches a level
+ *
+ * @returns Resolution, or null when none of them touches one
+ */
+function walkLowerCandles(
+  setup: TradeSetup,
+  lowerCandles: Candle[],
+  policy: AmbiguityPolicy
+): OutcomeResolution | null {
+  for (const sub of lowerCandles) {
+    const subPrices = getExitPrices(setup, sub);
+    const subOutcome = checkOutcome(setup, subPrices.high, subPrices.low);
+    if (subOutcome === 'OPEN') continue;
+
+    if (!isAmbiguousCandle(setup, sub)) {
+      return {
+        outcome: subOutcome,
+        outcomeTime: sub.time,
+        outcomePrice: levelPrice(setup, subOutcome),
+        ambiguous: true,
+        method: 'LOWER_TIMEFRAME',
+      };
+    }
+
+    // Still ambiguous at the finer resolution - apply policy to this sub-candle
+    const fallback = applyAmbiguityPolicy(setup, sub, policy);
+    return {
+      outcome: fallback,
+      outcomeTime: sub.time,
+      outcomePrice: levelPrice(setup, fallback),
+      ambiguous: true,
+      method: 'FALLBACK',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a candle reaches the stop loss on its exit side
+ */
+function hitsStopLoss(setup: TradeSetup, candle: Candle): boolean {
+  const prices = getExitPrices(setup, candle);
+  return setup.direction === 'BUY'
+    ? prices.low <= setup.stopLoss
+    : prices.high >= setup.stopLoss;
+}
+
+/**
+ * Resolves the candle the entry filled on, counting only price after the
+ * fill (see the header)
+ */
+function resolveEntryCandle(
+  setup: TradeSetup,
+  candle: Candle,
+  policy: AmbiguityPolicy,
+  lowerCandles: Candle[]
+): OutcomeResolution {
+  const ambiguous = isAmbiguousCandle(setup, candle);
+  const touch = lowerCandles.findIndex(sub => isEntryTouched(setup.direction, setup.entryZone, sub));
+
+  if (touch === -1) {
+    return hitsStopLoss(setup, candle)
+      ? {
+          outcome: 'LOSS',
+          outcomeTime: candle.time,
+          outcomePrice: setup.stopLoss,
+          ambiguous,
+          method: 'SINGLE_LEVEL',
+        }
+      : OPEN_RESOLUTION;
+  }
+
+  const fill = lowerCandles[touch];
+  if (hitsStopLoss(setup, fill)) {
+    return {
+      outcome: 'LOSS',
+      outcomeTime: fill.time,
+      outcomePrice: setup.stopLoss,
+      ambiguous,
+      method: 'LOWER_TIMEFRAME',
+    };
+  }
+
+  return walkLowerCandles(setup, lowerCandles.slice(touch + 1), policy) ?? OPEN_RESOLUTION;
+}
+
+/**
+ * Resolves the outcome of an open trade against one candle.
+ * Lower-timeframe candles are only consulted when the candle is ambiguous,
+ * or when it is the entry candle.
+ *
+ * @param setup - Trade levels
+ * @param candle - Candle to check
+ * @param options - Fallback policy, optional lower-timeframe candles and
+ *   whether this is the entry candle
+ * @returns Outcome with time, price and how it was decided
+ */
+export function resolveOutcome(
+  setup: TradeSetup,
+  candle: Candle,
+  options: OutcomeResolverOptions = {}
+): OutcomeResolution {
+  const {
+    policy = STRATEGY_CONFIG.AMBIGUITY_POLICY,
+    lowerCandles = [],
+    entryCandle = false,
+  } = options;
+
+  if (entryCandle) {
+    return resolveEntryCandle(setup, candle, policy, lowerCandles);
+  }
+
+  const prices = getExitPrices(setup, candle);
+  const outcome = checkOutcome(setup, prices.high, prices.low);
+
+  if (outcome === 'OPEN') {
+    return OPEN_RESOLUTION;
+  }
+
+  if (!isAmbiguousCandle(setup, candle)) {
+    return {
+      outcome,
+      outcomeTime: candle.time,
+      outcomePrice: levelPrice(setup, outcome),
+      ambiguous: false,
+      method: 'SINGLE_LEVEL',
+    };
+  }
+
+  const resolved = walkLowerCandles(setup, lowerCandles, policy);
+  if (resolved) {
+    return resolved;
+  }
+
+  const fallback = applyAmbiguityPolicy(setup, candle, policy);
+  return {
+    outcome: fallback,
+    outcomeTime: candle.time,
+    outcomePrice: levelPrice(setup, fallback),
+    ambiguous: true,
+    method: 'FALLBACK',
+  };
+}
+
+export interface DrillDownOptions {
+  pair: Instrument;
+  timeframe: Timeframe;
+  source: CandleSource;
+  policy?: AmbiguityPolicy;
+  // The candle is the one the entry filled on
+  entryCandle?: boolean;
+}
+
+/**
+ * Resolves an outcome, fetching lower-timeframe candles from the source
+ * only when the candle spans both SL and TP, or is the entry candle and
+ * touches a level.
+ * Fetch failures fall back to the configured policy (entry candle: SL only).
+ *
+ * @param setup - Trade levels
+ * @param candle - Candle to check
+ * @param options - Pair/timeframe for the drill-down fetch and fallback policy
+ * @returns Outcome with time, price and how it was decided
+ */
+export async function resolveOutcomeWithDrillDown(
+  setup: TradeSetup,
+  candle: Candle,
+  options: DrillDownOptions
+): Promise<OutcomeResolution> {
+  const { pair, timeframe, source, policy, entryCandle } = options;
+  const prices = getExitPrices(setup, candle);
+  const needsLowerCandles = entryCandle
+    ? checkOutcome(setup, prices.high, prices.low) !== 'OPEN'
+    : isAmbiguousCandle(setup, candle);
+
+  if (!needsLowerCandles) {
+    return resolveOutcome(setup, candle, { policy, entryCandle });
+  }
+
+  let lowerCandles: Candle[] = [];
+
+  try {
+    const granularity = TIMEFRAME_CONFIGS[timeframe].drillDownGranularity;
+    const { from, to } = getCandlePeriod(candle, timeframe);
+    const fetched = await source.fetchCandlesBetween(pair, granularity, from, to);
+
+    const end = new Date(to).getTime();
+    lowerCandles = fetched.filter(c => new Date(c.time).getTime() < end);
+  } catch (error) {
+    console.error(`Drill-down fetch failed for ${pair} @ ${candle.time}:`, error);
+  }
+
+  return resolveOutcome(setup, candle, { policy, lowerCandles, entryCandle });
+}
@@ -11,10 +11,31 @@
 // - SELL: Wait for price to tap up to the signal candle's High
 //
 // The setup expires after 10 candles if price doesn't retrace.
+//
+// With bid/ask candles the tap is checked where the entry fills:
+// BUY on the ask, SELL on the bid. Mid-only candles use mid.
 // =============================================================================
 
 import { Candle, RetracementCheck, TradeSetup, ActiveSetup } from '../../types/types';
 import { STRATEGY_CONFIG } from '../config';
+import { getCandlePrices, getEntrySide } from '../oanda';
+
+/**
+ * Checks whether a candle reaches a setup's entry zone on its fill side
+ * 
+ * @param direction - Trade direction
+ * @param entryZone - Entry price level
+ * @param candle - Candle to check
+ * @returns Whether the entry would fill
+ */
+export function isEntryTouched(
+  direction: 'BUY' | 'SELL',
+  entryZone: number,
+  candle: Candle
+): boolean {
+  const prices = getCandlePrices(candle, getEntrySide(direction));
+  return direction === 'BUY' ? prices.low <= entryZone : prices.high >= entryZone;
+}
 
 /**
  * Checks if price has retraced to the entry zone.
@@ -22,15 +43,15 @@ import { STRATEGY_CONFIG } from '../config';
  * @param direction - Trade direction
  * @param entryZone - Target price level for entry
  * @param subsequentCandles - Candles after the signal candle
+ * @param maxCandles - Candles to wait for entry (default: 10)
  * @returns Retracement check result
  */
 export function checkRetracement(
   direction: 'BUY' | 'SELL',
   entryZone: number,
-  subsequentCandles: Candle[]
+  subsequentCandles: Candle[],
+  maxCandles: number = STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY
 ): RetracementCheck {
-  const maxCandles = STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY;
-  
   // Only check up to 10 candles (Rule 4)
   const candlesToCheck = subsequentCandles.slice(0, maxCandles);
   
@@ -40,28 +61,15 @@ export function checkRetracement(
     // Only check complete candles for entry
     if (!candle.complete) continue;
     
-    if (direction === 'BUY') {
-      // For BUY: Entry when price retraces DOWN to entry zone
-      // Entry triggers when candle's low touches or goes below entry zone
-      if (candle.low <= entryZone) {
-        return {
-          triggered: true,
-          entryPrice: entryZone,
-          triggerCandle: candle,
-          candlesElapsed: i + 1,
-        };
-      }
-    } else {
-      // For SELL: Entry when price retraces UP to entry zone
-      // Entry triggers when candle's high touches or goes above entry zone
-      if (candle.high >= entryZone) {
-        return {
-          triggered: true,
-          entryPrice: entryZone,
-          triggerCandle: candle,
-          candlesElapsed: i + 1,
-        };
-      }
+    // BUY: price retraces DOWN so the ask low touches the entry zone
+    // SELL: price retraces UP so the bid high touches the entry zone
+    if (isEntryTouched(direction, entryZone, candle)) {
+      return {
+        triggered: true,
+        entryPrice: entryZone,
+        triggerCandle: candle,
+        candlesElapsed: i + 1,
+      };
     }
   }
   
@@ -78,10 +86,14 @@ export function checkRetracement(
  * Checks if a setup should be expired (10 candles passed without entry).
  * 
  * @param candlesElapsed - Number of candles since signal
+ * @param maxCandles - Candles to wait for entry (default: 10)
  * @returns Whether the setup should be expired
  */
-export function isSetupExpired(candlesElapsed: number): boolean {
-  return candlesElapsed >= STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY;
+export function isSetupExpired(
+  candlesElapsed: number,
+  maxCandles: number = STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY
+): boolean {
+  return candlesElapsed >= maxCandles;
 }
 
 /**
@@ -156,11 +168,13 @@ export function getDistancePercent(entryZone: number, currentPrice: number): num
  * 
  * @param setups - Array of active setups to monitor
  * @param newCandle - The latest candle data
+ * @param maxCandles - Candles to wait for entry (default: 10)
  * @returns Categorized results
  */
 export function monitorSetups(
   setups: ActiveSetup[],
-  newCandle: Candle
+  newCandle: Candle,
+  maxCandles: number = STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY
 ): {
   triggered: ActiveSetup[];
   expired: ActiveSetup[];
@@ -178,13 +192,7 @@ export function monitorSetups(
     const newCandlesElapsed = setup.candlesElapsed + 1;
     
     // Check for entry trigger
-    let isTriggered = false;
-    
-    if (setup.direction === 'BUY') {
-      isTriggered = newCandle.low <= setup.entryZone;
-    } else {
-      isTriggered = newCandle.high >= setup.entryZone;
-    }
+    const isTriggered = isEntryTouched(setup.direction, setup.entryZone, newCandle);
     
     if (isTriggered) {
       triggered.push({
@@ -192,7 +200,7 @@ export function monitorSetups(
         candlesElapsed: newCandlesElapsed,
         status: 'TRIGGERED',
       });
-    } else if (isSetupExpired(newCandlesElapsed)) {
+    } else if (isSetupExpired(newCandlesElapsed, maxCandles)) {
       expired.push({
         ...setup,
         candlesElapsed: newCandlesElapsed,
@@ -261,25 +269,27 @@ export function isSetupValid(setup: ActiveSetup): boolean {
  * @param direction - Trade direction
  * @param entryZone - Entry price level
  * @param subsequentCandles - All candles after signal
+ * @param maxCandles - Candles to wait for entry (default: 10)
  * @returns Full simulation result
  */
 export function simulateRetracement(
   signalCandle: Candle,
   direction: 'BUY' | 'SELL',
   entryZone: number,
-  subsequentCandles: Candle[]
+  subsequentCandles: Candle[],
+  maxCandles: number = STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY
 ): {
   entryTriggered: boolean;
   entryCandle: Candle | null;
   candlesToEntry: number;
   expired: boolean;
 } {
-  const result = checkRetracement(direction, entryZone, subsequentCandles);
+  const result = checkRetracement(direction, entryZone, subsequentCandles, maxCandles);
   
   return {
     entryTriggered: result.triggered,
     entryCandle: result.triggerCandle,
     candlesToEntry: result.candlesElapsed,
-    expired: !result.triggered && result.candlesElapsed >= STRATEGY_CONFIG.MAX_CANDLES_FOR_ENTRY,
+    expired: !result.triggered && result.candlesElapsed >= maxCandles,
   };
 }
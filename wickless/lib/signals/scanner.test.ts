@@ -0,0 +1,84 @@
+// =============================================================================
+// WICKLESS STRATEGY — HISTORICAL SCANNER TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, SwingDetectorConfig } from '../../types/types';
+import { analyzeTrend } from '../detection/trend';
+import { createSwingDetector } from '../detection/swingDetectors';
+import { createRandom } from '../backtest/random';
+import { scanHistorical } from './scanner';
+
+// -----------------------------------------------------------------------------
+// Fixture
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+
+/**
+ * Seeded M15 random walk with a slow swing, so trends form and break
+ */
+function fixtureCandles(count: number, seed: number): Candle[] {
+  const random = createRandom(seed);
+  const candles: Candle[] = [];
+  let price = 1.1;
+
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    const close = open + Math.sin(i / 25) * 0.0005 + (random() - 0.5) * 0.0012;
+    candles.push({
+      time: new Date(Date.UTC(2024, 0, 1) + i * M15).toISOString(),
+      open,
+      high: Math.max(open, close) + random() * 0.0005,
+      low: Math.min(open, close) - random() * 0.0005,
+      close,
+      complete: true,
+    });
+    price = close;
+  }
+
+  return candles;
+}
+
+const candles = fixtureCandles(400, 11);
+
+/**
+ * Asserts every incremental result matches the batch analysis of the
+ * candles up to it
+ */
+function assertMatchesBatch(swingDetector: SwingDetectorConfig): void {
+  const results = scanHistorical({
+    pair: 'EUR_USD',
+    timeframe: 'M15',
+    candles,
+    startIndex: 50,
+    swingDetector,
+    trendFilter: { timeframes: [], mode: 'OFF' },
+  });
+  assert.ok(results.length > 300);
+
+  const detector = createSwingDetector(swingDetector);
+  for (const result of results) {
+    const index = candles.findIndex(c => c.time === result.timestamp);
+    const batch = analyzeTrend(candles.slice(0, index + 1), detector);
+    assert.deepEqual(result.trendAnalysis, batch, `mismatch at ${result.timestamp}`);
+  }
+
+  assert.ok(
+    results.some(r => r.trendAnalysis?.trend !== 'RANGING'),
+    'fixture should produce a trend'
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('incremental scan matches batch analyzeTrend with the fractal detector', () => {
+  assertMatchesBatch({ type: 'FRACTAL', lookback: 3 });
+});
+
+test('incremental scan matches batch analyzeTrend with the ATR zigzag', () => {
+  assertMatchesBatch({ type: 'ATR_ZIGZAG', atrPeriod: 14, atrMultiplier: 2 });
+});
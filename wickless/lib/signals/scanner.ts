@@ -2,38 +2,69 @@
 // WICKLESS STRATEGY — SCANNER ORCHESTRATOR
 // =============================================================================
 // Main scanning engine that:
-// 1. Fetches candles from OANDA
-// 2. Analyzes trend (swing points → HH/HL or LH/LL)
+// 1. Fetches candles from a CandleSource (OANDA, proxy, CSV, memory)
+// 2. Analyzes trend (swing points → HH/HL or LH/LL, or market structure
+//    with TREND_METHOD = 'STRUCTURE')
 // 3. Detects wickless candles
 // 4. Calculates SL/TP from structure
 // 5. Returns complete scan results
+//
+// A pair whose candles can't be fetched comes back with status FAILED and
+// the error kind (auth, rate limit, ...), never as a RANGING trend. Given a
+// market calendar, pairs whose market is closed come back CLOSED unfetched.
+//
+// Every fetched series goes through the data-quality check first; repaired
+// candles are analysed, and a series that can't be trusted is reported with
+// dataQuality.trusted = false and never counts as a signal.
+//
+// Swings come from the detector configured for the pair and timeframe
+// (SWING_DETECTOR_RULES - fractal by default, or a zigzag).
+//
+// Tradeable trends are checked against the higher timeframes in
+// TREND_FILTER_CONFIGS (see alignment.ts), which can reject or down-rank
+// setups that go against them.
 // =============================================================================
 
 import { 
   Candle, 
-  Pair, 
+  CandleSource,
+  DataQualityReport,
+  Instrument, 
   Timeframe, 
   Trend,
   TradeSetup,
+  ScanError,
   ScanResult,
+  StrategyParams,
+  SwingDetectorConfig,
+  TrendAlignment,
   TrendAnalysis,
+  TrendFilterConfig,
+  WicklessConfig,
   WicklessResult 
 } from '../../types/types';
 
-import { RECOMMENDED_PAIRS, STRATEGY_CONFIG } from '../config';
+import {
+  RECOMMENDED_PAIRS,
+  STRATEGY_CONFIG,
+  TIMEFRAME_CONFIGS,
+  getSLBuffer,
+  getStrategyParams,
+  getSwingDetectorConfig,
+  getTolerance,
+  getTrendFilterConfig,
+  getWicklessConfig
+} from '../config';
 
 import { 
-  fetchCandles, 
-  fetchCandlesViaProxy,
   getCompleteCandles,
   hasEnoughCandles 
 } from '../oanda';
 
 import { 
-  classifyTrend, 
   analyzeTrend,
-  isTrendTradeable,
-  getAllowedDirection 
+  getAllowedDirection,
+  selectTrend
 } from '../detection/trend';
 
 import { 
@@ -43,26 +74,71 @@ import {
 
 import { 
   calculateTradeSetup,
+  buildTradeSetup,
   validateSetup 
 } from '../detection/structure';
 
+import { IncrementalTrendAnalyzer } from '../detection/incremental';
+
+import { OandaApiError } from '../http';
+
+import { MarketCalendar } from '../market/calendar';
+
+import { summarizeDataQuality, validateCandles } from '../sources/quality';
+
 import { findSwingPoints } from '../detection/swingPoints';
 
+import { createSwingDetector, getSwingDetector } from '../detection/swingDetectors';
+
+import { AtrTracker, calculateATR } from '../detection/volatility';
+
+import { getCandleCloseTime } from '../market/clock';
+
+import {
+  HistoricalTrendAlignment,
+  assessTrendAlignment,
+  fetchHigherTimeframeTrends,
+  formatTrendAlignment,
+  getAlignmentRejection,
+  rankByAlignment
+} from './alignment';
+
 // -----------------------------------------------------------------------------
 // Core Scanner Function
 // -----------------------------------------------------------------------------
 
+/**
+ * Describes a scan failure, keeping the OANDA error kind when there is one
+ */
+function toScanError(error: unknown): ScanError {
+  return {
+    kind: error instanceof OandaApiError ? error.kind : 'UNKNOWN',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
 export interface ScanOptions {
-  pair: Pair;
+  pair: Instrument;
   timeframe: Timeframe;
-  proxyUrl?: string;
+  source: CandleSource;
   candleCount?: number;
+  // Skip the pair when no candle can have closed since its market shut
+  calendar?: MarketCalendar;
+  // Time checked against the calendar (default: now); when given, candles
+  // missing at the end of the series count against data quality
+  now?: Date;
+  // Default: TREND_FILTER_CONFIGS for the timeframe
+  trendFilter?: TrendFilterConfig;
 }
 
 export interface DetailedScanResult extends ScanResult {
   trendAnalysis: TrendAnalysis;
   wicklessResult: WicklessResult;
   setupValidation: { valid: boolean; reason: string } | null;
+  // Null when the trend was RANGING or no filter is configured
+  trendAlignment: TrendAlignment | null;
+  // Null when nothing was fetched
+  dataQuality: DataQualityReport | null;
   candleCount: number;
   scanDuration: number;
 }
@@ -76,12 +152,22 @@ export interface DetailedScanResult extends ScanResult {
  */
 export async function scanPair(options: ScanOptions): Promise<DetailedScanResult> {
   const startTime = Date.now();
-  const { pair, timeframe, proxyUrl, candleCount = STRATEGY_CONFIG.CANDLES_TO_FETCH } = options;
+  const {
+    pair,
+    timeframe,
+    source,
+    candleCount = STRATEGY_CONFIG.CANDLES_TO_FETCH,
+    calendar,
+    now,
+    trendFilter = getTrendFilterConfig(timeframe),
+  } = options;
   
   // Initialize result
   const result: DetailedScanResult = {
     pair,
     timeframe,
+    status: 'OK',
+    error: null,
     trend: 'RANGING',
     wicklessDetected: false,
     wicklessCandle: null,
@@ -95,6 +181,9 @@ export async function scanPair(options: ScanOptions): Promise<DetailedScanResult
       latestHL: null,
       latestLH: null,
       latestLL: null,
+      structureTrend: 'RANGING',
+      structureEvents: [],
+      provisionalSwings: [],
     },
     wicklessResult: {
       isValid: false,
@@ -103,15 +192,32 @@ export async function scanPair(options: ScanOptions): Promise<DetailedScanResult
       candle: null,
     },
     setupValidation: null,
+    trendAlignment: null,
+    dataQuality: null,
     candleCount: 0,
     scanDuration: 0,
   };
 
+  // Nothing new can have printed while the market is closed
+  if (calendar && !calendar.hasRecentCandle(pair, timeframe, now ?? new Date())) {
+    result.status = 'CLOSED';
+    return result;
+  }
+
   try {
-    // Step 1: Fetch candles
-    const candles = proxyUrl 
-      ? await fetchCandlesViaProxy(proxyUrl, pair, timeframe, candleCount)
-      : await fetchCandles(pair, timeframe, candleCount);
+    // Step 1: Fetch candles and check/repair them
+    const fetched = await source.fetchCandles(pair, timeframe, candleCount);
+
+    const { candles, report } = validateCandles(fetched, {
+      granularity: TIMEFRAME_CONFIGS[timeframe].oandaGranularity,
+      pair,
+      calendar,
+      now,
+    });
+    result.dataQuality = report;
+    if (!report.trusted) {
+      console.warn(`Untrusted candles for ${pair}: ${summarizeDataQuality(report)}`);
+    }
     
     const completeCandles = getCompleteCandles(candles);
     result.candleCount = completeCandles.length;
@@ -123,18 +229,35 @@ export async function scanPair(options: ScanOptions): Promise<DetailedScanResult
     }
 
     // Step 2: Analyze trend
-    result.trendAnalysis = analyzeTrend(completeCandles);
-    result.trend = result.trendAnalysis.trend;
+    const detector = getSwingDetector(pair, timeframe);
+    result.trendAnalysis = analyzeTrend(completeCandles, detector);
+    result.trend = selectTrend(result.trendAnalysis);
 
     // Step 3: Check if trend is tradeable
-    if (!isTrendTradeable(completeCandles)) {
+    if (result.trend === 'RANGING') {
       result.scanDuration = Date.now() - startTime;
       return result;
     }
 
+    // Step 3b: Check the higher timeframes
+    if (trendFilter.mode !== 'OFF' && trendFilter.timeframes.length > 0) {
+      const higher = await fetchHigherTimeframeTrends(pair, source, trendFilter, candleCount);
+      result.trendAlignment = assessTrendAlignment(result.trend, higher, trendFilter);
+    }
+
     // Step 4: Get the most recent complete candle and check for wickless
+    // (thresholds per WICKLESS_RULES, ATR measured before the candle)
     const lastCandle = completeCandles[completeCandles.length - 1];
-    const wicklessResult = detectWickless(lastCandle, pair, result.trend);
+    const wicklessConfig = getWicklessConfig(pair, timeframe);
+    const atr = calculateATR(completeCandles.slice(0, -1), wicklessConfig.atrPeriod);
+    const wicklessResult = detectWickless(
+      lastCandle,
+      pair,
+      result.trend,
+      getTolerance(pair),
+      wicklessConfig,
+      atr
+    );
     result.wicklessResult = wicklessResult;
 
     if (!wicklessResult.isValid) {
@@ -153,17 +276,27 @@ export async function scanPair(options: ScanOptions): Promise<DetailedScanResult
         direction,
         wicklessResult.entryZone,
         completeCandles,
-        pair
+        pair,
+        getSLBuffer(pair),
+        STRATEGY_CONFIG.RISK_REWARD_RATIO,
+        detector
       );
 
       if (setup) {
         result.setup = setup;
         result.setupValidation = validateSetup(setup, pair);
+
+        const rejection = result.trendAlignment && getAlignmentRejection(result.trendAlignment);
+        if (rejection && result.setupValidation.valid) {
+          result.setupValidation = { valid: false, reason: rejection };
+        }
       }
     }
 
   } catch (error) {
     console.error(`Scan error for ${pair}:`, error);
+    result.status = 'FAILED';
+    result.error = toScanError(error);
   }
 
   result.scanDuration = Date.now() - startTime;
@@ -175,15 +308,23 @@ export async function scanPair(options: ScanOptions): Promise<DetailedScanResult
 // -----------------------------------------------------------------------------
 
 export interface MultiScanOptions {
-  pairs?: Pair[];
+  pairs?: Instrument[];
   timeframe: Timeframe;
-  proxyUrl?: string;
+  source: CandleSource;
   candleCount?: number;
+  calendar?: MarketCalendar;
+  now?: Date;
+  trendFilter?: TrendFilterConfig;
 }
 
 export interface MultiScanResult {
   results: DetailedScanResult[];
+  // Best first: setups down-ranked by the trend filter come last
   signalsFound: DetailedScanResult[];
+  // Pairs whose scan failed (see result.error)
+  failed: DetailedScanResult[];
+  // Pairs skipped because their market was closed
+  closed: DetailedScanResult[];
   totalDuration: number;
   timestamp: string;
 }
@@ -199,27 +340,33 @@ export async function scanMultiplePairs(options: MultiScanOptions): Promise<Mult
   const { 
     pairs = RECOMMENDED_PAIRS, 
     timeframe, 
-    proxyUrl, 
-    candleCount 
+    source, 
+    candleCount,
+    calendar,
+    now,
+    trendFilter,
   } = options;
 
   // Scan all pairs in parallel
   const scanPromises = pairs.map(pair => 
-    scanPair({ pair, timeframe, proxyUrl, candleCount })
+    scanPair({ pair, timeframe, source, candleCount, calendar, now, trendFilter })
   );
 
   const results = await Promise.all(scanPromises);
 
   // Filter to only valid signals
-  const signalsFound = results.filter(r => 
+  const signalsFound = rankByAlignment(results.filter(r => 
     r.wicklessDetected && 
     r.setup !== null && 
-    r.setupValidation?.valid === true
-  );
+    r.setupValidation?.valid === true &&
+    r.dataQuality?.trusted !== false
+  ));
 
   return {
     results,
     signalsFound,
+    failed: results.filter(r => r.status === 'FAILED'),
+    closed: results.filter(r => r.status === 'CLOSED'),
     totalDuration: Date.now() - startTime,
     timestamp: new Date().toISOString(),
   };
@@ -231,29 +378,31 @@ export async function scanMultiplePairs(options: MultiScanOptions): Promise<Mult
 
 /**
  * Quick check if a pair has a tradeable trend (without full scan)
+ * On fetch failure the trend is RANGING and error says why - check it.
  */
 export async function checkTrend(
-  pair: Pair,
+  pair: Instrument,
   timeframe: Timeframe,
-  proxyUrl?: string
-): Promise<{ pair: Pair; trend: Trend; tradeable: boolean }> {
+  source: CandleSource
+): Promise<{ pair: Instrument; trend: Trend; tradeable: boolean; error: ScanError | null }> {
   try {
-    const candles = proxyUrl
-      ? await fetchCandlesViaProxy(proxyUrl, pair, timeframe, 50)
-      : await fetchCandles(pair, timeframe, 50);
+    const candles = await source.fetchCandles(pair, timeframe, 50);
     
-    const trend = classifyTrend(getCompleteCandles(candles));
+    const analysis = analyzeTrend(getCompleteCandles(candles), getSwingDetector(pair, timeframe));
+    const trend = selectTrend(analysis);
     
     return {
       pair,
       trend,
       tradeable: trend !== 'RANGING',
+      error: null,
     };
   } catch (error) {
     return {
       pair,
       trend: 'RANGING',
       tradeable: false,
+      error: toScanError(error),
     };
   }
 }
@@ -262,15 +411,15 @@ export async function checkTrend(
  * Quick check trends for multiple pairs
  */
 export async function checkAllTrends(
-  pairs: Pair[],
+  pairs: Instrument[],
   timeframe: Timeframe,
-  proxyUrl?: string
-): Promise<Map<Pair, { trend: Trend; tradeable: boolean }>> {
-  const results = new Map<Pair, { trend: Trend; tradeable: boolean }>();
+  source: CandleSource
+): Promise<Map<Instrument, { trend: Trend; tradeable: boolean; error: ScanError | null }>> {
+  const results = new Map<Instrument, { trend: Trend; tradeable: boolean; error: ScanError | null }>();
   
   const promises = pairs.map(async pair => {
-    const result = await checkTrend(pair, timeframe, proxyUrl);
-    results.set(pair, { trend: result.trend, tradeable: result.tradeable });
+    const result = await checkTrend(pair, timeframe, source);
+    results.set(pair, { trend: result.trend, tradeable: result.tradeable, error: result.error });
   });
   
   await Promise.all(promises);
@@ -282,21 +431,52 @@ export async function checkAllTrends(
 // -----------------------------------------------------------------------------
 
 export interface HistoricalScanOptions {
-  pair: Pair;
+  pair: Instrument;
   timeframe: Timeframe;
   candles: Candle[];
   startIndex?: number;
+  // Overrides for STRATEGY_CONFIG / PAIR_CONFIGS (used by the optimizer)
+  params?: Partial<StrategyParams>;
+  // Default: the pair/timeframe's SWING_DETECTOR_RULES entry; a fractal
+  // takes its lookback from params.swingLookback when that's given
+  swingDetector?: SwingDetectorConfig;
+  // Default: TREND_FILTER_CONFIGS for the timeframe
+  trendFilter?: TrendFilterConfig;
+  // Default: WICKLESS_RULES for the pair/timeframe; FIXED ε comes from
+  // params.tolerance
+  wicklessConfig?: WicklessConfig;
+  // Higher-timeframe candles (default: resampled from `candles`)
+  higherTimeframeCandles?: Partial<Record<Timeframe, Candle[]>>;
+  // SL behind a provisional swing when newer (default: PROVISIONAL_SL)
+  provisionalSL?: boolean;
+  // Recent swing highs/lows kept on each result's trendAnalysis (default: all)
+  swingHistoryLimit?: number;
 }
 
 /**
  * Scans historical candles for wickless setups
  * Useful for backtesting without API calls
  * 
+ * Swing points and trend are updated incrementally as each candle is added,
+ * so the scan is O(n) while producing the same results as running the batch
+ * analysis on candles.slice(0, i + 1) at every index. The result at a candle
+ * only uses what was known on its close: swings confirmed by then (knownAt)
+ * and, with provisionalSL, the provisional swings of that moment - never
+ * the later candles that confirm or cancel them.
+ * 
  * @param options - Historical scan configuration
  * @returns Array of scan results at each candle
  */
 export function scanHistorical(options: HistoricalScanOptions): DetailedScanResult[] {
-  const { pair, timeframe, candles, startIndex = 50 } = options;
+  const {
+    pair,
+    timeframe,
+    candles,
+    startIndex = 50,
+    swingHistoryLimit,
+    provisionalSL = STRATEGY_CONFIG.PROVISIONAL_SL,
+  } = options;
+  const params = getStrategyParams(pair, options.params);
   const results: DetailedScanResult[] = [];
   
   // Need enough candles for swing detection
@@ -304,23 +484,45 @@ export function scanHistorical(options: HistoricalScanOptions): DetailedScanResu
     return results;
   }
 
+  const detectorConfig = options.swingDetector ?? getSwingDetectorConfig(pair, timeframe);
+  const analyzer = new IncrementalTrendAnalyzer(
+    createSwingDetector(detectorConfig, options.params?.swingLookback)
+  );
+
+  const trendFilter = options.trendFilter ?? getTrendFilterConfig(timeframe);
+  const higher = trendFilter.mode !== 'OFF' && trendFilter.timeframes.length > 0
+    ? new HistoricalTrendAlignment(pair, timeframe, candles, trendFilter, options.higherTimeframeCandles)
+    : null;
+
+  const wicklessConfig = options.wicklessConfig ?? getWicklessConfig(pair, timeframe);
+  const atr = new AtrTracker(wicklessConfig.atrPeriod);
+  // ATR up to the candle before the latest complete one
+  let atrBefore: number | null = null;
+
   // Scan at each candle position
-  for (let i = startIndex; i < candles.length; i++) {
-    const candleSlice = candles.slice(0, i + 1);
-    const completeCandles = candleSlice.filter(c => c.complete);
-    
-    if (completeCandles.length < 20) continue;
+  for (let i = 0; i < candles.length; i++) {
+    if (candles[i].complete) {
+      analyzer.push(candles[i]);
+      atrBefore = atr.value;
+      atr.push(candles[i]);
+    }
+
+    if (i < startIndex) continue;
+    if (analyzer.length < 20) continue;
 
     const startTime = Date.now();
+    const completeCandles = analyzer.getCandles();
     
     // Analyze trend
-    const trendAnalysis = analyzeTrend(completeCandles);
-    const trend = trendAnalysis.trend;
+    const trendAnalysis = analyzer.getAnalysis(swingHistoryLimit);
+    const trend = selectTrend(trendAnalysis);
     
     // Initialize result
     const result: DetailedScanResult = {
       pair,
       timeframe,
+      status: 'OK',
+      error: null,
       trend,
       wicklessDetected: false,
       wicklessCandle: null,
@@ -334,6 +536,8 @@ export function scanHistorical(options: HistoricalScanOptions): DetailedScanResu
         candle: null,
       },
       setupValidation: null,
+      trendAlignment: null,
+      dataQuality: null,
       candleCount: completeCandles.length,
       scanDuration: 0,
     };
@@ -341,7 +545,20 @@ export function scanHistorical(options: HistoricalScanOptions): DetailedScanResu
     // Check for wickless if trend is tradeable
     if (trend !== 'RANGING') {
       const lastCandle = completeCandles[completeCandles.length - 1];
-      const wicklessResult = detectWickless(lastCandle, pair, trend);
+
+      if (higher) {
+        const closeTime = getCandleCloseTime(lastCandle.time, timeframe);
+        result.trendAlignment = assessTrendAlignment(trend, higher.at(closeTime), trendFilter);
+      }
+
+      const wicklessResult = detectWickless(
+        lastCandle,
+        pair,
+        trend,
+        params.tolerance,
+        wicklessConfig,
+        atrBefore
+      );
       result.wicklessResult = wicklessResult;
 
       if (wicklessResult.isValid) {
@@ -349,17 +566,23 @@ export function scanHistorical(options: HistoricalScanOptions): DetailedScanResu
         result.wicklessCandle = wicklessResult.candle;
 
         const direction = getAllowedDirection(trend);
-        if (direction && wicklessResult.entryZone !== null) {
-          const setup = calculateTradeSetup(
+        const structurePoint = direction ? analyzer.getStructureForSL(direction, provisionalSL) : null;
+        if (direction && structurePoint && wicklessResult.entryZone !== null) {
+          const setup = buildTradeSetup(
             direction,
             wicklessResult.entryZone,
-            completeCandles,
-            pair
+            structurePoint,
+            pair,
+            params.slBuffer,
+            params.riskRewardRatio
           );
 
-          if (setup) {
-            result.setup = setup;
-            result.setupValidation = validateSetup(setup, pair);
+          result.setup = setup;
+          result.setupValidation = validateSetup(setup, pair);
+
+          const rejection = result.trendAlignment && getAlignmentRejection(result.trendAlignment);
+          if (rejection && result.setupValidation.valid) {
+            result.setupValidation = { valid: false, reason: rejection };
           }
         }
       }
@@ -383,9 +606,25 @@ export function summarizeScanResult(result: DetailedScanResult): string {
   const lines: string[] = [];
   
   lines.push(`=== ${result.pair} @ ${result.timeframe} ===`);
+
+  if (result.status === 'FAILED') {
+    lines.push(`❌ SCAN FAILED (${result.error?.kind})`);
+    lines.push(`Error: ${result.error?.message}`);
+    return lines.join('\n');
+  }
+
+  if (result.status === 'CLOSED') {
+    lines.push('⏸️ MARKET CLOSED - not scanned');
+    return lines.join('\n');
+  }
+
   lines.push(`Trend: ${result.trend}`);
   lines.push(`Candles analyzed: ${result.candleCount}`);
   lines.push(`Scan duration: ${result.scanDuration}ms`);
+  if (result.dataQuality) {
+    const icon = result.dataQuality.trusted ? '' : '⚠️ ';
+    lines.push(`${icon}Data quality: ${summarizeDataQuality(result.dataQuality)}`);
+  }
   
   if (result.wicklessDetected) {
     lines.push(`✅ WICKLESS SIGNAL DETECTED`);
@@ -398,6 +637,9 @@ export function summarizeScanResult(result: DetailedScanResult): string {
     if (result.setupValidation) {
       lines.push(`Validation: ${result.setupValidation.valid ? '✅' : '❌'} ${result.setupValidation.reason}`);
     }
+    if (result.trendAlignment) {
+      lines.push(`Higher timeframes: ${formatTrendAlignment(result.trendAlignment)}`);
+    }
   } else {
     lines.push(`No signal detected`);
     if (result.trend === 'RANGING') {
@@ -419,14 +661,28 @@ export function summarizeMultiScan(result: MultiScanResult): string {
   lines.push(`Total duration: ${result.totalDuration}ms`);
   lines.push(`Pairs scanned: ${result.results.length}`);
   lines.push(`Signals found: ${result.signalsFound.length}`);
+  lines.push(`Failed: ${result.failed.length}`);
+  lines.push(`Market closed: ${result.closed.length}`);
   lines.push('');
   
   // Trend summary
   lines.push('Trend Summary:');
   for (const r of result.results) {
+    if (r.status === 'FAILED') {
+      lines.push(`  ❌ ${r.pair}: FAILED (${r.error?.kind}) ${r.error?.message ?? ''}`);
+      continue;
+    }
+    if (r.status === 'CLOSED') {
+      lines.push(`  ⏸️ ${r.pair}: MARKET CLOSED`);
+      continue;
+    }
     const icon = r.trend === 'UP' ? '📈' : r.trend === 'DOWN' ? '📉' : '➖';
     const signal = r.wicklessDetected ? '🎯' : '';
-    lines.push(`  ${icon} ${r.pair}: ${r.trend} ${signal}`);
+    const untrusted = r.dataQuality?.trusted === false ? '⚠️ untrusted data' : '';
+    const against = r.trendAlignment?.conflicts.length
+      ? ` ↯ against ${r.trendAlignment.conflicts.join('/')}`
+      : '';
+    lines.push(`  ${icon} ${r.pair}: ${r.trend} ${signal}${untrusted}${against}`);
   }
   
   // Signal details
@@ -0,0 +1,137 @@
+// =============================================================================
+// WICKLESS STRATEGY — CSV FILE CANDLE SOURCE
+// =============================================================================
+// Reads candles from one CSV file per pair/granularity, e.g.
+//   data/EUR_USD_M15.csv
+//   data/EUR_USD_M1.csv
+//
+// Default layout: time,open,high,low,close[,volume] with ISO timestamps,
+// plus optional bid_open..bid_close and ask_open..ask_close columns.
+// Pass import options to read MT4/MT5/HistData exports directly.
+// Files are read once and kept in memory.
+// =============================================================================
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Candle, CandleSource, Instrument, PriceBar, Timeframe } from '../../types/types';
+import { TIMEFRAME_CONFIGS } from '../config';
+import { importCandles, ImportOptions } from './importer';
+
+export interface CsvSourceOptions {
+  // File name for a pair/granularity (default: `${pair}_${granularity}.csv`)
+  fileName?: (pair: Instrument, granularity: string) => string;
+  // Parse files with the importer (format, timezone) instead of the default layout
+  import?: ImportOptions;
+}
+
+export const BID_ASK_CSV_COLUMNS = [
+  'bid_open', 'bid_high', 'bid_low', 'bid_close',
+  'ask_open', 'ask_high', 'ask_low', 'ask_close',
+];
+
+/**
+ * Parses CSV text in the time,open,high,low,close[,volume] layout
+ * Bid/ask are read when all eight bid_/ask_ columns are present.
+ *
+ * @param text - File contents with a header row
+ * @returns Candles sorted oldest first, all complete
+ */
+export function parseCandleCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const [time, open, high, low, close, volume] =
+    ['time', 'open', 'high', 'low', 'close', 'volume'].map(column);
+
+  if ([time, open, high, low, close].some(i => i < 0)) {
+    throw new Error(`CSV header must include time,open,high,low,close (got: ${lines[0]})`);
+  }
+
+  const bidAsk = BID_ASK_CSV_COLUMNS.map(column);
+  const hasBidAsk = bidAsk.every(i => i >= 0);
+  const bar = (cells: string[], [o, h, l, c]: number[]): PriceBar => ({
+    open: parseFloat(cells[o]),
+    high: parseFloat(cells[h]),
+    low: parseFloat(cells[l]),
+    close: parseFloat(cells[c]),
+  });
+
+  const candles = lines.slice(1).map(line => {
+    const cells = line.split(',');
+    const candle: Candle = {
+      time: new Date(cells[time].trim()).toISOString(),
+      open: parseFloat(cells[open]),
+      high: parseFloat(cells[high]),
+      low: parseFloat(cells[low]),
+      close: parseFloat(cells[close]),
+      volume: volume >= 0 ? parseFloat(cells[volume]) : undefined,
+      complete: true,
+    };
+    if (hasBidAsk) {
+      candle.bid = bar(cells, bidAsk.slice(0, 4));
+      candle.ask = bar(cells, bidAsk.slice(4));
+    }
+    return candle;
+  });
+
+  return candles.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+export class CsvSource implements CandleSource {
+  readonly name: string;
+  private files = new Map<string, Promise<Candle[]>>();
+  private readonly fileName: (pair: Instrument, granularity: string) => string;
+  private readonly importOptions: ImportOptions | null;
+
+  /**
+   * @param directory - Folder containing the CSV files
+   * @param options - File naming
+   */
+  constructor(private readonly directory: string, options: CsvSourceOptions = {}) {
+    this.name = `csv(${directory})`;
+    this.fileName = options.fileName ?? ((pair, granularity) => `${pair}_${granularity}.csv`);
+    this.importOptions = options.import ?? null;
+  }
+
+  async fetchCandles(pair: Instrument, timeframe: Timeframe, count: number): Promise<Candle[]> {
+    const candles = await this.load(pair, TIMEFRAME_CONFIGS[timeframe].oandaGranularity);
+    return candles.slice(-count);
+  }
+
+  async fetchCandlesBetween(
+    pair: Instrument,
+    granularity: string,
+    from: string,
+    to: string
+  ): Promise<Candle[]> {
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+    const candles = await this.load(pair, granularity);
+
+    return candles.filter(c => {
+      const time = new Date(c.time).getTime();
+      return time >= start && time < end;
+    });
+  }
+
+  private load(pair: Instrument, granularity: string): Promise<Candle[]> {
+    const path = join(this.directory, this.fileName(pair, granularity));
+    let file = this.files.get(path);
+
+    if (!file) {
+      const importOptions = this.importOptions;
+      file = readFile(path, 'utf8').then(text => importOptions
+        ? importCandles(text, { ...importOptions, granularity: importOptions.granularity ?? granularity }).candles
+        : parseCandleCsv(text));
+      // Don't keep failed reads around - the file may appear later
+      file.catch(() => this.files.delete(path));
+      this.files.set(path, file);
+    }
+
+    return file;
+  }
+}
@@ -0,0 +1,107 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE SOURCE DECORATORS
+// =============================================================================
+// Wrap any CandleSource to add behaviour without touching it:
+// - withCache: reuse results for a short TTL and share in-flight requests
+//   (the cron cycle asks for the same pair's candles once per setup/signal)
+// - withRetry: retry failed requests with exponential backoff (permanent
+//   OANDA errors such as AUTH are rethrown at once)
+//
+// Decorators compose: withCache(withRetry(createProxySource(url)))
+// =============================================================================
+
+import { Candle, CandleSource } from '../../types/types';
+import { isRetryableError } from '../http';
+
+// -----------------------------------------------------------------------------
+// Caching
+// -----------------------------------------------------------------------------
+
+export interface CacheOptions {
+  // How long a result stays fresh (default: 30s)
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Caches fetches by their arguments for a limited time
+ *
+ * @param source - Source to wrap
+ * @param options - TTL and time source
+ */
+export function withCache(source: CandleSource, options: CacheOptions = {}): CandleSource {
+  const { ttlMs = 30 * 1000, now = Date.now } = options;
+  const cache = new Map<string, { expires: number; result: Promise<Candle[]> }>();
+
+  const cached = (key: string, fetch: () => Promise<Candle[]>): Promise<Candle[]> => {
+    const entry = cache.get(key);
+    if (entry && entry.expires > now()) {
+      return entry.result;
+    }
+
+    const result = fetch();
+    cache.set(key, { expires: now() + ttlMs, result });
+    // Failures are not cached
+    result.catch(() => cache.delete(key));
+    return result;
+  };
+
+  return {
+    name: `cache(${source.name})`,
+    fetchCandles: (pair, timeframe, count) =>
+      cached(`${pair}|${timeframe}|${count}`, () => source.fetchCandles(pair, timeframe, count)),
+    fetchCandlesBetween: (pair, granularity, from, to) =>
+      cached(`${pair}|${granularity}|${from}|${to}`, () =>
+        source.fetchCandlesBetween(pair, granularity, from, to)),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Retries
+// -----------------------------------------------------------------------------
+
+export interface RetryOptions {
+  // Total attempts including the first (default: 3)
+  attempts?: number;
+  // Delay before the first retry, doubled each time (default: 500ms)
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retries failed fetches with exponential backoff
+ *
+ * @param source - Source to wrap
+ * @param options - Attempts and delays
+ */
+export function withRetry(source: CandleSource, options: RetryOptions = {}): CandleSource {
+  const { attempts = 3, baseDelayMs = 500, sleep = defaultSleep } = options;
+
+  const retry = async (fetch: () => Promise<Candle[]>): Promise<Candle[]> => {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      try {
+        return await fetch();
+      } catch (error) {
+        lastError = error;
+        if (!isRetryableError(error)) break;
+        if (attempt < attempts - 1) {
+          await sleep(baseDelayMs * 2 ** attempt);
+        }
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    name: `retry(${source.name})`,
+    fetchCandles: (pair, timeframe, count) =>
+      retry(() => source.fetchCandles(pair, timeframe, count)),
+    fetchCandlesBetween: (pair, granularity, from, to) =>
+      retry(() => source.fetchCandlesBetween(pair, granularity, from, to)),
+  };
+}
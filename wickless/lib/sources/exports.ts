@@ -0,0 +1,86 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE SOURCES MODULE EXPORTS
+// =============================================================================
+
+// OANDA
+export {
+  createOandaSource,
+  createProxySource,
+} from './oanda';
+
+// Offline sources
+export {
+  MemorySource,
+} from './memory';
+
+export {
+  CsvSource,
+  parseCandleCsv,
+  type CsvSourceOptions,
+} from './csv';
+
+// Importer for MT4/MT5/HistData exports
+export {
+  importCandles,
+  importCandleFile,
+  detectFormat,
+  summarizeImport,
+  type ImportFormat,
+  type ImportTimezone,
+  type ImportOptions,
+  type ImportIssue,
+  type ImportResult,
+} from './importer';
+
+// Decorators
+export {
+  withCache,
+  withRetry,
+  type CacheOptions,
+  type RetryOptions,
+} from './decorators';
+
+// Environment-based default
+export {
+  createCandleSourceFromEnv,
+  type CandleSourceType,
+  type CandleSourceResult,
+} from './factory';
+
+// Long-range history
+export {
+  fetchHistory,
+  splitHistoryRange,
+  OANDA_MAX_CANDLES,
+  type HistoryChunk,
+  type HistoryProgress,
+  type HistoryOptions,
+  type HistoryResult,
+} from './history';
+
+// Local candle store
+export {
+  LocalCandleStore,
+  findCandleGaps,
+  type CandleGap,
+  type CandleSyncResult,
+  type LocalCandleStoreOptions,
+} from './store';
+
+// Derived timeframes
+export {
+  resampleCandles,
+  canResample,
+  getResampleRatio,
+  withResampling,
+  type ResampleOptions,
+  type ResamplingOptions,
+} from './resample';
+
+// Data quality
+export {
+  validateCandles,
+  summarizeDataQuality,
+  type CandleValidationOptions,
+  type CandleValidationResult,
+} from './quality';
@@ -0,0 +1,78 @@
+// =============================================================================
+// WICKLESS STRATEGY — DEFAULT CANDLE SOURCE TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InstrumentInfo } from '../../types/types';
+import { toInstrument } from '../config';
+import { loadInstrumentCatalogFromEnv } from './factory';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+function instrument(name: string): InstrumentInfo {
+  return {
+    name,
+    type: 'CURRENCY',
+    displayName: name.replace('_', '/'),
+    pipLocation: -4,
+    displayPrecision: 5,
+    tradeUnitsPrecision: 0,
+    marginRate: 0.05,
+  };
+}
+
+/**
+ * Runs a test with a scratch directory that is removed afterwards
+ */
+async function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'wickless-catalog-'));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('a failed catalog load is retried on the next call', async () => {
+  await withTempDir(async dir => {
+    const env = { INSTRUMENTS_FILE: join(dir, 'instruments.json') };
+
+    assert.equal(await loadInstrumentCatalogFromEnv(env), 0);
+    assert.equal(toInstrument('AAA_USD'), null);
+
+    await writeFile(env.INSTRUMENTS_FILE, JSON.stringify([instrument('AAA_USD')]));
+    assert.equal(await loadInstrumentCatalogFromEnv(env), 1);
+    assert.equal(toInstrument('AAA_USD'), 'AAA_USD');
+  });
+});
+
+test('a loaded source is not read again, another one is', async () => {
+  await withTempDir(async dir => {
+    const first = { INSTRUMENTS_FILE: join(dir, 'first.json') };
+    const second = { INSTRUMENTS_FILE: join(dir, 'second.json') };
+    await writeFile(first.INSTRUMENTS_FILE, JSON.stringify([instrument('BBB_USD')]));
+    await writeFile(second.INSTRUMENTS_FILE, JSON.stringify([instrument('CCC_USD')]));
+
+    const [a, b] = [loadInstrumentCatalogFromEnv(first), loadInstrumentCatalogFromEnv(first)];
+    assert.equal(a, b);
+    assert.equal(await a, 1);
+
+    // Cached: a changed file isn't picked up for the same source
+    await writeFile(first.INSTRUMENTS_FILE, JSON.stringify([instrument('DDD_USD')]));
+    await loadInstrumentCatalogFromEnv(first);
+    assert.equal(toInstrument('DDD_USD'), null);
+
+    assert.equal(await loadInstrumentCatalogFromEnv(second), 1);
+    assert.equal(toInstrument('CCC_USD'), 'CCC_USD');
+  });
+});
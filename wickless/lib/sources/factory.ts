@@ -0,0 +1,134 @@
+// =============================================================================
+// WICKLESS STRATEGY — DEFAULT CANDLE SOURCE
+// =============================================================================
+// Builds the source API routes use from environment variables:
+// - CANDLE_SOURCE: 'proxy' | 'oanda' | 'csv'
+//   (default: 'proxy' when OANDA_PROXY_URL is set, otherwise 'oanda')
+// - OANDA_PROXY_URL: proxy server for 'proxy'
+// - CANDLE_CSV_DIR: folder of CSV files for 'csv'
+// - CANDLE_STORE_DIR: optional local candle store for network sources
+// - CANDLE_RESAMPLE_BASE: optional timeframe (e.g., 'M15') to fetch once per
+//   pair and resample into the higher timeframes
+//
+// Network sources retry inside the request layer (lib/http.ts) and are
+// wrapped with a short cache, and with the local store when CANDLE_STORE_DIR
+// is set.
+//
+// Also fills the instrument catalog (lib/market/instruments.ts):
+// - INSTRUMENTS_FILE: snapshot file (saved catalog or raw OANDA response)
+// - otherwise OANDA's account instruments when OANDA_API_KEY is set
+// =============================================================================
+
+import { CandleSource } from '../../types/types';
+import { OANDA_CONFIG, isValidTimeframe } from '../config';
+import { fetchAccountInstruments } from '../oanda';
+import { instrumentCatalog } from '../market/instruments';
+import { createOandaSource, createProxySource } from './oanda';
+import { CsvSource } from './csv';
+import { withCache } from './decorators';
+import { LocalCandleStore } from './store';
+import { withResampling } from './resample';
+
+export type CandleSourceType = 'proxy' | 'oanda' | 'csv';
+
+export interface CandleSourceResult {
+  source: CandleSource | null;
+  // Why no source could be built (missing configuration)
+  error: string | null;
+}
+
+/**
+ * Creates the configured candle source
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns Source, or an error describing the missing configuration
+ */
+export function createCandleSourceFromEnv(
+  env: Record<string, string | undefined> = process.env
+): CandleSourceResult {
+  const proxyUrl = env.OANDA_PROXY_URL || '';
+  const type = (env.CANDLE_SOURCE || (proxyUrl ? 'proxy' : 'oanda')) as CandleSourceType;
+  const storeDir = env.CANDLE_STORE_DIR || '';
+  const resampleBase = env.CANDLE_RESAMPLE_BASE || '';
+
+  if (resampleBase && !isValidTimeframe(resampleBase)) {
+    return { source: null, error: `Unknown CANDLE_RESAMPLE_BASE: ${resampleBase}` };
+  }
+
+  // Only candles missing from the store go over the network, and the
+  // resampler sits outside the cache so timeframes share the base fetch
+  const network = (source: CandleSource): CandleSource => {
+    const cached = storeDir
+      ? withCache(new LocalCandleStore(storeDir, source))
+      : withCache(source);
+    return resampleBase && isValidTimeframe(resampleBase)
+      ? withResampling(cached, { base: resampleBase })
+      : cached;
+  };
+
+  switch (type) {
+    case 'proxy':
+      if (!proxyUrl) {
+        return { source: null, error: 'OANDA_PROXY_URL not configured' };
+      }
+      return { source: network(createProxySource(proxyUrl)), error: null };
+
+    case 'oanda':
+      if (!OANDA_CONFIG.API_KEY) {
+        return { source: null, error: 'OANDA_API_KEY not configured' };
+      }
+      return { source: network(createOandaSource()), error: null };
+
+    case 'csv':
+      if (!env.CANDLE_CSV_DIR) {
+        return { source: null, error: 'CANDLE_CSV_DIR not configured' };
+      }
+      return { source: new CsvSource(env.CANDLE_CSV_DIR), error: null };
+
+    default:
+      return { source: null, error: `Unknown CANDLE_SOURCE: ${type}` };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Instrument Catalog
+// -----------------------------------------------------------------------------
+
+// Loads in flight or done, by source ('file:<path>' or 'oanda')
+const catalogLoads = new Map<string, Promise<number>>();
+
+/**
+ * Registers instruments from the configured snapshot file or OANDA
+ * Each source loads once per process. Failures are logged, the built-in
+ * instruments stay available, and the next call tries again.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns Number of instruments registered (0 when nothing was loaded)
+ */
+export function loadInstrumentCatalogFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Promise<number> {
+  const file = env.INSTRUMENTS_FILE;
+  const key = file
+    ? `file:${file}`
+    : OANDA_CONFIG.API_KEY && OANDA_CONFIG.ACCOUNT_ID ? 'oanda' : null;
+  if (!key) return Promise.resolve(0);
+
+  let load = catalogLoads.get(key);
+  if (!load) {
+    load = (async () => {
+      try {
+        return file
+          ? await instrumentCatalog.loadSnapshot(file)
+          : instrumentCatalog.register(await fetchAccountInstruments());
+      } catch (error) {
+        console.error('Error loading instrument catalog:', error);
+        catalogLoads.delete(key);
+        return 0;
+      }
+    })();
+    catalogLoads.set(key, load);
+  }
+
+  return load;
+}
@@ -0,0 +1,195 @@
+// =============================================================================
+// WICKLESS STRATEGY — LONG-RANGE HISTORY FETCHER
+// =============================================================================
+// OANDA returns at most 5000 candles per request, so multi-year backtests
+// need many requests. fetchHistory:
+// 1. Splits [from, to) into chunks of at most `chunkSize` candles
+// 2. Fetches chunks through any CandleSource with bounded concurrency
+// 3. Stitches them in time order and drops duplicates at chunk edges
+// 4. Reports progress after each chunk
+//
+// OANDA and proxy sources retry inside lib/http.ts, so one failed request
+// doesn't abort a long download; wrap other flaky sources with withRetry.
+// A chunk that still fails stops the download: no worker starts another
+// chunk, and the chunk's original error (e.g. OandaApiError) is rethrown.
+// =============================================================================
+
+import { Candle, CandleSource, Instrument } from '../../types/types';
+import { getGranularityMinutes } from '../config';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface HistoryChunk {
+  from: string;
+  to: string;
+}
+
+export interface HistoryProgress {
+  completedChunks: number;
+  totalChunks: number;
+  candlesFetched: number;
+  // Chunk that just finished
+  chunk: HistoryChunk;
+}
+
+export interface HistoryOptions {
+  pair: Instrument;
+  // OANDA granularity, e.g. TIMEFRAME_CONFIGS.M15.oandaGranularity
+  granularity: string;
+  from: string;
+  to: string;
+  // Max candles per request (default: 4500, OANDA limit: 5000)
+  chunkSize?: number;
+  // Requests in flight at once (default: 4)
+  concurrency?: number;
+  // Keep the still-forming candle at the end (default: false)
+  includeIncomplete?: boolean;
+  onProgress?: (progress: HistoryProgress) => void;
+}
+
+export interface HistoryResult {
+  pair: Instrument;
+  granularity: string;
+  candles: Candle[];
+  chunks: number;
+  duplicates: number;
+  duration: number;
+}
+
+export const OANDA_MAX_CANDLES = 5000;
+
+// OANDA may include the candle at `to`, so leave headroom under the limit
+const DEFAULT_CHUNK_SIZE = 4500;
+
+// -----------------------------------------------------------------------------
+// Chunking
+// -----------------------------------------------------------------------------
+
+/**
+ * Splits a time range into request-sized chunks
+ *
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @param granularity - OANDA granularity
+ * @param chunkSize - Max candles per chunk
+ * @returns Consecutive chunks covering the range
+ */
+export function splitHistoryRange(
+  from: string,
+  to: string,
+  granularity: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): HistoryChunk[] {
+  const minutes = getGranularityMinutes(granularity);
+  if (minutes === 0) {
+    throw new Error(`Unsupported granularity: ${granularity}`);
+  }
+
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  const chunkMs = minutes * 60 * 1000 * Math.max(1, Math.min(chunkSize, OANDA_MAX_CANDLES));
+  const chunks: HistoryChunk[] = [];
+
+  for (let chunkStart = start; chunkStart < end; chunkStart += chunkMs) {
+    chunks.push({
+      from: new Date(chunkStart).toISOString(),
+      to: new Date(Math.min(chunkStart + chunkMs, end)).toISOString(),
+    });
+  }
+
+  return chunks;
+}
+
+// -----------------------------------------------------------------------------
+// Fetching
+// -----------------------------------------------------------------------------
+
+/**
+ * Fetches a long candle history in chunks
+ *
+ * @param source - Candle source (usually OANDA or proxy)
+ * @param options - Pair, granularity, range and concurrency
+ * @returns Stitched, deduplicated candles oldest first
+ * @throws The first failed chunk's error, unchanged (the chunk is logged)
+ */
+export async function fetchHistory(
+  source: CandleSource,
+  options: HistoryOptions
+): Promise<HistoryResult> {
+  const startTime = Date.now();
+  const {
+    pair,
+    granularity,
+    from,
+    to,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    concurrency = 4,
+    includeIncomplete = false,
+    onProgress,
+  } = options;
+
+  const chunks = splitHistoryRange(from, to, granularity, chunkSize);
+  const results: Candle[][] = new Array(chunks.length);
+  let nextChunk = 0;
+  let completedChunks = 0;
+  let candlesFetched = 0;
+  let failed = false;
+
+  // Each worker takes the next chunk until none are left or one has failed
+  const worker = async () => {
+    while (!failed && nextChunk < chunks.length) {
+      const index = nextChunk++;
+      const chunk = chunks[index];
+
+      try {
+        results[index] = await source.fetchCandlesBetween(pair, granularity, chunk.from, chunk.to);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          console.error(`History fetch failed for ${pair} ${granularity} ${chunk.from} → ${chunk.to}:`, error);
+        }
+        throw error;
+      }
+      if (failed) return;
+
+      completedChunks++;
+      candlesFetched += results[index].length;
+      onProgress?.({ completedChunks, totalChunks: chunks.length, candlesFetched, chunk });
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, chunks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  // Stitch in time order, dropping repeats where chunks overlap
+  const end = new Date(to).getTime();
+  const candles: Candle[] = [];
+  let duplicates = 0;
+  let lastTime = -Infinity;
+
+  for (const candle of results.flat()) {
+    const time = new Date(candle.time).getTime();
+    if (time >= end) continue;
+    if (time <= lastTime) {
+      duplicates++;
+      continue;
+    }
+    candles.push(candle);
+    lastTime = time;
+  }
+
+  if (!includeIncomplete && candles.length > 0 && !candles[candles.length - 1].complete) {
+    candles.pop();
+  }
+
+  return {
+    pair,
+    granularity,
+    candles,
+    chunks: chunks.length,
+    duplicates,
+    duration: Date.now() - startTime,
+  };
+}
@@ -0,0 +1,96 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE IMPORTER TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectFormat, importCandles } from './importer';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+// MT4 history export: no header, broker server time (UTC+2 / UTC+3)
+const MT4_EXPORT = [
+  '2024.01.02,00:15,1.10350,1.10420,1.10300,1.10400,812',
+  '2024.03.08,12:00,1.09400,1.09500,1.09350,1.09450,640',
+  '2024.03.11,12:00,1.09300,1.09380,1.09250,1.09330,590',
+  '2024.07.02,00:15,1.07250,1.07310,1.07200,1.07280,433',
+].join('\r\n');
+
+// HistData ASCII export: no header, fixed EST (UTC-5) all year
+const HISTDATA_EXPORT = [
+  '20240102 001500;1.103500;1.104200;1.103000;1.104000;0',
+  '20240702 001500;1.072500;1.073100;1.072000;1.072800;0',
+].join('\n');
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('detectFormat recognizes MT4 and HistData exports', () => {
+  assert.equal(detectFormat(MT4_EXPORT), 'MT4');
+  assert.equal(detectFormat(HISTDATA_EXPORT), 'HISTDATA_ASCII');
+  assert.throws(() => detectFormat('not,a,candle,file'), /Unrecognized/);
+});
+
+test('MT4 server time converts to UTC across the US DST change', () => {
+  const result = importCandles(MT4_EXPORT);
+
+  assert.equal(result.format, 'MT4');
+  assert.equal(result.rowCount, 4);
+  assert.deepEqual(result.skipped, []);
+  assert.deepEqual(result.candles.map(c => c.time), [
+    '2024-01-01T22:15:00.000Z',  // UTC+2 in winter
+    '2024-03-08T10:00:00.000Z',  // Friday before the switch, still UTC+2
+    '2024-03-11T09:00:00.000Z',  // Monday after the switch, UTC+3
+    '2024-07-01T21:15:00.000Z',  // UTC+3 in summer
+  ]);
+
+  const first = result.candles[0];
+  assert.deepEqual(
+    [first.open, first.high, first.low, first.close, first.volume, first.complete],
+    [1.1035, 1.1042, 1.103, 1.104, 812, true]
+  );
+});
+
+test('HistData EST converts to UTC without daylight saving', () => {
+  const result = importCandles(HISTDATA_EXPORT);
+
+  assert.equal(result.format, 'HISTDATA_ASCII');
+  assert.deepEqual(result.candles.map(c => c.time), [
+    '2024-01-02T05:15:00.000Z',
+    '2024-07-02T05:15:00.000Z',
+  ]);
+  assert.equal(result.candles[1].close, 1.0728);
+});
+
+test('close timestamps shift back by the granularity', () => {
+  const result = importCandles(HISTDATA_EXPORT, { timestampAt: 'CLOSE', granularity: 'M15' });
+
+  assert.equal(result.candles[0].time, '2024-01-02T05:00:00.000Z');
+  assert.throws(() => importCandles(HISTDATA_EXPORT, { timestampAt: 'CLOSE' }), /granularity/);
+});
+
+test('invalid rows are skipped and duplicates dropped', () => {
+  const text = [
+    '20240102 003000;1.1040;1.1045;1.1035;1.1042;0',
+    '20240102 001500;1.1035;1.1042;1.1030;1.1040;0',
+    '20240102 004500;1.1042;1.1040;1.1038;1.1044;0',  // high below close
+    'garbage;1.1;1.1;1.1;1.1;0',
+    '20240102 001500;1.2000;1.2000;1.2000;1.2000;0',  // duplicate of line 2
+  ].join('\n');
+
+  const result = importCandles(text, { format: 'HISTDATA_ASCII' });
+
+  assert.equal(result.rowCount, 5);
+  assert.deepEqual(result.skipped, [
+    { line: 3, message: 'High below open/close' },
+    { line: 4, message: 'Invalid timestamp' },
+  ]);
+  assert.equal(result.duplicates, 1);
+  assert.deepEqual(result.candles.map(c => [c.time, c.open]), [
+    ['2024-01-02T05:15:00.000Z', 1.1035],
+    ['2024-01-02T05:30:00.000Z', 1.1040],
+  ]);
+});
@@ -0,0 +1,369 @@
+// =============================================================================
+// WICKLESS STRATEGY — HISTORICAL CANDLE IMPORTER
+// =============================================================================
+// Parses OHLC exports from other platforms into Candle[]:
+//
+// GENERIC            time,open,high,low,close[,volume] (header, any order)
+// MT4                2024.01.02,00:15,O,H,L,C,V        (no header)
+// MT5                <DATE> <TIME> <OPEN> ... <TICKVOL>  (header, tab separated)
+// HISTDATA_ASCII     20240102 001500;O;H;L;C;V          (no header)
+// HISTDATA_METASTOCK <TICKER>,<DATE>,<TIME>,<OPEN>,...   (header)
+//
+// Timestamps are wall-clock times in the exporter's timezone:
+// - MT4/MT5 brokers mostly run "New York close" server time (UTC+2, UTC+3
+//   while the US is on daylight time)
+// - HistData uses EST with no daylight saving (fixed UTC-5)
+// Both are converted to UTC ISO strings. Rows that fail validation are
+// skipped and reported, duplicates are dropped, and output is sorted
+// oldest first with complete: true.
+// =============================================================================
+
+import { readFile } from 'fs/promises';
+import { Candle } from '../../types/types';
+import { getGranularityMinutes } from '../config';
+import { isUsDaylightTime } from '../market/clock';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ImportFormat =
+  | 'GENERIC'
+  | 'MT4'
+  | 'MT5'
+  | 'HISTDATA_ASCII'
+  | 'HISTDATA_METASTOCK';
+
+export type ImportTimezone =
+  | 'UTC'
+  | 'EST'        // Fixed UTC-5, no daylight saving (HistData)
+  | 'NEW_YORK'   // UTC-5 / UTC-4 with US daylight saving
+  | 'NY_CLOSE'   // UTC+2 / UTC+3 following US daylight saving (MT4 brokers)
+  | { offsetMinutes: number };
+
+export interface ImportOptions {
+  // Default: detected from the first line
+  format?: ImportFormat;
+  // Default: NY_CLOSE for MT4/MT5, EST for HistData, UTC for GENERIC
+  timezone?: ImportTimezone;
+  // Whether timestamps mark the bar open (default) or close
+  timestampAt?: 'OPEN' | 'CLOSE';
+  // Bar granularity (e.g., 'M15'), required when timestampAt is CLOSE
+  granularity?: string;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  candles: Candle[];
+  format: ImportFormat;
+  rowCount: number;
+  skipped: ImportIssue[];
+  duplicates: number;
+}
+
+interface Columns {
+  date: number;
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface FormatSpec {
+  delimiter: string | RegExp;
+  // Fixed positions for headerless formats (others read the header row)
+  columns?: Columns;
+  timezone: ImportTimezone;
+}
+
+const FORMAT_SPECS: Record<ImportFormat, FormatSpec> = {
+  GENERIC: { delimiter: /[,;\t]/, timezone: 'UTC' },
+  MT4: {
+    delimiter: ',',
+    columns: { date: 0, time: 1, open: 2, high: 3, low: 4, close: 5, volume: 6 },
+    timezone: 'NY_CLOSE',
+  },
+  MT5: { delimiter: /\t|,/, timezone: 'NY_CLOSE' },
+  HISTDATA_ASCII: {
+    delimiter: ';',
+    // Date and time share the first column ("20240102 001500")
+    columns: { date: 0, time: -1, open: 1, high: 2, low: 3, close: 4, volume: 5 },
+    timezone: 'EST',
+  },
+  HISTDATA_METASTOCK: { delimiter: ',', timezone: 'EST' },
+};
+
+// Header names accepted for each column (lowercase, without <>)
+const HEADER_ALIASES: Record<keyof Columns, string[]> = {
+  date: ['date', 'dtyyyymmdd', 'time', 'datetime', 'timestamp'],
+  time: ['time'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'tickvol', 'v'],
+};
+
+// -----------------------------------------------------------------------------
+// Format Detection
+// -----------------------------------------------------------------------------
+
+/**
+ * Detects the export format from the first line of a file
+ *
+ * @param text - File contents
+ * @returns Detected format
+ * @throws If the layout isn't recognized
+ */
+export function detectFormat(text: string): ImportFormat {
+  const firstLine = (text.split(/\r?\n/).find(line => line.trim() !== '') ?? '').trim();
+  const upper = firstLine.toUpperCase();
+
+  if (upper.includes('<TICKER>')) return 'HISTDATA_METASTOCK';
+  if (upper.includes('<DATE>')) return 'MT5';
+  if (/^\d{8} \d{6};/.test(firstLine)) return 'HISTDATA_ASCII';
+  if (/^\d{4}\.\d{2}\.\d{2},\d{2}:\d{2}/.test(firstLine)) return 'MT4';
+  if (/open/i.test(firstLine) && /close/i.test(firstLine)) return 'GENERIC';
+
+  throw new Error(`Unrecognized candle export format: ${firstLine.slice(0, 80)}`);
+}
+
+// -----------------------------------------------------------------------------
+// Timestamps
+// -----------------------------------------------------------------------------
+
+/**
+ * UTC offset in minutes for a wall-clock time in the given timezone
+ */
+function getOffsetMinutes(timezone: ImportTimezone, wallClock: Date): number {
+  if (typeof timezone === 'object') {
+    return timezone.offsetMinutes;
+  }
+
+  // NY_CLOSE is New York time shifted +7h, so both switch together
+  const nyTime = timezone === 'NY_CLOSE'
+    ? new Date(wallClock.getTime() - 7 * 60 * 60 * 1000)
+    : wallClock;
+  const dst = isUsDaylightTime(
+    nyTime.getUTCFullYear(),
+    nyTime.getUTCMonth() + 1,
+    nyTime.getUTCDate(),
+    nyTime.getUTCHours()
+  );
+
+  switch (timezone) {
+    case 'UTC': return 0;
+    case 'EST': return -5 * 60;
+    case 'NEW_YORK': return dst ? -4 * 60 : -5 * 60;
+    case 'NY_CLOSE': return dst ? 3 * 60 : 2 * 60;
+    default: return 0;
+  }
+}
+
+/**
+ * Parses the date/time cells of a row into a UTC timestamp (ms)
+ * Returns NaN when the cells can't be parsed
+ */
+function parseTimestamp(dateCell: string, timeCell: string, timezone: ImportTimezone): number {
+  const date = dateCell.trim();
+  const time = timeCell.trim();
+
+  // ISO strings with their own offset are taken as-is
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(date)) {
+    return Date.parse(date);
+  }
+
+  // Date: 2024.01.02 | 2024-01-02 | 2024/01/02 | 20240102 (optionally "date time")
+  const dateMatch = /^(\d{4})[.\-/]?(\d{2})[.\-/]?(\d{2})(?:[ T](.+))?$/.exec(date);
+  if (!dateMatch) {
+    return NaN;
+  }
+
+  // Time: 00:15 | 00:15:00 | 0015 | 001500
+  const timeText = (time || dateMatch[4] || '00:00').replace(/:/g, '');
+  const timeMatch = /^(\d{2})(\d{2})(\d{2})?(?:\.\d+)?$/.exec(timeText);
+  if (!timeMatch) {
+    return NaN;
+  }
+
+  const wallClock = new Date(Date.UTC(
+    parseInt(dateMatch[1]),
+    parseInt(dateMatch[2]) - 1,
+    parseInt(dateMatch[3]),
+    parseInt(timeMatch[1]),
+    parseInt(timeMatch[2]),
+    timeMatch[3] ? parseInt(timeMatch[3]) : 0
+  ));
+
+  return wallClock.getTime() - getOffsetMinutes(timezone, wallClock) * 60 * 1000;
+}
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Maps header cells to column indexes
+ */
+function getHeaderColumns(header: string[]): Columns {
+  const names = header.map(h => h.trim().toLowerCase().replace(/[<>]/g, ''));
+  const find = (key: keyof Columns, exclude: number = -1) =>
+    names.findIndex((name, i) => i !== exclude && HEADER_ALIASES[key].includes(name));
+
+  const date = find('date');
+  const columns: Columns = {
+    date,
+    // Only a separate time column if it isn't the one used as date
+    time: find('time', date),
+    open: find('open'),
+    high: find('high'),
+    low: find('low'),
+    close: find('close'),
+    volume: find('volume'),
+  };
+
+  const missing = (['date', 'open', 'high', 'low', 'close'] as const).filter(k => columns[k] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Missing columns in header: ${missing.join(', ')} (got: ${header.join(',')})`);
+  }
+
+  return columns;
+}
+
+/**
+ * Checks a parsed row for impossible OHLC values
+ */
+function validateCandle(candle: Candle): string | null {
+  const prices = [candle.open, candle.high, candle.low, candle.close];
+
+  if (isNaN(new Date(candle.time).getTime())) return 'Invalid timestamp';
+  if (prices.some(p => !isFinite(p))) return 'Non-numeric price';
+  if (prices.some(p => p <= 0)) return 'Non-positive price';
+  if (candle.high < Math.max(candle.open, candle.close)) return 'High below open/close';
+  if (candle.low > Math.min(candle.open, candle.close)) return 'Low above open/close';
+  return null;
+}
+
+/**
+ * Imports candles from export text
+ *
+ * @param text - File contents
+ * @param options - Format, timezone and timestamp convention
+ * @returns Valid candles (UTC, oldest first) with skipped rows reported
+ */
+export function importCandles(text: string, options: ImportOptions = {}): ImportResult {
+  const format = options.format ?? detectFormat(text);
+  const spec = FORMAT_SPECS[format];
+  const timezone = options.timezone ?? spec.timezone;
+  const { timestampAt = 'OPEN', granularity } = options;
+
+  let shiftMs = 0;
+  if (timestampAt === 'CLOSE') {
+    const minutes = granularity ? getGranularityMinutes(granularity) : 0;
+    if (minutes === 0) {
+      throw new Error('A valid granularity is required when timestamps mark the bar close');
+    }
+    shiftMs = minutes * 60 * 1000;
+  }
+
+  const lines = text.split(/\r?\n/);
+  const skipped: ImportIssue[] = [];
+  const candles: Candle[] = [];
+  let columns = spec.columns;
+  let rowCount = 0;
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') return;
+    const cells = line.split(spec.delimiter);
+
+    if (!columns) {
+      columns = getHeaderColumns(cells);
+      return;
+    }
+
+    rowCount++;
+    const time = parseTimestamp(
+      cells[columns.date] ?? '',
+      columns.time >= 0 ? cells[columns.time] ?? '' : '',
+      timezone
+    ) - shiftMs;
+
+    const candle: Candle = {
+      time: isNaN(time) ? '' : new Date(time).toISOString(),
+      open: parseFloat(cells[columns.open]),
+      high: parseFloat(cells[columns.high]),
+      low: parseFloat(cells[columns.low]),
+      close: parseFloat(cells[columns.close]),
+      volume: columns.volume >= 0 ? parseFloat(cells[columns.volume]) || 0 : undefined,
+      complete: true,
+    };
+
+    const problem = validateCandle(candle);
+    if (problem) {
+      skipped.push({ line: i + 1, message: problem });
+      return;
+    }
+
+    candles.push(candle);
+  });
+
+  // Sort and drop duplicate timestamps (first occurrence wins)
+  const sorted = candles
+    .map((candle, index) => ({ candle, index, time: new Date(candle.time).getTime() }))
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+
+  const unique: Candle[] = [];
+  let duplicates = 0;
+  let lastTime = NaN;
+
+  for (const entry of sorted) {
+    if (entry.time === lastTime) {
+      duplicates++;
+      continue;
+    }
+    unique.push(entry.candle);
+    lastTime = entry.time;
+  }
+
+  return { candles: unique, format, rowCount, skipped, duplicates };
+}
+
+/**
+ * Imports candles from an export file on disk
+ *
+ * @param path - File path
+ * @param options - Format, timezone and timestamp convention
+ */
+export async function importCandleFile(
+  path: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const text = await readFile(path, 'utf8');
+  return importCandles(text, options);
+}
+
+/**
+ * Creates a summary of an import for logging/display
+ */
+export function summarizeImport(result: ImportResult): string {
+  const lines: string[] = [];
+  const { candles } = result;
+
+  lines.push(`=== IMPORT (${result.format}) ===`);
+  lines.push(`Rows: ${result.rowCount}, imported: ${candles.length}`);
+  if (candles.length > 0) {
+    lines.push(`Period: ${candles[0].time} → ${candles[candles.length - 1].time}`);
+  }
+  lines.push(`Skipped: ${result.skipped.length}, duplicates: ${result.duplicates}`);
+  result.skipped.slice(0, 5).forEach(issue => {
+    lines.push(`  line ${issue.line}: ${issue.message}`);
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,80 @@
+// =============================================================================
+// WICKLESS STRATEGY — IN-MEMORY CANDLE SOURCE
+// =============================================================================
+// Serves Candle[] arrays held in memory, keyed by pair and granularity.
+//
+// With a clock, only candles that had opened by clock time are returned and
+// the still-forming one is marked incomplete, like OANDA does live. This is
+// what the replay harness uses to show the pipeline history as it happened.
+// =============================================================================
+
+import { Candle, CandleSource, Instrument, Timeframe } from '../../types/types';
+import { TIMEFRAME_CONFIGS, getGranularityMinutes } from '../config';
+import { Clock } from '../pipeline/clock';
+
+export class MemorySource implements CandleSource {
+  readonly name = 'memory';
+  private candles = new Map<string, Candle[]>();
+
+  /**
+   * @param clock - Optional clock that hides candles from the future
+   */
+  constructor(private readonly clock: Clock | null = null) {}
+
+  /**
+   * Sets the candles for a pair/granularity (oldest first)
+   */
+  set(pair: Instrument, granularity: string, candles: Candle[]): this {
+    this.candles.set(`${pair}:${granularity}`, candles);
+    return this;
+  }
+
+  /**
+   * Sets the candles for a pair on one of the strategy timeframes
+   */
+  setTimeframe(pair: Instrument, timeframe: Timeframe, candles: Candle[]): this {
+    return this.set(pair, TIMEFRAME_CONFIGS[timeframe].oandaGranularity, candles);
+  }
+
+  async fetchCandles(pair: Instrument, timeframe: Timeframe, count: number): Promise<Candle[]> {
+    const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+    return this.getVisible(pair, granularity).slice(-count);
+  }
+
+  async fetchCandlesBetween(
+    pair: Instrument,
+    granularity: string,
+    from: string,
+    to: string
+  ): Promise<Candle[]> {
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+
+    return this.getVisible(pair, granularity).filter(c => {
+      const time = new Date(c.time).getTime();
+      return time >= start && time < end;
+    });
+  }
+
+  /**
+   * Candles as they would have looked at clock time
+   */
+  private getVisible(pair: Instrument, granularity: string): Candle[] {
+    const candles = this.candles.get(`${pair}:${granularity}`) ?? [];
+    if (!this.clock) {
+      return candles;
+    }
+
+    const periodMs = getGranularityMinutes(granularity) * 60 * 1000;
+    const now = this.clock.now().getTime();
+    const visible: Candle[] = [];
+
+    for (const candle of candles) {
+      const start = new Date(candle.time).getTime();
+      if (start > now) break;
+      visible.push({ ...candle, complete: start + periodMs <= now });
+    }
+
+    return visible;
+  }
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// WICKLESS STRATEGY — OANDA CANDLE SOURCES
+// =============================================================================
+// CandleSource wrappers around the REST client in lib/oanda.ts:
+// - Direct API access (server-side, needs OANDA_API_KEY)
+// - Proxy server (same pattern as SweepSignal)
+// =============================================================================
+
+import { CandleSource } from '../../types/types';
+import {
+  fetchCandles,
+  fetchCandlesViaProxy,
+  fetchCandlesBetween,
+  fetchCandlesBetweenViaProxy
+} from '../oanda';
+
+/**
+ * Creates a source that calls the OANDA REST API directly
+ */
+export function createOandaSource(): CandleSource {
+  return {
+    name: 'oanda',
+    fetchCandles: (pair, timeframe, count) => fetchCandles(pair, timeframe, count),
+    fetchCandlesBetween: (pair, granularity, from, to) =>
+      fetchCandlesBetween(pair, granularity, from, to),
+  };
+}
+
+/**
+ * Creates a source that goes through a proxy server
+ *
+ * @param proxyUrl - URL of your proxy server
+ */
+export function createProxySource(proxyUrl: string): CandleSource {
+  return {
+    name: `proxy(${proxyUrl})`,
+    fetchCandles: (pair, timeframe, count) =>
+      fetchCandlesViaProxy(proxyUrl, pair, timeframe, count),
+    fetchCandlesBetween: (pair, granularity, from, to) =>
+      fetchCandlesBetweenViaProxy(proxyUrl, pair, granularity, from, to),
+  };
+}
@@ -0,0 +1,140 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE DATA QUALITY TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../../types/types';
+import { validateCandles } from './quality';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+
+function candle(time: string, close: number = 1.1002): Candle {
+  return { time, open: 1.1000, high: 1.1005, low: 1.0995, close, complete: true };
+}
+
+/**
+ * Consecutive M15 candles from a start time
+ */
+function series(start: string, count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) =>
+    candle(new Date(Date.parse(start) + i * M15).toISOString())
+  );
+}
+
+const times = (candles: Candle[]) => candles.map(c => c.time);
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('a clean series passes untouched', () => {
+  const candles = series('2024-01-03T10:00:00.000Z', 8);
+  const { candles: result, report } = validateCandles(candles, { granularity: 'M15', pair: 'EUR_USD' });
+
+  assert.deepEqual(result, candles);
+  assert.deepEqual(report, { checked: 8, issues: [], repaired: 0, missingCandles: 0, trusted: true });
+});
+
+test('duplicates keep the last copy', () => {
+  const candles = [
+    candle('2024-01-03T10:00:00.000Z'),
+    candle('2024-01-03T10:15:00.000Z', 1.1001),
+    candle('2024-01-03T10:15:00.000Z', 1.1003),
+    candle('2024-01-03T10:30:00.000Z'),
+  ];
+  const { candles: result, report } = validateCandles(candles, { granularity: 'M15' });
+
+  assert.deepEqual(times(result), [
+    '2024-01-03T10:00:00.000Z',
+    '2024-01-03T10:15:00.000Z',
+    '2024-01-03T10:30:00.000Z',
+  ]);
+  assert.equal(result[1].close, 1.1003);
+  assert.deepEqual(report.issues.map(i => [i.type, i.time, i.repaired]), [
+    ['DUPLICATE', '2024-01-03T10:15:00.000Z', true],
+  ]);
+  assert.equal(report.trusted, true);
+});
+
+test('out-of-order candles are flagged and sorted', () => {
+  const candles = [
+    candle('2024-01-03T10:00:00.000Z'),
+    candle('2024-01-03T10:30:00.000Z'),
+    candle('2024-01-03T10:15:00.000Z'),
+  ];
+  const { candles: result, report } = validateCandles(candles, { granularity: 'M15' });
+
+  assert.deepEqual(times(result), [
+    '2024-01-03T10:00:00.000Z',
+    '2024-01-03T10:15:00.000Z',
+    '2024-01-03T10:30:00.000Z',
+  ]);
+  assert.deepEqual(report.issues.map(i => [i.type, i.time, i.message]), [
+    ['OUT_OF_ORDER', '2024-01-03T10:15:00.000Z', 'before 2024-01-03T10:30:00.000Z'],
+  ]);
+  assert.equal(report.missingCandles, 0);
+});
+
+test('misaligned and impossible bars are dropped', () => {
+  const candles = [
+    candle('2024-01-03T10:00:00.000Z'),
+    candle('2024-01-03T10:07:00.000Z'),
+    { ...candle('2024-01-03T10:15:00.000Z'), high: 1.0990 },
+    candle('2024-01-03T10:30:00.000Z'),
+  ];
+  const { candles: result, report } = validateCandles(candles, { granularity: 'M15', maxMissing: 1 });
+
+  assert.deepEqual(times(result), ['2024-01-03T10:00:00.000Z', '2024-01-03T10:30:00.000Z']);
+  assert.deepEqual(report.issues.map(i => i.type), ['MISALIGNED', 'INVALID_OHLC', 'MISSING']);
+  // The dropped 10:15 bar now counts as missing
+  assert.equal(report.missingCandles, 1);
+  assert.equal(report.repaired, 2);
+  assert.equal(report.trusted, true);
+});
+
+test('gaps count only the candles the market was open for', () => {
+  const candles = [
+    // Friday until the 17:00 New York close (22:00 UTC)
+    ...series('2024-01-05T21:00:00.000Z', 4),
+    // Sunday open, then two candles missing before 22:00
+    candle('2024-01-07T22:00:00.000Z'),
+    ...series('2024-01-07T22:45:00.000Z', 2),
+  ];
+  const { report } = validateCandles(candles, { granularity: 'M15', pair: 'EUR_USD', maxMissing: 1 });
+
+  assert.deepEqual(report.issues.map(i => [i.type, i.time, i.message]), [
+    ['MISSING', '2024-01-07T22:15:00.000Z', '2 candle(s) missing before 2024-01-07T22:45:00.000Z'],
+  ]);
+  assert.equal(report.missingCandles, 2);
+  assert.equal(report.trusted, false);
+});
+
+test('with a read time, candles missing at the end count too', () => {
+  const candles = series('2024-01-03T10:00:00.000Z', 4);
+  const { report } = validateCandles(candles, {
+    granularity: 'M15',
+    pair: 'EUR_USD',
+    // 11:00 and 11:15 closed but never arrived; 11:30 is still forming
+    now: new Date('2024-01-03T11:40:00.000Z'),
+  });
+
+  assert.equal(report.missingCandles, 2);
+  assert.equal(report.issues[0].time, '2024-01-03T11:00:00.000Z');
+});
+
+test('without repair, errors leave the series untrusted', () => {
+  const candles = [
+    candle('2024-01-03T10:15:00.000Z'),
+    candle('2024-01-03T10:00:00.000Z'),
+  ];
+  const { candles: result, report } = validateCandles(candles, { granularity: 'M15', repair: false });
+
+  assert.equal(result, candles);
+  assert.equal(report.repaired, 0);
+  assert.equal(report.trusted, false);
+});
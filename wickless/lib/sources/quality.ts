@@ -0,0 +1,250 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE DATA QUALITY
+// =============================================================================
+// Checks a fetched series before swing/wickless detection sees it:
+// - Order and duplicate timestamps (repair: sort, keep the last copy)
+// - Impossible bars: high < low, open/close outside the range, NaN, <= 0
+//   (repair: drop)
+// - Timestamps off the candle clock, incomplete bars mid-series (repair: drop)
+// - Zero-range bars (flagged only - a flat bar is a doji and never signals)
+// - Missing candles while the market was open, using the candle clock and
+//   market calendar; with `now`, also candles missing at the end (stale data)
+//
+// The report says whether the series can be trusted: no unrepaired errors
+// and no more than MAX_MISSING_CANDLES missing.
+// =============================================================================
+
+import {
+  Candle,
+  DataQualityIssue,
+  DataQualityIssueType,
+  DataQualityReport,
+  Instrument
+} from '../../types/types';
+import { STRATEGY_CONFIG } from '../config';
+import { getCandleBucket, isWeekendBreak } from '../market/clock';
+import { MarketCalendar, defaultMarketCalendar } from '../market/calendar';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CandleValidationOptions {
+  // OANDA granularity of the series (e.g., 'M15')
+  granularity: string;
+  // Enables per-instrument hours and holidays for missing-candle checks
+  pair?: Instrument;
+  // Default: defaultMarketCalendar
+  calendar?: MarketCalendar;
+  // Fix what can be fixed (default: true)
+  repair?: boolean;
+  // Read time - also counts complete candles missing after the last one
+  now?: Date;
+  // Default: STRATEGY_CONFIG.MAX_MISSING_CANDLES
+  maxMissing?: number;
+}
+
+export interface CandleValidationResult {
+  // Repaired series, or the input as-is when repair is off
+  candles: Candle[];
+  report: DataQualityReport;
+}
+
+// -----------------------------------------------------------------------------
+// Checks
+// -----------------------------------------------------------------------------
+
+/**
+ * Why a bar's prices are impossible, or null if they're fine
+ */
+function getOhlcProblem(candle: Candle): string | null {
+  const { open, high, low, close } = candle;
+
+  if (![open, high, low, close].every(price => Number.isFinite(price) && price > 0)) {
+    return 'non-numeric or non-positive price';
+  }
+  if (high < low) {
+    return `high ${high} below low ${low}`;
+  }
+  if (open > high || open < low || close > high || close < low) {
+    return 'open/close outside the high-low range';
+  }
+  return null;
+}
+
+/**
+ * Counts candle periods in [from, to) the market was open for
+ *
+ * @param from - First period open (ms)
+ * @param to - End of the range (ms, exclusive)
+ * @param granularity - OANDA granularity (must align - see getCandleBucket)
+ * @param isOpen - Whether the market trades at a time
+ * @returns Count and the first such period's open
+ */
+export function countOpenPeriods(
+  from: number,
+  to: number,
+  granularity: string,
+  isOpen: (time: number) => boolean
+): { count: number; first: number | null } {
+  let count = 0;
+  let first: number | null = null;
+
+  for (let start = from; start < to; ) {
+    const { end } = getCandleBucket(start, granularity);
+    // Open at either edge (metals reopen mid-candle after the daily break)
+    if (isOpen(start) || isOpen(end - 1)) {
+      count++;
+      first ??= start;
+    }
+    start = end;
+  }
+
+  return { count, first };
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+/**
+ * Checks (and by default repairs) a fetched candle series
+ *
+ * @param candles - Candles as returned by the source
+ * @param options - Granularity, pair/calendar and repair settings
+ * @returns Series to analyse and its quality report
+ */
+export function validateCandles(
+  candles: Candle[],
+  options: CandleValidationOptions
+): CandleValidationResult {
+  const {
+    granularity,
+    pair,
+    calendar = defaultMarketCalendar,
+    repair = true,
+    now,
+    maxMissing = STRATEGY_CONFIG.MAX_MISSING_CANDLES,
+  } = options;
+
+  const issues: DataQualityIssue[] = [];
+  const flag = (
+    type: DataQualityIssueType,
+    severity: DataQualityIssue['severity'],
+    time: string,
+    message: string,
+    repairable: boolean
+  ) => {
+    issues.push({ type, severity, time, message, repaired: repair && repairable });
+  };
+
+  const timeOf = (candle: Candle) => new Date(candle.time).getTime();
+
+  // Order
+  for (let i = 1; i < candles.length; i++) {
+    if (timeOf(candles[i]) < timeOf(candles[i - 1])) {
+      flag('OUT_OF_ORDER', 'ERROR', candles[i].time, `before ${candles[i - 1].time}`, true);
+    }
+  }
+
+  // Everything below works on a sorted copy (stable, so later duplicates stay later)
+  const sorted = [...candles].sort((a, b) => timeOf(a) - timeOf(b));
+
+  let alignable = true;
+  try {
+    getCandleBucket(0, granularity);
+  } catch {
+    alignable = false;
+  }
+
+  const kept: Candle[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const candle = sorted[i];
+    const time = timeOf(candle);
+
+    if (i + 1 < sorted.length && timeOf(sorted[i + 1]) === time) {
+      flag('DUPLICATE', 'ERROR', candle.time, 'timestamp repeated', true);
+      continue;
+    }
+
+    const problem = getOhlcProblem(candle);
+    if (problem) {
+      flag('INVALID_OHLC', 'ERROR', candle.time, problem, true);
+      continue;
+    }
+
+    if (alignable && getCandleBucket(time, granularity).start !== time) {
+      flag('MISALIGNED', 'ERROR', candle.time, `not a ${granularity} candle open`, true);
+      continue;
+    }
+
+    if (!candle.complete && i < sorted.length - 1) {
+      flag('INCOMPLETE', 'ERROR', candle.time, 'incomplete candle before the last one', true);
+      continue;
+    }
+
+    if (candle.high === candle.low) {
+      flag('ZERO_RANGE', 'WARNING', candle.time, 'high equals low', false);
+    }
+
+    kept.push(candle);
+  }
+
+  // Missing candles between the ones we kept, and after the last one
+  let missingCandles = 0;
+  if (alignable && kept.length > 0) {
+    const isOpen = (time: number) => pair
+      ? calendar.isOpen(pair, new Date(time))
+      : !isWeekendBreak(time);
+
+    const reportGap = (from: number, to: number, before: string) => {
+      const { count, first } = countOpenPeriods(from, to, granularity, isOpen);
+      if (count > 0 && first !== null) {
+        missingCandles += count;
+        flag('MISSING', 'WARNING', new Date(first).toISOString(), `${count} candle(s) missing before ${before}`, false);
+      }
+    };
+
+    for (let i = 1; i < kept.length; i++) {
+      reportGap(getCandleBucket(timeOf(kept[i - 1]), granularity).end, timeOf(kept[i]), kept[i].time);
+    }
+
+    // The forming candle may not have printed yet, so stop before it
+    if (now) {
+      const last = kept[kept.length - 1];
+      const forming = getCandleBucket(now.getTime(), granularity).start;
+      reportGap(getCandleBucket(timeOf(last), granularity).end, forming, now.toISOString());
+    }
+  }
+
+  const unrepairedErrors = issues.some(issue => issue.severity === 'ERROR' && !issue.repaired);
+
+  return {
+    candles: repair ? kept : candles,
+    report: {
+      checked: candles.length,
+      issues,
+      repaired: issues.filter(issue => issue.repaired).length,
+      missingCandles,
+      trusted: !unrepairedErrors && missingCandles <= maxMissing,
+    },
+  };
+}
+
+/**
+ * One-line description of a report for logs
+ */
+export function summarizeDataQuality(report: DataQualityReport): string {
+  if (report.issues.length === 0) {
+    return `${report.checked} candles, no issues`;
+  }
+
+  const counts = new Map<DataQualityIssueType, number>();
+  for (const issue of report.issues) {
+    counts.set(issue.type, (counts.get(issue.type) ?? 0) + 1);
+  }
+  const parts = [...counts.entries()].map(([type, count]) => `${type} x${count}`);
+
+  return `${report.checked} candles, ${parts.join(', ')}, ${report.missingCandles} missing, ` +
+    `${report.repaired} repaired${report.trusted ? '' : ' - UNTRUSTED'}`;
+}
@@ -0,0 +1,112 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE RESAMPLER TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../../types/types';
+import { isWeekendBreak } from '../market/clock';
+import { resampleCandles } from './resample';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const M15 = 15 * 60 * 1000;
+
+/**
+ * Complete M15 candles from start (inclusive) to end (exclusive), skipping
+ * the weekend break. Volume 1 each, so a bucket's volume is its size.
+ */
+function m15Candles(start: string, end: string): Candle[] {
+  const candles: Candle[] = [];
+  const to = Date.parse(end);
+
+  for (let time = Date.parse(start), i = 0; time < to; time += M15) {
+    if (isWeekendBreak(time)) continue;
+    const open = 1.1 + (i++ % 50) * 0.0001;
+    candles.push({
+      time: new Date(time).toISOString(),
+      open,
+      high: open + 0.0003,
+      low: open - 0.0002,
+      close: open + 0.0001,
+      volume: 1,
+      complete: true,
+    });
+  }
+
+  return candles;
+}
+
+// Thursday session before the March switch to the Tuesday session after
+// (New York 17:00 is 22:00 UTC before, 21:00 UTC after)
+const MARCH = m15Candles('2024-03-06T22:00:00.000Z', '2024-03-12T21:00:00.000Z');
+
+// Wednesday before the November switch back to the Tuesday after
+const NOVEMBER = m15Candles('2024-10-29T21:00:00.000Z', '2024-11-05T22:00:00.000Z');
+
+const hoursOf = (candles: Candle[]) => candles.map(c => new Date(c.time).getUTCHours());
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('D candles open at 17:00 New York on both sides of the March change', () => {
+  const daily = resampleCandles(MARCH, 'D');
+
+  assert.deepEqual(daily.map(c => c.time), [
+    '2024-03-06T22:00:00.000Z',
+    '2024-03-07T22:00:00.000Z',
+    '2024-03-10T21:00:00.000Z',  // Sunday open, first session in EDT
+    '2024-03-11T21:00:00.000Z',
+  ]);
+  assert.deepEqual(daily.map(c => c.volume), [96, 96, 96, 96]);
+  assert.ok(daily.every(c => c.complete));
+});
+
+test('D candles follow the November change back to standard time', () => {
+  const daily = resampleCandles(NOVEMBER, 'D');
+
+  assert.deepEqual(daily.map(c => c.time), [
+    '2024-10-29T21:00:00.000Z',
+    '2024-10-30T21:00:00.000Z',
+    '2024-10-31T21:00:00.000Z',
+    '2024-11-03T22:00:00.000Z',  // Sunday open, first session in EST
+    '2024-11-04T22:00:00.000Z',
+  ]);
+  assert.deepEqual(daily.map(c => c.volume), [96, 96, 96, 96, 96]);
+});
+
+test('H4 candles shift an hour in UTC with the session', () => {
+  const h4 = resampleCandles(MARCH, 'H4');
+  const sunday = h4.findIndex(c => c.time === '2024-03-10T21:00:00.000Z');
+
+  assert.ok(sunday > 0);
+  assert.equal(h4[sunday - 1].time, '2024-03-08T18:00:00.000Z');
+  assert.ok(hoursOf(h4.slice(0, sunday)).every(hour => hour % 4 === 2));
+  assert.ok(hoursOf(h4.slice(sunday)).every(hour => hour % 4 === 1));
+  assert.ok(h4.every(c => c.volume === 16));
+});
+
+test('W candles open Friday 17:00 New York and span the change', () => {
+  const weekly = resampleCandles(MARCH, 'W');
+
+  assert.deepEqual(weekly.map(c => c.time), [
+    '2024-03-01T22:00:00.000Z',
+    '2024-03-08T22:00:00.000Z',
+  ]);
+  // Wed-Fri sessions, then Mon-Tue after the change
+  assert.deepEqual(weekly.map(c => c.volume), [2 * 96, 2 * 96]);
+  assert.deepEqual(weekly.map(c => c.complete), [true, false]);
+});
+
+test('resampled bars take the open, extremes and close of their members', () => {
+  const [first] = resampleCandles(MARCH, 'H4');
+  const members = MARCH.slice(0, 16);
+
+  assert.equal(first.open, members[0].open);
+  assert.equal(first.close, members[15].close);
+  assert.equal(first.high, Math.max(...members.map(c => c.high)));
+  assert.equal(first.low, Math.min(...members.map(c => c.low)));
+});
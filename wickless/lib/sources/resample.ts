@@ -0,0 +1,242 @@
+// =============================================================================
+// WICKLESS STRATEGY — CANDLE RESAMPLER
+// =============================================================================
+// Builds higher timeframes from a lower one (e.g., M15 → H1/H4/D) so
+// multi-timeframe analysis needs one fetch per pair.
+//
+// Buckets follow OANDA's default alignment (see lib/market/clock.ts).
+// Empty buckets (weekends, holidays) are skipped. The last bucket is only
+// complete once its end has passed and every candle in it is complete.
+//
+// withResampling only serves the configured timeframes (TIMEFRAME_CONFIGS).
+// It fetches enough base candles for the count or range asked for, paging
+// through fetchHistory past OANDA's per-request limit.
+// =============================================================================
+
+import { Candle, CandleSource, Instrument, PriceBar, Timeframe } from '../../types/types';
+import { TIMEFRAME_CONFIGS, getGranularityMinutes } from '../config';
+import { Clock, systemClock } from '../pipeline/clock';
+import { CandleBucket, getCandleBucket } from '../market/clock';
+import { OANDA_MAX_CANDLES, fetchHistory } from './history';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ResampleOptions {
+  // Time the data was read at (default: end of the last input candle)
+  now?: Date;
+}
+
+export interface ResamplingOptions {
+  // Timeframe fetched once per pair (default: M15)
+  base?: Timeframe;
+  // Fewest base candles fetched for fetchCandles, so timeframes that need
+  // less share one request (default: 5000)
+  baseCount?: number;
+  // Extra base candles on top of count × ratio, for holidays and partial
+  // buckets (default: 0.1 = 10%)
+  margin?: number;
+  clock?: Clock;
+}
+
+// -----------------------------------------------------------------------------
+// Alignment
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether candles of one granularity can be combined into another
+ */
+export function canResample(baseGranularity: string, targetGranularity: string): boolean {
+  const base = getGranularityMinutes(baseGranularity);
+  const target = getGranularityMinutes(targetGranularity);
+  if (base === 0 || target <= base) return false;
+
+  try {
+    getCandleBucket(0, baseGranularity);
+    getCandleBucket(0, targetGranularity);
+  } catch {
+    return false;
+  }
+
+  // Base candles must not straddle a target boundary
+  return targetGranularity === 'W' ? (24 * 60) % base === 0 : target % base === 0;
+}
+
+/**
+ * Base candles per target candle, counting trading time only
+ * A W candle holds five trading days, not seven.
+ */
+export function getResampleRatio(baseGranularity: string, targetGranularity: string): number {
+  const target = targetGranularity === 'W'
+    ? 5 * 24 * 60
+    : getGranularityMinutes(targetGranularity);
+  return Math.ceil(target / getGranularityMinutes(baseGranularity));
+}
+
+// -----------------------------------------------------------------------------
+// Resampling
+// -----------------------------------------------------------------------------
+
+function mergeBars(bars: PriceBar[]): PriceBar {
+  return {
+    open: bars[0].open,
+    high: Math.max(...bars.map(b => b.high)),
+    low: Math.min(...bars.map(b => b.low)),
+    close: bars[bars.length - 1].close,
+  };
+}
+
+/**
+ * Shortest spacing between consecutive candles (the base period)
+ */
+function inferPeriod(candles: Candle[]): number {
+  let period = Infinity;
+  for (let i = 1; i < candles.length; i++) {
+    const gap = new Date(candles[i].time).getTime() - new Date(candles[i - 1].time).getTime();
+    if (gap > 0 && gap < period) period = gap;
+  }
+  return period === Infinity ? 0 : period;
+}
+
+/**
+ * Combines candles into a higher timeframe
+ * Bid/ask bars are combined too when every candle in a bucket has them.
+ *
+ * @param candles - Base candles sorted oldest first
+ * @param granularity - Target OANDA granularity (e.g., 'H4', 'D')
+ * @param options - Read time for the forming candle
+ * @returns Resampled candles oldest first, without empty buckets
+ */
+export function resampleCandles(
+  candles: Candle[],
+  granularity: string,
+  options: ResampleOptions = {}
+): Candle[] {
+  if (candles.length === 0) return [];
+
+  const lastTime = new Date(candles[candles.length - 1].time).getTime();
+  const now = options.now?.getTime() ?? lastTime + inferPeriod(candles);
+
+  const buckets: { bucket: CandleBucket; candles: Candle[] }[] = [];
+  for (const candle of candles) {
+    const time = new Date(candle.time).getTime();
+    const current = buckets[buckets.length - 1];
+
+    if (current && time >= current.bucket.start && time < current.bucket.end) {
+      current.candles.push(candle);
+    } else {
+      buckets.push({ bucket: getCandleBucket(time, granularity), candles: [candle] });
+    }
+  }
+
+  return buckets.map(({ bucket, candles: members }, index) => {
+    const withBidAsk = members.every(c => c.bid && c.ask);
+    const isLast = index === buckets.length - 1;
+
+    return {
+      time: new Date(bucket.start).toISOString(),
+      open: members[0].open,
+      high: Math.max(...members.map(c => c.high)),
+      low: Math.min(...members.map(c => c.low)),
+      close: members[members.length - 1].close,
+      volume: members.reduce((sum, c) => sum + (c.volume ?? 0), 0),
+      complete: members.every(c => c.complete) && (!isLast || now >= bucket.end),
+      ...(withBidAsk && {
+        bid: mergeBars(members.map(c => c.bid!)),
+        ask: mergeBars(members.map(c => c.ask!)),
+      }),
+    };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Source Decorator
+// -----------------------------------------------------------------------------
+
+// Granularities of the timeframes the scanner and config know about
+const TIMEFRAME_GRANULARITIES = new Set(
+  Object.values(TIMEFRAME_CONFIGS).map(config => config.oandaGranularity)
+);
+
+/**
+ * Serves higher timeframes by resampling one base timeframe
+ * Requests that fit in baseCount share one base fetch, so a withCache
+ * underneath makes one request per pair across timeframes. Longer ones
+ * page through fetchHistory. Timeframes that can't be built from the base,
+ * or aren't configured timeframes, go straight to the source.
+ *
+ * @param source - Source to wrap
+ * @param options - Base timeframe, history length and clock
+ */
+export function withResampling(source: CandleSource, options: ResamplingOptions = {}): CandleSource {
+  const { base = 'M15', baseCount = OANDA_MAX_CANDLES, margin = 0.1, clock = systemClock } = options;
+  const baseGranularity = TIMEFRAME_CONFIGS[base].oandaGranularity;
+  const baseMs = getGranularityMinutes(baseGranularity) * 60 * 1000;
+
+  const resamples = (granularity: string) =>
+    TIMEFRAME_GRANULARITIES.has(granularity) && canResample(baseGranularity, granularity);
+
+  /**
+   * Latest base candles covering `count` target candles
+   */
+  const fetchBase = async (pair: Instrument, granularity: string, count: number): Promise<Candle[]> => {
+    // One extra target candle for a partial bucket at the start
+    const ratio = getResampleRatio(baseGranularity, granularity);
+    const needed = Math.ceil((count + 1) * ratio * (1 + margin));
+    const fetchCount = Math.max(baseCount, needed);
+
+    if (fetchCount <= OANDA_MAX_CANDLES) {
+      return source.fetchCandles(pair, base, fetchCount);
+    }
+
+    // The base only prints five days a week, so stretch the span by 7/5
+    const now = clock.now().getTime();
+    const history = await fetchHistory(source, {
+      pair,
+      granularity: baseGranularity,
+      from: new Date(now - Math.ceil(needed * 7 / 5) * baseMs).toISOString(),
+      to: new Date(now).toISOString(),
+      includeIncomplete: true,
+    });
+    return history.candles;
+  };
+
+  return {
+    name: `resample(${source.name}, ${base})`,
+
+    fetchCandles: async (pair: Instrument, timeframe: Timeframe, count: number) => {
+      const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+      if (!resamples(granularity)) {
+        return source.fetchCandles(pair, timeframe, count);
+      }
+
+      const candles = await fetchBase(pair, granularity, count);
+      return resampleCandles(candles, granularity, { now: clock.now() }).slice(-count);
+    },
+
+    fetchCandlesBetween: async (pair: Instrument, granularity: string, from: string, to: string) => {
+      if (!resamples(granularity)) {
+        return source.fetchCandlesBetween(pair, granularity, from, to);
+      }
+
+      // Start at the open of the bucket containing `from` so it's not cut short
+      const start = getCandleBucket(new Date(from).getTime(), granularity).start;
+      const end = new Date(to).getTime();
+      const { candles } = await fetchHistory(source, {
+        pair,
+        granularity: baseGranularity,
+        from: new Date(start).toISOString(),
+        to,
+        includeIncomplete: true,
+      });
+
+      // Buckets running past `to` are missing candles, so they stay incomplete
+      const now = new Date(Math.min(end, clock.now().getTime()));
+      return resampleCandles(candles, granularity, { now }).filter(c => {
+        const time = new Date(c.time).getTime();
+        return time >= new Date(from).getTime() && time < end;
+      });
+    },
+  };
+}
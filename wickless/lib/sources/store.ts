@@ -0,0 +1,409 @@
+// =============================================================================
+// WICKLESS STRATEGY — LOCAL CANDLE STORE
+// =============================================================================
+// A CandleSource that keeps complete candles on disk and only asks the
+// upstream source for what it doesn't have yet:
+// - fetchCandles syncs incrementally from the last stored candle, and only
+//   once the next candle can have closed
+// - fetchCandlesBetween downloads any part of the range not yet stored
+// - findGaps/backfill repair holes inside a stored series
+//
+// One CSV file per pair/granularity (time,open,high,low,close,volume, plus
+// bid/ask columns when upstream provides them), so the folder doubles as a
+// reproducible dataset for CsvSource.
+// =============================================================================
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Candle, CandleSource, Instrument, Timeframe } from '../../types/types';
+import { TIMEFRAME_CONFIGS, getGranularityMinutes } from '../config';
+import { Clock, systemClock } from '../pipeline/clock';
+import { getCandleBucket, isWeekendBreak } from '../market/clock';
+import { MarketCalendar, defaultMarketCalendar } from '../market/calendar';
+import { BID_ASK_CSV_COLUMNS, parseCandleCsv } from './csv';
+import { fetchHistory } from './history';
+import { countOpenPeriods } from './quality';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface CandleGap {
+  // First missing candle time
+  from: string;
+  // Time of the next stored candle
+  to: string;
+  // Candles missing while the market was open
+  missing: number;
+}
+
+export interface CandleSyncResult {
+  pair: Instrument;
+  granularity: string;
+  added: number;
+  total: number;
+  gaps: CandleGap[];
+}
+
+export interface LocalCandleStoreOptions {
+  clock?: Clock;
+  // Market hours and holidays for gap detection (default: defaultMarketCalendar)
+  calendar?: MarketCalendar;
+  // History to download for an empty series, in candle periods (default: 5000)
+  initialPeriods?: number;
+  // Minimum time between upstream checks of one series (default: 60s)
+  minSyncIntervalMs?: number;
+  // Concurrent upstream requests for long downloads (default: 4)
+  concurrency?: number;
+  // File name for a pair/granularity (default: `${pair}_${granularity}.csv`)
+  fileName?: (pair: Instrument, granularity: string) => string;
+}
+
+interface Series {
+  candles: Candle[];
+  // Earliest time upstream has been asked about
+  coveredFrom: number;
+  // Close of the latest complete candle stored - everything before it is
+  // final, so the next download starts here
+  syncedUntil: number;
+  // When upstream was last asked for new candles (ms)
+  checkedAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// Gap detection
+// -----------------------------------------------------------------------------
+
+/**
+ * Close time of a stored candle (ms) - the next candle's open on the candle
+ * clock, so D/W candles follow DST
+ */
+function getStoredCandleClose(time: number, granularity: string): number {
+  try {
+    return getCandleBucket(time, granularity).end;
+  } catch {
+    return time + getGranularityMinutes(granularity) * 60 * 1000;
+  }
+}
+
+/**
+ * Finds missing candles between consecutive stored candles
+ * Periods the market was closed for (weekends with DST, per-instrument
+ * breaks and holidays, per the market calendar) are not gaps.
+ *
+ * @param candles - Candles sorted oldest first
+ * @param granularity - OANDA granularity
+ * @param pair - Instrument, for its hours and holidays (omitted: weekends only)
+ * @param calendar - Market calendar (default: defaultMarketCalendar)
+ * @returns Gaps oldest first
+ */
+export function findCandleGaps(
+  candles: Candle[],
+  granularity: string,
+  pair?: Instrument,
+  calendar: MarketCalendar = defaultMarketCalendar
+): CandleGap[] {
+  const gaps: CandleGap[] = [];
+  try {
+    getCandleBucket(0, granularity);
+  } catch {
+    return gaps;
+  }
+
+  const isOpen = (time: number) => pair
+    ? calendar.isOpen(pair, new Date(time))
+    : !isWeekendBreak(time);
+
+  for (let i = 1; i < candles.length; i++) {
+    const previous = new Date(candles[i - 1].time).getTime();
+    const next = new Date(candles[i].time).getTime();
+    const from = getCandleBucket(previous, granularity).end;
+
+    const { count, first } = countOpenPeriods(from, next, granularity, isOpen);
+    if (count > 0 && first !== null) {
+      gaps.push({
+        from: new Date(first).toISOString(),
+        to: candles[i].time,
+        missing: count,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+export class LocalCandleStore implements CandleSource {
+  readonly name: string;
+  private series = new Map<string, Promise<Series>>();
+  private locks = new Map<string, Promise<unknown>>();
+  private readonly clock: Clock;
+  private readonly calendar: MarketCalendar;
+  private readonly initialPeriods: number;
+  private readonly minSyncIntervalMs: number;
+  private readonly concurrency: number;
+  private readonly fileName: (pair: Instrument, granularity: string) => string;
+
+  /**
+   * @param directory - Folder for the CSV files (created if missing)
+   * @param upstream - Where missing candles come from
+   * @param options - Clock, sync limits and file naming
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly upstream: CandleSource,
+    options: LocalCandleStoreOptions = {}
+  ) {
+    this.name = `store(${upstream.name})`;
+    this.clock = options.clock ?? systemClock;
+    this.calendar = options.calendar ?? defaultMarketCalendar;
+    this.initialPeriods = options.initialPeriods ?? 5000;
+    this.minSyncIntervalMs = options.minSyncIntervalMs ?? 60 * 1000;
+    this.concurrency = options.concurrency ?? 4;
+    this.fileName = options.fileName ?? ((pair, granularity) => `${pair}_${granularity}.csv`);
+  }
+
+  async fetchCandles(pair: Instrument, timeframe: Timeframe, count: number): Promise<Candle[]> {
+    const granularity = TIMEFRAME_CONFIGS[timeframe].oandaGranularity;
+
+    return this.exclusive(pair, granularity, async series => {
+      const periodMs = getGranularityMinutes(granularity) * 60 * 1000;
+      const now = this.clock.now().getTime();
+      const last = series.candles[series.candles.length - 1];
+
+      if (!last) {
+        const periods = Math.max(count, this.initialPeriods);
+        await this.download(pair, granularity, series, now - periods * periodMs, now);
+      } else {
+        // Only ask upstream once the candle after the last stored one has closed
+        const nextClose = new Date(last.time).getTime() + 2 * periodMs;
+        if (now >= nextClose && now - series.checkedAt >= this.minSyncIntervalMs) {
+          await this.download(pair, granularity, series, new Date(last.time).getTime() + periodMs, now);
+        }
+      }
+
+      return series.candles.slice(-count);
+    });
+  }
+
+  async fetchCandlesBetween(
+    pair: Instrument,
+    granularity: string,
+    from: string,
+    to: string
+  ): Promise<Candle[]> {
+    const start = new Date(from).getTime();
+    const end = Math.min(new Date(to).getTime(), this.clock.now().getTime());
+
+    return this.exclusive(pair, granularity, async series => {
+      if (series.candles.length === 0) {
+        await this.download(pair, granularity, series, start, end);
+      } else {
+        // Extend the stored range so it stays contiguous
+        if (start < series.coveredFrom) {
+          await this.download(pair, granularity, series, start, series.coveredFrom);
+        }
+        if (end > series.syncedUntil) {
+          await this.download(pair, granularity, series, series.syncedUntil, end);
+        }
+      }
+
+      return series.candles.filter(c => {
+        const time = new Date(c.time).getTime();
+        return time >= start && time < end;
+      });
+    });
+  }
+
+  /**
+   * Fetches everything newer than the last stored candle
+   */
+  async sync(pair: Instrument, granularity: string): Promise<CandleSyncResult> {
+    return this.exclusive(pair, granularity, async series => {
+      const periodMs = getGranularityMinutes(granularity) * 60 * 1000;
+      const now = this.clock.now().getTime();
+      const last = series.candles[series.candles.length - 1];
+      const from = last
+        ? new Date(last.time).getTime() + periodMs
+        : now - this.initialPeriods * periodMs;
+
+      const added = await this.download(pair, granularity, series, from, now);
+      return this.toResult(pair, granularity, series, added);
+    });
+  }
+
+  /**
+   * Refetches every gap inside the stored series
+   * Gaps upstream has no candles for (holidays) remain in the result.
+   */
+  async backfill(pair: Instrument, granularity: string): Promise<CandleSyncResult> {
+    return this.exclusive(pair, granularity, async series => {
+      let added = 0;
+      for (const gap of findCandleGaps(series.candles, granularity, pair, this.calendar)) {
+        added += await this.download(
+          pair,
+          granularity,
+          series,
+          new Date(gap.from).getTime(),
+          new Date(gap.to).getTime()
+        );
+      }
+      return this.toResult(pair, granularity, series, added);
+    });
+  }
+
+  /**
+   * Gaps in the stored series, without contacting upstream
+   */
+  async findGaps(pair: Instrument, granularity: string): Promise<CandleGap[]> {
+    const series = await this.load(pair, granularity);
+    return findCandleGaps(series.candles, granularity, pair, this.calendar);
+  }
+
+  /**
+   * All stored candles for a pair/granularity, without contacting upstream
+   */
+  async getStored(pair: Instrument, granularity: string): Promise<Candle[]> {
+    const series = await this.load(pair, granularity);
+    return series.candles;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Runs one operation per series at a time, so concurrent syncs of the
+   * same pair don't download or write twice
+   */
+  private exclusive<T>(
+    pair: Instrument,
+    granularity: string,
+    operation: (series: Series) => Promise<T>
+  ): Promise<T> {
+    const key = `${pair}:${granularity}`;
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const result = previous.then(async () => operation(await this.load(pair, granularity)));
+    this.locks.set(key, result.catch(() => undefined));
+    return result;
+  }
+
+  /**
+   * Fetches [from, to) from upstream, merges complete candles and saves
+   * Forming candles are skipped and syncedUntil stops before them, so the
+   * next download picks them up once complete.
+   *
+   * @returns Number of new candles
+   */
+  private async download(
+    pair: Instrument,
+    granularity: string,
+    series: Series,
+    from: number,
+    to: number
+  ): Promise<number> {
+    if (from >= to) return 0;
+
+    const { candles } = await fetchHistory(this.upstream, {
+      pair,
+      granularity,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      concurrency: this.concurrency,
+    });
+
+    const byTime = new Map<number, Candle>();
+    for (const candle of series.candles) {
+      byTime.set(new Date(candle.time).getTime(), candle);
+    }
+
+    const before = byTime.size;
+    let lastClose = -Infinity;
+    for (const candle of candles) {
+      if (!candle.complete) continue;
+      const time = new Date(candle.time).getTime();
+      byTime.set(time, { ...candle, time: new Date(time).toISOString() });
+      lastClose = Math.max(lastClose, getStoredCandleClose(time, granularity));
+    }
+    const added = byTime.size - before;
+
+    series.coveredFrom = Math.min(series.coveredFrom, from);
+    series.syncedUntil = Math.max(series.syncedUntil, lastClose);
+    series.checkedAt = this.clock.now().getTime();
+
+    if (added > 0) {
+      series.candles = [...byTime.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, candle]) => candle);
+      await this.save(pair, granularity, series.candles);
+    }
+
+    return added;
+  }
+
+  private load(pair: Instrument, granularity: string): Promise<Series> {
+    const path = this.path(pair, granularity);
+    let series = this.series.get(path);
+
+    if (!series) {
+      series = readFile(path, 'utf8')
+        .then(text => parseCandleCsv(text), error => {
+          // A missing file is an empty series
+          if (error.code === 'ENOENT') return [];
+          throw error;
+        })
+        .then(candles => ({
+          candles,
+          coveredFrom: candles.length > 0 ? new Date(candles[0].time).getTime() : Infinity,
+          syncedUntil: candles.length > 0
+            ? getStoredCandleClose(new Date(candles[candles.length - 1].time).getTime(), granularity)
+            : -Infinity,
+          checkedAt: -Infinity,
+        }));
+      series.catch(() => this.series.delete(path));
+      this.series.set(path, series);
+    }
+
+    return series;
+  }
+
+  private async save(pair: Instrument, granularity: string, candles: Candle[]): Promise<void> {
+    const path = this.path(pair, granularity);
+    const bidAsk = candles.length > 0 && candles.every(c => c.bid && c.ask);
+    const header = ['time', 'open', 'high', 'low', 'close', 'volume', ...(bidAsk ? BID_ASK_CSV_COLUMNS : [])];
+    const rows = candles.map(c => {
+      const row = [c.time, c.open, c.high, c.low, c.close, c.volume ?? 0];
+      if (bidAsk && c.bid && c.ask) {
+        row.push(c.bid.open, c.bid.high, c.bid.low, c.bid.close, c.ask.open, c.ask.high, c.ask.low, c.ask.close);
+      }
+      return row.join(',');
+    });
+
+    // Write then rename so a crash never leaves a half-written file
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, [header.join(','), ...rows].join('\n') + '\n');
+    await rename(`${path}.tmp`, path);
+  }
+
+  private path(pair: Instrument, granularity: string): string {
+    return join(this.directory, this.fileName(pair, granularity));
+  }
+
+  private toResult(
+    pair: Instrument,
+    granularity: string,
+    series: Series,
+    added: number
+  ): CandleSyncResult {
+    return {
+      pair,
+      granularity,
+      added,
+      total: series.candles.length,
+      gaps: findCandleGaps(series.candles, granularity, pair, this.calendar),
+    };
+  }
+}
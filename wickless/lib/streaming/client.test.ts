@@ -0,0 +1,152 @@
+// =============================================================================
+// WICKLESS STRATEGY — PRICE STREAM CLIENT TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { PriceTick } from '../../types/types';
+import { PriceStream, parseStreamLine } from './client';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const TICK_LINE = JSON.stringify({
+  type: 'PRICE',
+  instrument: 'EUR_USD',
+  time: '2024-01-02T10:20:00.000Z',
+  tradeable: true,
+  bids: [{ price: '1.09980', liquidity: 1000000 }],
+  asks: [{ price: '1.10000', liquidity: 1000000 }],
+});
+
+const HEARTBEAT_LINE = JSON.stringify({ type: 'HEARTBEAT', time: '2024-01-02T10:20:05.000Z' });
+
+type Handler = (res: ServerResponse) => void;
+
+/**
+ * Starts a local stream stub that answers the nth request with handlers[n]
+ * (the last handler repeats), runs the test, then closes every connection
+ */
+async function withStreamServer(
+  handlers: Handler[],
+  run: (url: string) => Promise<void>
+): Promise<number> {
+  let requests = 0;
+  const server = createServer((_req, res) => {
+    handlers[Math.min(requests++, handlers.length - 1)](res);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}/stream`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+
+  return requests;
+}
+
+const unavailable: Handler = res => {
+  res.writeHead(503);
+  res.end();
+};
+
+// Sends the headers, then holds the connection open without any data
+const silent: Handler = res => {
+  res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+  res.flushHeaders();
+};
+
+// Sends one tick, split mid-line across two chunks, then ends
+const splitTick: Handler = res => {
+  res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+  const cut = Math.floor(TICK_LINE.length / 2);
+  res.write(TICK_LINE.slice(0, cut));
+  setTimeout(() => res.end(`${TICK_LINE.slice(cut)}\n${HEARTBEAT_LINE}\n`), 20);
+};
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('a line split across chunks is handled once it is complete', async () => {
+  const ticks: PriceTick[] = [];
+  const heartbeats: string[] = [];
+
+  await withStreamServer([splitTick], async url => {
+    const stream: PriceStream = new PriceStream(
+      { pairs: ['EUR_USD'], url, apiKey: 'test' },
+      {
+        onTick: tick => { ticks.push(tick); },
+        onHeartbeat: time => { heartbeats.push(time); },
+        onDisconnect: () => stream.stop(),
+      }
+    );
+    await stream.start();
+  });
+
+  assert.deepEqual(ticks, [
+    { pair: 'EUR_USD', time: '2024-01-02T10:20:00.000Z', bid: 1.0998, ask: 1.1 },
+  ]);
+  assert.deepEqual(heartbeats, ['2024-01-02T10:20:05.000Z']);
+});
+
+test('a silent connection times out and reconnects', async () => {
+  const errors: (string | null)[] = [];
+  const ticks: PriceTick[] = [];
+
+  const requests = await withStreamServer([silent, splitTick], async url => {
+    const stream: PriceStream = new PriceStream(
+      { pairs: ['EUR_USD'], url, apiKey: 'test', heartbeatTimeoutMs: 100, reconnectDelayMs: 10 },
+      {
+        onTick: tick => {
+          ticks.push(tick);
+          stream.stop();
+        },
+        onDisconnect: error => { errors.push(error?.message ?? null); },
+      }
+    );
+    await stream.start();
+    assert.equal(stream.status, 'STOPPED');
+  });
+
+  assert.equal(requests, 2);
+  assert.deepEqual(errors, ['No data from price stream for 100ms']);
+  assert.equal(ticks.length, 1);
+});
+
+test('reconnects start at the base delay, back off, and reset after data', async () => {
+  const delays: number[] = [];
+
+  await withStreamServer([unavailable, unavailable, splitTick, unavailable], async url => {
+    const stream: PriceStream = new PriceStream(
+      {
+        pairs: ['EUR_USD'],
+        url,
+        apiKey: 'test',
+        reconnectDelayMs: 100,
+        sleep: async ms => {
+          delays.push(ms);
+          if (delays.length === 4) stream.stop();
+        },
+      },
+      { onTick: () => {} }
+    );
+    await stream.start();
+  });
+
+  assert.deepEqual(delays, [100, 200, 100, 200]);
+});
+
+test('stream lines for unknown instruments are dropped', () => {
+  const unknown = TICK_LINE.replace('EUR_USD', 'NOT_AN_INSTRUMENT');
+
+  assert.equal(parseStreamLine(unknown), null);
+  assert.equal(parseStreamLine(TICK_LINE)?.type, 'PRICE');
+});
@@ -0,0 +1,275 @@
+// =============================================================================
+// WICKLESS STRATEGY — OANDA PRICING STREAM CLIENT
+// =============================================================================
+// Consumes OANDA's pricing stream (/v3/accounts/{id}/pricing/stream):
+// - The response is chunked newline-delimited JSON; lines are buffered
+//   across chunks and parsed one at a time
+// - OANDA sends a HEARTBEAT every 5s; if nothing arrives for
+//   heartbeatTimeoutMs the connection is treated as dead
+// - Dropped or dead connections reconnect with exponential backoff until
+//   stop() is called
+//
+// The URL and fetch are injectable so tests can point it at a local stub.
+// =============================================================================
+
+import { Instrument, OandaStreamMessage, PriceTick } from '../../types/types';
+import { OANDA_CONFIG, toInstrument } from '../config';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface PriceStreamOptions {
+  pairs: Instrument[];
+  // Stream endpoint (default: OANDA pricing stream for OANDA_ACCOUNT_ID)
+  url?: string;
+  apiKey?: string;
+  // Reconnect when nothing arrives for this long (default: 15s)
+  heartbeatTimeoutMs?: number;
+  // First reconnect delay, doubled per failed attempt (default: 1s)
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface PriceStreamHandlers {
+  // Awaited before the next line is handled, so ticks are processed in order
+  onTick: (tick: PriceTick) => void | Promise<void>;
+  onHeartbeat?: (time: string) => void;
+  onConnect?: () => void;
+  onDisconnect?: (error: Error | null) => void;
+}
+
+export type PriceStreamStatus = 'IDLE' | 'CONNECTING' | 'STREAMING' | 'RECONNECTING' | 'STOPPED';
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Parses one line of the pricing stream
+ *
+ * @param line - JSON line
+ * @returns Tick, heartbeat, or null for blank/unknown/untradeable lines
+ *   and instruments that aren't configured or in the catalog
+ */
+export function parseStreamLine(
+  line: string
+): { type: 'PRICE'; tick: PriceTick } | { type: 'HEARTBEAT'; time: string } | null {
+  if (line.trim() === '') return null;
+
+  const message = JSON.parse(line) as OandaStreamMessage;
+
+  if (message.type === 'HEARTBEAT') {
+    return { type: 'HEARTBEAT', time: message.time };
+  }
+
+  if (message.type === 'PRICE') {
+    // Quotes without both sides (market closed) can't trigger anything
+    if (message.tradeable === false || !message.bids?.length || !message.asks?.length) {
+      return null;
+    }
+    const pair = toInstrument(message.instrument);
+    if (!pair) return null;
+
+    return {
+      type: 'PRICE',
+      tick: {
+        pair,
+        time: message.time,
+        bid: parseFloat(message.bids[0].price),
+        ask: parseFloat(message.asks[0].price),
+      },
+    };
+  }
+
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Client
+// -----------------------------------------------------------------------------
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class PriceStream {
+  private state: PriceStreamStatus = 'IDLE';
+  private controller: AbortController | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private wake: (() => void) | null = null;
+  // Whether the current connection has delivered any data
+  private received = false;
+  private readonly url: string;
+  private readonly apiKey: string;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private readonly fetch: typeof fetch;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  /**
+   * @param options - Pairs, endpoint and reconnect settings
+   * @param handlers - Tick, heartbeat and connection callbacks
+   */
+  constructor(options: PriceStreamOptions, private readonly handlers: PriceStreamHandlers) {
+    const base = options.url ??
+      `${OANDA_CONFIG.STREAM_URL}/v3/accounts/${OANDA_CONFIG.ACCOUNT_ID}/pricing/stream`;
+    this.url = `${base}?instruments=${options.pairs.join(',')}`;
+    this.apiKey = options.apiKey ?? OANDA_CONFIG.API_KEY;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 15 * 1000;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30 * 1000;
+    this.fetch = options.fetch ?? fetch;
+    this.sleep = options.sleep ?? defaultSleep;
+  }
+
+  get status(): PriceStreamStatus {
+    return this.state;
+  }
+
+  /**
+   * Streams until stop() is called, reconnecting as needed
+   * Resolves once stopped.
+   */
+  async start(): Promise<void> {
+    if (this.state !== 'IDLE' && this.state !== 'STOPPED') {
+      throw new Error('Price stream already running');
+    }
+
+    let delay = this.reconnectDelayMs;
+    this.state = 'CONNECTING';
+
+    while (this.isRunning()) {
+      let error: Error | null = null;
+      this.state = 'CONNECTING';
+
+      try {
+        await this.connect();
+      } catch (err) {
+        error = err instanceof Error ? err : new Error(String(err));
+      }
+
+      if (!this.isRunning()) break;
+
+      this.state = 'RECONNECTING';
+      this.handlers.onDisconnect?.(error);
+      if (!this.isRunning()) break;
+
+      // A connection that delivered data resets the backoff
+      if (this.received) delay = this.reconnectDelayMs;
+      await Promise.race([
+        this.sleep(delay),
+        new Promise<void>(resolve => { this.wake = resolve; }),
+      ]);
+      this.wake = null;
+      delay = Math.min(delay * 2, this.maxReconnectDelayMs);
+    }
+
+    this.state = 'STOPPED';
+  }
+
+  /**
+   * Closes the connection and stops reconnecting
+   */
+  stop(): void {
+    this.state = 'STOPPED';
+    this.controller?.abort();
+    // Aborting doesn't always settle a pending read, so cancel it too
+    this.reader?.cancel().catch(() => {});
+    this.wake?.();
+  }
+
+  private isRunning(): boolean {
+    return this.state !== 'STOPPED';
+  }
+
+  /**
+   * Runs one connection until it ends
+   */
+  private async connect(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.received = false;
+
+    // Abort when the stream goes quiet for too long
+    let watchdog: ReturnType<typeof setTimeout> | null = null;
+    let timedOut = false;
+    const resetWatchdog = () => {
+      if (watchdog) clearTimeout(watchdog);
+      watchdog = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.heartbeatTimeoutMs);
+    };
+
+    try {
+      resetWatchdog();
+      const response = await this.fetch(this.url, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`OANDA stream error: ${response.status} ${response.statusText}`);
+      }
+
+      this.state = 'STREAMING';
+      this.handlers.onConnect?.();
+
+      const reader = response.body.getReader();
+      this.reader = reader;
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done || !this.isRunning()) break;
+
+        this.received = true;
+        resetWatchdog();
+        buffer += decoder.decode(value, { stream: true });
+
+        // Keep the trailing partial line for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!this.isRunning()) break;
+          await this.handleLine(line);
+        }
+      }
+
+      if (this.isRunning()) {
+        await this.handleLine(buffer + decoder.decode());
+      }
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`No data from price stream for ${this.heartbeatTimeoutMs}ms`);
+      }
+      // Aborted by stop()
+      if (!this.isRunning()) return;
+      throw error;
+    } finally {
+      if (watchdog) clearTimeout(watchdog);
+      this.controller = null;
+      this.reader = null;
+    }
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let message: ReturnType<typeof parseStreamLine>;
+    try {
+      message = parseStreamLine(line);
+    } catch (error) {
+      console.error('Unparseable price stream line:', line, error);
+      return;
+    }
+
+    if (message?.type === 'PRICE') {
+      await this.handlers.onTick(message.tick);
+    } else if (message?.type === 'HEARTBEAT') {
+      this.handlers.onHeartbeat?.(message.time);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// =============================================================================
+// WICKLESS STRATEGY — STREAMING MODULE EXPORTS
+// =============================================================================
+
+// Pricing stream client
+export {
+  PriceStream,
+  parseStreamLine,
+  type PriceStreamOptions,
+  type PriceStreamHandlers,
+  type PriceStreamStatus,
+} from './client';
+
+// Tick-level entry and outcome monitoring
+export {
+  TickMonitor,
+  runStreamMonitor,
+  type TickMonitorOptions,
+  type TickEvent,
+  type StreamMonitorOptions,
+} from './monitor';
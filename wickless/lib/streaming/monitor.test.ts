@@ -0,0 +1,160 @@
+// =============================================================================
+// WICKLESS STRATEGY — TICK MONITOR TESTS
+// =============================================================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActiveSetup, Signal } from '../../types/types';
+import { FakeClock, createSequentialIdGenerator } from '../pipeline/clock';
+import { MemoryStore } from '../pipeline/store';
+import { TickEvent, runStreamMonitor } from './monitor';
+
+// -----------------------------------------------------------------------------
+// Fixtures
+// -----------------------------------------------------------------------------
+
+const setup: ActiveSetup = {
+  id: 'setup-1',
+  pair: 'EUR_USD',
+  timeframe: 'M15',
+  direction: 'BUY',
+  signalCandleTime: '2024-01-02T10:00:00.000Z',
+  signalCandleOpen: 1.1030,
+  signalCandleHigh: 1.1040,
+  signalCandleLow: 1.1010,
+  signalCandleClose: 1.1038,
+  signalSpread: null,
+  entryZone: 1.1000,
+  stopLoss: 1.0980,
+  takeProfit: 1.1020,
+  candlesElapsed: 0,
+  status: 'WAITING',
+  createdAt: '2024-01-02T10:15:00.000Z',
+};
+
+const openSignal: Signal = {
+  id: 'signal-1',
+  setupId: 'setup-0',
+  pair: 'EUR_USD',
+  timeframe: 'M15',
+  direction: 'BUY',
+  entryPrice: 1.1000,
+  stopLoss: 1.0980,
+  takeProfit: 1.1020,
+  entryTime: '2024-01-02T09:00:00.000Z',
+  outcome: null,
+  outcomeTime: null,
+  entryFillPrice: null,
+  exitFillPrice: null,
+  netR: null,
+  createdAt: '2024-01-02T09:00:00.000Z',
+};
+
+function priceLine(time: string, bid: number, ask: number): string {
+  return JSON.stringify({
+    type: 'PRICE',
+    instrument: 'EUR_USD',
+    time,
+    tradeable: true,
+    bids: [{ price: bid.toFixed(5), liquidity: 1000000 }],
+    asks: [{ price: ask.toFixed(5), liquidity: 1000000 }],
+  });
+}
+
+// Ask touches the BUY entry zone
+const ENTRY_TICK = priceLine('2024-01-02T10:20:00.000Z', 1.0998, 1.1000);
+
+// Bid reaches the BUY take profit
+const TP_TICK = priceLine('2024-01-02T10:20:00.000Z', 1.1021, 1.1023);
+
+/**
+ * Streams the given lines once, then stops the runner on reconnect
+ * beforeStream runs after the monitor's first refresh, before any tick.
+ */
+async function runFakeStream(
+  store: MemoryStore,
+  lines: string[],
+  beforeStream: () => Promise<void> = async () => {}
+): Promise<TickEvent[]> {
+  const events: TickEvent[] = [];
+  let stop = () => {};
+  let calls = 0;
+
+  const fakeFetch = (async () => {
+    if (calls++ > 0) {
+      stop();
+      throw new Error('stream ended');
+    }
+    await beforeStream();
+    return new Response(lines.join('\n') + '\n');
+  }) as unknown as typeof fetch;
+
+  const runner = await runStreamMonitor({
+    store,
+    clock: new FakeClock('2024-01-02T10:20:00.000Z'),
+    generateId: createSequentialIdGenerator('test'),
+    pairs: ['EUR_USD'],
+    stream: { url: 'http://stream.test', apiKey: 'test', fetch: fakeFetch, sleep: async () => {} },
+    onEvent: event => events.push(event),
+  });
+  stop = runner.stop;
+  await runner.done;
+
+  return events;
+}
+
+// -----------------------------------------------------------------------------
+// Tests
+// -----------------------------------------------------------------------------
+
+test('entry tick triggers a WAITING setup once', async () => {
+  const store = new MemoryStore([setup]);
+  const events = await runFakeStream(store, [ENTRY_TICK, ENTRY_TICK]);
+
+  assert.deepEqual(events.map(e => e.type), ['ENTRY']);
+  assert.equal(store.getSetups()[0].status, 'TRIGGERED');
+  assert.equal(store.getSignals().length, 1);
+  assert.equal(store.getSignals()[0].entryTime, '2024-01-02T10:20:00.000Z');
+});
+
+test('setup expired by the cron after the refresh is not revived', async () => {
+  const store = new MemoryStore([setup]);
+  const events = await runFakeStream(store, [ENTRY_TICK], async () => {
+    await store.updateSetup(setup.id, { status: 'EXPIRED', ifStatus: 'WAITING' });
+  });
+
+  assert.deepEqual(events, []);
+  assert.equal(store.getSetups()[0].status, 'EXPIRED');
+  assert.equal(store.getSignals().length, 0);
+});
+
+test('setup triggered by the cron after the refresh gets no second signal', async () => {
+  const store = new MemoryStore([setup]);
+  const events = await runFakeStream(store, [ENTRY_TICK], async () => {
+    await store.updateSetup(setup.id, { status: 'TRIGGERED', ifStatus: 'WAITING' });
+  });
+
+  assert.deepEqual(events, []);
+  assert.equal(store.getSignals().length, 0);
+});
+
+test('take profit tick closes an open signal once', async () => {
+  const store = new MemoryStore([], [openSignal]);
+  const events = await runFakeStream(store, [TP_TICK, TP_TICK]);
+
+  assert.deepEqual(events.map(e => e.type), ['OUTCOME']);
+  assert.equal(store.getSignals()[0].outcome, 'WIN');
+  assert.ok(store.getSignals()[0].netR !== null);
+});
+
+test('signal closed by the cron after the refresh keeps its outcome', async () => {
+  const store = new MemoryStore([], [openSignal]);
+  const events = await runFakeStream(store, [TP_TICK], async () => {
+    await store.updateSignalOutcome(openSignal.id, 'LOSS', '2024-01-02T10:15:00.000Z');
+  });
+
+  assert.deepEqual(events, []);
+  assert.equal(store.getSignals()[0].outcome, 'LOSS');
+  assert.equal(store.getSignals()[0].outcomeTime, '2024-01-02T10:15:00.000Z');
+  assert.equal(store.getSignals()[0].netR, null);
+});
@@ -0,0 +1,282 @@
+// =============================================================================
+// WICKLESS STRATEGY — TICK MONITOR
+// =============================================================================
+// Evaluates WAITING setups and open signals on every price tick instead of
+// once per cron run, so entries and SL/TP hits carry the tick's time and
+// price rather than the candle timestamp.
+//
+// Same rules as the cron cycle, on the side each order fills on:
+// - Entry: BUY when the ask reaches the entry zone, SELL when the bid does
+// - Exit: BUY closes on the bid, SELL on the ask
+//
+// The cron cycle still counts candles and expires setups; the monitor only
+// triggers and closes. refresh() picks up setups the cron created since.
+// Both trigger with a compare-and-set on WAITING, so a setup becomes at
+// most one signal whichever of them sees the entry first.
+// =============================================================================
+
+import { ActiveSetup, Instrument, PriceTick, Signal, SignalOutcome } from '../../types/types';
+import { RECOMMENDED_PAIRS, getCostConfig } from '../config';
+import { checkOutcome } from '../detection/structure';
+import { signalToTradeSetup } from '../signals/outcome';
+import { calculateTradeCosts, withoutSpread } from '../signals/costs';
+import { Clock, IdGenerator, createIdGenerator, systemClock } from '../pipeline/clock';
+import { PipelineStore } from '../pipeline/store';
+import { PriceStream, PriceStreamOptions } from './client';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface TickMonitorOptions {
+  store: PipelineStore;
+  clock?: Clock;
+  generateId?: IdGenerator;
+  // Random source for RANDOM slippage
+  random?: () => number;
+}
+
+export type TickEvent =
+  | {
+      type: 'ENTRY';
+      setupId: string;
+      signal: Signal;
+      // Tick quote on the fill side
+      price: number;
+      time: string;
+    }
+  | {
+      type: 'OUTCOME';
+      signalId: string;
+      outcome: SignalOutcome;
+      // Tick quote on the fill side
+      price: number;
+      time: string;
+    };
+
+// -----------------------------------------------------------------------------
+// Monitor
+// -----------------------------------------------------------------------------
+
+export class TickMonitor {
+  private setups = new Map<string, ActiveSetup>();
+  private signals = new Map<string, Signal>();
+  // Setups triggered and signals closed here, in case a refresh read them
+  // from the store just before the update landed
+  private handled = new Set<string>();
+  // Refresh count when each signal was opened here
+  private openedAt = new Map<string, number>();
+  private refreshes = 0;
+  private readonly store: PipelineStore;
+  private readonly clock: Clock;
+  private readonly generateId: IdGenerator;
+  private readonly random: () => number;
+
+  constructor(options: TickMonitorOptions) {
+    const { store, clock = systemClock, random = Math.random } = options;
+    this.store = store;
+    this.clock = clock;
+    this.random = random;
+    this.generateId = options.generateId ?? createIdGenerator(clock, random);
+  }
+
+  /**
+   * Reloads WAITING setups and open signals from the store
+   */
+  async refresh(): Promise<void> {
+    const refresh = ++this.refreshes;
+    const [setups, signals] = await Promise.all([
+      this.store.getActiveSetups(),
+      this.store.getOpenSignals(),
+    ]);
+
+    // Signals opened while loading may be missing from the result
+    const opened = [...this.signals.values()].filter(s =>
+      (this.openedAt.get(s.id) ?? 0) >= refresh && !signals.some(o => o.id === s.id)
+    );
+
+    this.setups = new Map(
+      setups
+        .filter(s => s.status === 'WAITING' && !this.handled.has(s.id))
+        .map(s => [s.id, s])
+    );
+    this.signals = new Map(
+      [...signals, ...opened]
+        .filter(s => !this.handled.has(s.id))
+        .map(s => [s.id, s])
+    );
+  }
+
+  /**
+   * Pairs with at least one setup or signal to watch
+   */
+  getWatchedPairs(): Instrument[] {
+    const pairs = new Set<Instrument>();
+    for (const setup of this.setups.values()) pairs.add(setup.pair);
+    for (const signal of this.signals.values()) pairs.add(signal.pair);
+    return [...pairs];
+  }
+
+  /**
+   * Checks one tick against everything being watched for its pair
+   * Signals opened by this tick are checked from the next tick on.
+   *
+   * @param tick - Bid/ask quote
+   * @returns Entries and outcomes recorded for this tick
+   */
+  async onTick(tick: PriceTick): Promise<TickEvent[]> {
+    const events: TickEvent[] = [];
+
+    for (const signal of [...this.signals.values()]) {
+      if (signal.pair !== tick.pair) continue;
+
+      const event = await this.checkSignal(signal, tick);
+      if (event) events.push(event);
+    }
+
+    for (const setup of [...this.setups.values()]) {
+      if (setup.pair !== tick.pair) continue;
+
+      const event = await this.checkSetup(setup, tick);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  private async checkSetup(setup: ActiveSetup, tick: PriceTick): Promise<TickEvent | null> {
+    // BUY fills at the ask, SELL at the bid
+    const price = setup.direction === 'BUY' ? tick.ask : tick.bid;
+    const triggered = setup.direction === 'BUY'
+      ? price <= setup.entryZone
+      : price >= setup.entryZone;
+
+    if (!triggered) return null;
+
+    try {
+      // The cache can be a minute old: only trigger a setup that is still
+      // WAITING, so one the cron expired or triggered isn't revived
+      const updated = await this.store.updateSetup(setup.id, {
+        status: 'TRIGGERED',
+        ifStatus: 'WAITING',
+      });
+      if (!updated) {
+        this.setups.delete(setup.id);
+        return null;
+      }
+
+      // The entry zone is a limit order, so it fills at the zone
+      const signal: Signal = {
+        id: this.generateId(),
+        setupId: setup.id,
+        pair: setup.pair,
+        timeframe: setup.timeframe,
+        direction: setup.direction,
+        entryPrice: setup.entryZone,
+        stopLoss: setup.stopLoss,
+        takeProfit: setup.takeProfit,
+        entryTime: tick.time,
+        outcome: null,
+        outcomeTime: null,
+        entryFillPrice: null,
+        exitFillPrice: null,
+        netR: null,
+        createdAt: this.clock.now().toISOString(),
+      };
+
+      await this.store.saveSignal(signal);
+      this.handled.add(setup.id);
+      this.setups.delete(setup.id);
+      this.signals.set(signal.id, signal);
+      this.openedAt.set(signal.id, this.refreshes);
+
+      return { type: 'ENTRY', setupId: setup.id, signal, price, time: tick.time };
+    } catch (error) {
+      console.error(`Error triggering setup ${setup.id}:`, error);
+      return null;
+    }
+  }
+
+  private async checkSignal(signal: Signal, tick: PriceTick): Promise<TickEvent | null> {
+    // BUY closes at the bid, SELL at the ask
+    const price = signal.direction === 'BUY' ? tick.bid : tick.ask;
+    const outcome = checkOutcome(signalToTradeSetup(signal), price, price);
+
+    if (outcome === 'OPEN') return null;
+
+    try {
+      // The tick quote already includes the spread
+      const costs = calculateTradeCosts(
+        signal,
+        outcome,
+        tick.time,
+        withoutSpread(getCostConfig(signal.pair)),
+        this.random
+      );
+
+      // The cron may have closed it since the last refresh: only report
+      // an outcome this monitor actually recorded
+      const updated = await this.store.updateSignalOutcome(
+        signal.id, outcome, tick.time, price, costs
+      );
+      this.handled.add(signal.id);
+      this.signals.delete(signal.id);
+      if (!updated) return null;
+
+      return { type: 'OUTCOME', signalId: signal.id, outcome, price, time: tick.time };
+    } catch (error) {
+      console.error(`Error closing signal ${signal.id}:`, error);
+      return null;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Runner
+// -----------------------------------------------------------------------------
+
+export interface StreamMonitorOptions extends TickMonitorOptions {
+  pairs?: Instrument[];
+  // How often to pick up new setups from the store (default: 60s)
+  refreshIntervalMs?: number;
+  stream?: Omit<PriceStreamOptions, 'pairs'>;
+  onEvent?: (event: TickEvent) => void;
+}
+
+/**
+ * Streams prices for the configured pairs into a TickMonitor
+ * For a long-running worker - serverless routes can't hold a stream open.
+ *
+ * @param options - Store, pairs and stream settings
+ * @returns stop() and a promise that resolves once stopped
+ */
+export async function runStreamMonitor(
+  options: StreamMonitorOptions
+): Promise<{ monitor: TickMonitor; stop: () => void; done: Promise<void> }> {
+  const { pairs = RECOMMENDED_PAIRS, refreshIntervalMs = 60 * 1000, onEvent } = options;
+  const monitor = new TickMonitor(options);
+  await monitor.refresh();
+
+  const stream = new PriceStream({ ...options.stream, pairs }, {
+    onTick: async tick => {
+      for (const event of await monitor.onTick(tick)) {
+        onEvent?.(event);
+      }
+    },
+    onDisconnect: error => {
+      if (error) console.error('Price stream disconnected:', error.message);
+    },
+  });
+
+  const refresher = setInterval(() => {
+    monitor.refresh().catch(error => console.error('Tick monitor refresh failed:', error));
+  }, refreshIntervalMs);
+
+  const done = stream.start().finally(() => clearInterval(refresher));
+
+  return {
+    monitor,
+    stop: () => stream.stop(),
+    done,
+  };
+}
@@ -7,12 +7,15 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { 
   ActiveSetup, 
+  CostBreakdown,
   Signal, 
-  Pair, 
+  Instrument, 
   Timeframe,
   PairStats 
 } from '../types/types';
 import { DetailedScanResult } from './signals/scanner';
+import { getCandleSpread } from './oanda';
+import { toInstrument } from './config';
 
 // -----------------------------------------------------------------------------
 // Client Initialization
@@ -55,6 +58,7 @@ export async function saveActiveSetup(setup: ActiveSetup): Promise<ActiveSetup |
       signal_candle_high: setup.signalCandleHigh,
       signal_candle_low: setup.signalCandleLow,
       signal_candle_close: setup.signalCandleClose,
+      signal_spread: setup.signalSpread,
       entry_zone: setup.entryZone,
       stop_loss: setup.stopLoss,
       take_profit: setup.takeProfit,
@@ -89,14 +93,14 @@ export async function getActiveSetups(): Promise<ActiveSetup[]> {
     return [];
   }
 
-  return data.map(mapDbToActiveSetup);
+  return mapDbRows(data, mapDbToActiveSetup);
 }
 
 /**
  * Gets active setups for a specific pair and timeframe
  */
 export async function getActiveSetupsFor(
-  pair: Pair, 
+  pair: Instrument, 
   timeframe: Timeframe
 ): Promise<ActiveSetup[]> {
   const client = getSupabaseClient();
@@ -113,17 +117,22 @@ export async function getActiveSetupsFor(
     return [];
   }
 
-  return data.map(mapDbToActiveSetup);
+  return mapDbRows(data, mapDbToActiveSetup);
 }
 
 /**
  * Updates a setup's status and candles elapsed
+ * With ifStatus set, only a setup still in that status is updated, so the
+ * cron and the tick monitor can't both trigger (or revive) the same setup.
+ *
+ * @returns true if a row was updated
  */
 export async function updateSetup(
   id: string, 
   updates: { 
     status?: string; 
     candlesElapsed?: number;
+    ifStatus?: string;
   }
 ): Promise<boolean> {
   const client = getSupabaseClient();
@@ -132,17 +141,21 @@ export async function updateSetup(
   if (updates.status) dbUpdates.status = updates.status;
   if (updates.candlesElapsed !== undefined) dbUpdates.candles_elapsed = updates.candlesElapsed;
 
-  const { error } = await client
+  let query = client
     .from('active_setups')
     .update(dbUpdates)
     .eq('id', id);
 
+  if (updates.ifStatus) query = query.eq('status', updates.ifStatus);
+
+  const { data, error } = await query.select('id');
+
   if (error) {
     console.error('Error updating setup:', error);
     return false;
   }
 
-  return true;
+  return (data?.length ?? 0) > 0;
 }
 
 /**
@@ -169,7 +182,7 @@ export async function incrementCandleCount(id: string, currentCount: number): Pr
 /**
  * Checks if a setup already exists for this signal candle
  */
-export async function setupExists(pair: Pair, signalTime: string): Promise<boolean> {
+export async function setupExists(pair: Instrument, signalTime: string): Promise<boolean> {
   const client = getSupabaseClient();
   
   const { data, error } = await client
@@ -211,6 +224,9 @@ export async function saveSignal(signal: Signal): Promise<Signal | null> {
       entry_time: signal.entryTime,
       outcome: signal.outcome,
       outcome_time: signal.outcomeTime,
+      entry_fill_price: signal.entryFillPrice,
+      exit_fill_price: signal.exitFillPrice,
+      net_r: signal.netR,
     })
     .select()
     .single();
@@ -240,7 +256,7 @@ export async function getOpenSignals(): Promise<Signal[]> {
     return [];
   }
 
-  return data.map(mapDbToSignal);
+  return mapDbRows(data, mapDbToSignal);
 }
 
 /**
@@ -260,17 +276,65 @@ export async function getRecentSignals(limit: number = 50): Promise<Signal[]> {
     return [];
   }
 
-  return data.map(mapDbToSignal);
+  return mapDbRows(data, mapDbToSignal);
+}
+
+// Rows per request - at or below Supabase's default max-rows cap
+const CLOSED_SIGNALS_PAGE_SIZE = 1000;
+
+/**
+ * Gets closed signals (with outcomes), oldest first
+ * Feeds trade-sequence analysis like Monte Carlo. Pages through the whole
+ * history, since one request is capped at the server's max-rows.
+ */
+export async function getClosedSignals(
+  pair?: Instrument,
+  timeframe?: Timeframe
+): Promise<Signal[]> {
+  const client = getSupabaseClient();
+  const signals: Signal[] = [];
+
+  for (let from = 0; ; from += CLOSED_SIGNALS_PAGE_SIZE) {
+    let query = client
+      .from('signals')
+      .select('*')
+      .not('outcome', 'is', null);
+
+    if (pair) query = query.eq('pair', pair);
+    if (timeframe) query = query.eq('timeframe', timeframe);
+
+    // id breaks outcome_time ties so pages don't overlap or skip rows
+    const { data, error } = await query
+      .order('outcome_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + CLOSED_SIGNALS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error getting closed signals:', error);
+      return [];
+    }
+
+    signals.push(...mapDbRows(data, mapDbToSignal));
+    if (data.length < CLOSED_SIGNALS_PAGE_SIZE) break;
+  }
+
+  return signals;
 }
 
 /**
  * Updates signal outcome
+ * Costs record the fills and net R after spread, slippage and commission.
+ * Only a signal without an outcome is updated, so the cron and the tick
+ * monitor can't both close (and count) the same signal.
+ *
+ * @returns true if a row was updated
  */
 export async function updateSignalOutcome(
   id: string, 
   outcome: 'WIN' | 'LOSS',
   outcomeTime: string,
-  outcomePrice?: number
+  outcomePrice?: number,
+  costs?: Pick<CostBreakdown, 'entryFillPrice' | 'exitFillPrice' | 'netR'>
 ): Promise<boolean> {
   const client = getSupabaseClient();
   
@@ -281,18 +345,25 @@ export async function updateSignalOutcome(
   if (outcomePrice !== undefined) {
     updates.outcome_price = outcomePrice;
   }
+  if (costs) {
+    updates.entry_fill_price = costs.entryFillPrice;
+    updates.exit_fill_price = costs.exitFillPrice;
+    updates.net_r = costs.netR;
+  }
 
-  const { error } = await client
+  const { data, error } = await client
     .from('signals')
     .update(updates)
-    .eq('id', id);
+    .eq('id', id)
+    .is('outcome', null)
+    .select('id');
 
   if (error) {
     console.error('Error updating signal outcome:', error);
     return false;
   }
 
-  return true;
+  return (data?.length ?? 0) > 0;
 }
 
 // -----------------------------------------------------------------------------
@@ -314,21 +385,28 @@ export async function getAllStats(): Promise<PairStats[]> {
     return [];
   }
 
-  return data.map((row: Record<string, unknown>) => ({
-    pair: row.pair as Pair,
-    timeframe: 'ALL' as Timeframe,
-    totalSignals: Number(row.total_signals) || 0,
-    wins: Number(row.wins) || 0,
-    losses: Number(row.losses) || 0,
-    expired: Number(row.expired) || 0,
-    winRate: Number(row.win_rate) || 0,
-  }));
+  return mapDbRows(data, row => {
+    const pair = mapDbPair(row, 'v_performance_by_pair');
+    if (!pair) return null;
+
+    return {
+      pair,
+      timeframe: 'ALL' as Timeframe,
+      totalSignals: Number(row.total_signals) || 0,
+      wins: Number(row.wins) || 0,
+      losses: Number(row.losses) || 0,
+      expired: Number(row.expired) || 0,
+      winRate: Number(row.win_rate) || 0,
+      grossR: Number(row.gross_r) || 0,
+      netR: Number(row.net_r) || 0,
+    };
+  });
 }
 
 /**
  * Gets stats for a specific pair
  */
-export async function getStatsForPair(pair: Pair): Promise<PairStats | null> {
+export async function getStatsForPair(pair: Instrument): Promise<PairStats | null> {
   const client = getSupabaseClient();
   
   const { data, error } = await client
@@ -350,8 +428,10 @@ export async function getStatsForPair(pair: Pair): Promise<PairStats | null> {
       wins: acc.wins + (row.wins || 0),
       losses: acc.losses + (row.losses || 0),
       expired: acc.expired + (row.expired || 0),
+      grossR: acc.grossR + (Number(row.gross_r) || 0),
+      netR: acc.netR + (Number(row.net_r) || 0),
     }),
-    { totalSignals: 0, wins: 0, losses: 0, expired: 0 }
+    { totalSignals: 0, wins: 0, losses: 0, expired: 0, grossR: 0, netR: 0 }
   );
 
   const total = totals.wins + totals.losses;
@@ -364,6 +444,8 @@ export async function getStatsForPair(pair: Pair): Promise<PairStats | null> {
     losses: totals.losses,
     expired: totals.expired,
     winRate: total > 0 ? (totals.wins / total) * 100 : 0,
+    grossR: totals.grossR,
+    netR: totals.netR,
   };
 }
 
@@ -375,7 +457,7 @@ export async function getStatsForPair(pair: Pair): Promise<PairStats | null> {
  * Logs a scan result
  */
 export async function logScan(
-  pairs: Pair[],
+  pairs: Instrument[],
   timeframe: Timeframe,
   results: DetailedScanResult[],
   duration: number
@@ -392,6 +474,9 @@ export async function logScan(
       signals_found: signalsFound,
       results: JSON.stringify(results.map(r => ({
         pair: r.pair,
+        status: r.status,
+        error: r.error,
+        dataTrusted: r.dataQuality?.trusted ?? null,
         trend: r.trend,
         wicklessDetected: r.wicklessDetected,
         setup: r.setup ? {
@@ -433,10 +518,36 @@ export async function getRecentScans(limit: number = 20): Promise<unknown[]> {
 // Helper Functions
 // -----------------------------------------------------------------------------
 
-function mapDbToActiveSetup(row: Record<string, unknown>): ActiveSetup {
+/**
+ * Instrument of a stored row, or null (logged) when it isn't known
+ * Rows can outlive their instrument in the catalog, so they're checked
+ * rather than cast.
+ */
+function mapDbPair(row: Record<string, unknown>, table: string): Instrument | null {
+  const pair = toInstrument(String(row.pair));
+  if (!pair) {
+    console.error(`Skipping ${table} row ${row.id}: unknown instrument ${row.pair}`);
+  }
+  return pair;
+}
+
+/**
+ * Maps rows, dropping the ones the mapper rejects
+ */
+function mapDbRows<T>(
+  rows: Record<string, unknown>[],
+  mapper: (row: Record<string, unknown>) => T | null
+): T[] {
+  return rows.map(mapper).filter((item): item is T => item !== null);
+}
+
+function mapDbToActiveSetup(row: Record<string, unknown>): ActiveSetup | null {
+  const pair = mapDbPair(row, 'active_setups');
+  if (!pair) return null;
+
   return {
     id: row.id as string,
-    pair: row.pair as string,
+    pair,
     timeframe: row.timeframe as Timeframe,
     direction: row.direction as 'BUY' | 'SELL',
     signalCandleTime: row.signal_candle_time as string,
@@ -444,6 +555,7 @@ function mapDbToActiveSetup(row: Record<string, unknown>): ActiveSetup {
     signalCandleHigh: Number(row.signal_candle_high),
     signalCandleLow: Number(row.signal_candle_low),
     signalCandleClose: Number(row.signal_candle_close),
+    signalSpread: row.signal_spread != null ? Number(row.signal_spread) : null,
     entryZone: Number(row.entry_zone),
     stopLoss: Number(row.stop_loss),
     takeProfit: Number(row.take_profit),
@@ -453,11 +565,14 @@ function mapDbToActiveSetup(row: Record<string, unknown>): ActiveSetup {
   };
 }
 
-function mapDbToSignal(row: Record<string, unknown>): Signal {
+function mapDbToSignal(row: Record<string, unknown>): Signal | null {
+  const pair = mapDbPair(row, 'signals');
+  if (!pair) return null;
+
   return {
     id: row.id as string,
     setupId: row.setup_id as string,
-    pair: row.pair as string,
+    pair,
     timeframe: row.timeframe as Timeframe,
     direction: row.direction as 'BUY' | 'SELL',
     entryPrice: Number(row.entry_price),
@@ -466,6 +581,9 @@ function mapDbToSignal(row: Record<string, unknown>): Signal {
     entryTime: row.entry_time as string,
     outcome: row.outcome as 'WIN' | 'LOSS' | null,
     outcomeTime: row.outcome_time as string | null,
+    entryFillPrice: row.entry_fill_price != null ? Number(row.entry_fill_price) : null,
+    exitFillPrice: row.exit_fill_price != null ? Number(row.exit_fill_price) : null,
+    netR: row.net_r != null ? Number(row.net_r) : null,
     createdAt: row.created_at as string,
   };
 }
@@ -505,6 +623,7 @@ export async function createAndSaveSetup(
     signalCandleHigh: scanResult.wicklessCandle.high,
     signalCandleLow: scanResult.wicklessCandle.low,
     signalCandleClose: scanResult.wicklessCandle.close,
+    signalSpread: getCandleSpread(scanResult.wicklessCandle),
     entryZone: scanResult.setup.entryZone,
     stopLoss: scanResult.setup.stopLoss,
     takeProfit: scanResult.setup.takeProfit,
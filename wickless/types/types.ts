@@ -6,6 +6,7 @@
 // OANDA Candle Data
 // -----------------------------------------------------------------------------
 
+// open/high/low/close are mid prices; bid/ask are set when requested
 export interface Candle {
   time: string;
   open: number;
@@ -14,6 +15,27 @@ export interface Candle {
   close: number;
   volume?: number;
   complete: boolean;
+  bid?: PriceBar;
+  ask?: PriceBar;
+}
+
+export interface PriceBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type PriceSide = 'MID' | 'BID' | 'ASK';
+
+// OANDA `price` query parameter: M = mid, B = bid, A = ask
+export type OandaPriceComponents = 'M' | 'BA' | 'MBA';
+
+export interface OandaPriceBar {
+  o: string;
+  h: string;
+  l: string;
+  c: string;
 }
 
 export interface OandaCandleResponse {
@@ -23,32 +45,170 @@ export interface OandaCandleResponse {
     time: string;
     volume: number;
     complete: boolean;
-    mid: {
-      o: string;
-      h: string;
-      l: string;
-      c: string;
-    };
+    mid?: OandaPriceBar;
+    bid?: OandaPriceBar;
+    ask?: OandaPriceBar;
   }[];
 }
 
+// One entry of GET /v3/accounts/{id}/instruments (numbers as strings)
+export interface OandaInstrument {
+  name: string;
+  type: string;
+  displayName: string;
+  pipLocation: number;
+  displayPrecision: number;
+  tradeUnitsPrecision: number;
+  marginRate: string;
+}
+
+export interface OandaInstrumentsResponse {
+  instruments: OandaInstrument[];
+}
+
+// Why an OANDA request failed (see lib/http.ts)
+export type OandaErrorKind =
+  | 'AUTH'          // 401/403 - bad or missing API key
+  | 'RATE_LIMIT'    // 429
+  | 'INSTRUMENT'    // unknown or untradeable instrument
+  | 'NETWORK'       // connection failed
+  | 'TIMEOUT'       // no response in time
+  | 'SERVER'        // 5xx
+  | 'REQUEST';      // other 4xx
+
+// Where candles come from (OANDA, proxy, CSV files, memory - see lib/sources)
+export interface CandleSource {
+  readonly name: string;
+  // Most recent `count` candles, including the still-forming one if any
+  fetchCandles(pair: Instrument, timeframe: Timeframe, count: number): Promise<Candle[]>;
+  // Raw OANDA granularity (e.g., 'M1') so drill-down can ask for lower timeframes
+  fetchCandlesBetween(pair: Instrument, granularity: string, from: string, to: string): Promise<Candle[]>;
+}
+
+// -----------------------------------------------------------------------------
+// OANDA Pricing Stream
+// -----------------------------------------------------------------------------
+
+// One line of the pricing stream (newline-delimited JSON)
+export type OandaStreamMessage =
+  | {
+      type: 'PRICE';
+      instrument: string;
+      time: string;
+      bids: { price: string; liquidity?: number }[];
+      asks: { price: string; liquidity?: number }[];
+      tradeable?: boolean;
+    }
+  | {
+      type: 'HEARTBEAT';
+      time: string;
+    };
+
+// Top-of-book quote
+export interface PriceTick {
+  pair: Instrument;
+  time: string;
+  bid: number;
+  ask: number;
+}
+
 // -----------------------------------------------------------------------------
 // Swing Point Detection
 // -----------------------------------------------------------------------------
 
+// - CONFIRMED: enough candles to its right exist; it never changes again
+// - PROVISIONAL: the best candidate so far; later candles may confirm it,
+//   move it or cancel it
+export type SwingStatus = 'CONFIRMED' | 'PROVISIONAL';
+
 export interface SwingPoint {
   index: number;
   time: string;
   price: number;
   type: 'HIGH' | 'LOW';
+  status: SwingStatus;
+  // Index of the candle on whose close the swing became known (confirmed:
+  // the confirming candle; provisional: the latest candle)
+  knownAt: number;
+}
+
+// How swings are found (see lib/detection/swingDetectors.ts)
+// - FRACTAL: N-bar fractal (high above N candles each side)
+// - ATR_ZIGZAG: pivot once price reverses by a multiple of ATR
+// - PERCENT_ZIGZAG: pivot once price reverses by a percentage
+export type SwingDetectorType = 'FRACTAL' | 'ATR_ZIGZAG' | 'PERCENT_ZIGZAG';
+
+export interface SwingDetectorConfig {
+  type: SwingDetectorType;
+  // FRACTAL: candles on each side (default: SWING_LOOKBACK)
+  lookback?: number;
+  // FRACTAL: equal highs/lows to the right don't cancel the swing, so the
+  // first of a double top/bottom counts (default: false)
+  allowEqual?: boolean;
+  // ATR_ZIGZAG: ATR period and reversal size in ATRs
+  atrPeriod?: number;
+  atrMultiplier?: number;
+  // PERCENT_ZIGZAG: reversal size in percent of price
+  percent?: number;
 }
 
+// Picks the detector for matching pairs/timeframes (omitted = all)
+export interface SwingDetectorRule {
+  pairs?: Instrument[];
+  timeframes?: Timeframe[];
+  detector: SwingDetectorConfig;
+}
+
+// Confirms swings one candle at a time, without looking back at earlier
+// candles it was given
+export interface SwingTracker {
+  // Adds the next candle (oldest first); returns swings it confirms
+  push(candle: Candle): SwingPoint[];
+  // Unconfirmed candidates as of the last candle pushed
+  getProvisional(): SwingPoint[];
+}
+
+export interface SwingDetector {
+  name: string;
+  createTracker(): SwingTracker;
+}
+
+// A detector, or a fractal lookback
+export type SwingDetectorInput = SwingDetector | number;
+
 // -----------------------------------------------------------------------------
 // Trend Classification
 // -----------------------------------------------------------------------------
 
 export type Trend = 'UP' | 'DOWN' | 'RANGING';
 
+// How the trend is decided (see lib/detection/marketStructure.ts)
+// - SWINGS: last two swing highs and lows (HH+HL / LH+LL)
+// - STRUCTURE: persistent state changed only by BOS/CHoCH
+export type TrendMethod = 'SWINGS' | 'STRUCTURE';
+
+// What breaks a swing level: a candle close beyond it, or any wick
+export type StructureBreakMode = 'CLOSE' | 'WICK';
+
+export type StructureEventType = 'HH' | 'HL' | 'LH' | 'LL' | 'BOS' | 'CHOCH';
+
+export interface StructureEvent {
+  type: StructureEventType;
+  // Swing labels: up for HH/HL, down for LH/LL; breaks: break direction
+  direction: 'UP' | 'DOWN';
+  // Structure trend after the event
+  trend: Trend;
+  // Swing price, or the broken level
+  price: number;
+  // Swing candle, or the candle that broke the level
+  time: string;
+  index: number;
+  // Candle the event became known on (labels: when the swing confirmed)
+  knownAt: number;
+  // BOS/CHoCH: the swing that was broken
+  level: SwingPoint | null;
+}
+
 export interface TrendAnalysis {
   trend: Trend;
   swingHighs: SwingPoint[];
@@ -57,12 +217,78 @@ export interface TrendAnalysis {
   latestHL: SwingPoint | null;
   latestLH: SwingPoint | null;
   latestLL: SwingPoint | null;
+  // Persistent structure trend and its event history
+  structureTrend: Trend;
+  structureEvents: StructureEvent[];
+  // Unconfirmed swings after the last confirmed ones; informational only,
+  // nothing above is derived from them
+  provisionalSwings: SwingPoint[];
+}
+
+// What to do with setups against a higher-timeframe trend
+// (see lib/signals/alignment.ts)
+// - RECORD: only record the higher-timeframe trends
+// - DOWNRANK: keep the setup, rank it after aligned ones
+// - REJECT: the setup fails validation
+export type TrendFilterMode = 'OFF' | 'RECORD' | 'DOWNRANK' | 'REJECT';
+
+export interface TrendFilterConfig {
+  // Higher timeframes to check
+  timeframes: Timeframe[];
+  mode: TrendFilterMode;
+  // A RANGING higher timeframe counts against the setup (default: false)
+  rangingConflicts?: boolean;
+}
+
+export interface HigherTimeframeTrend {
+  timeframe: Timeframe;
+  // Null when its candles couldn't be fetched
+  trend: Trend | null;
+  // Agrees with the scanned trend (an unknown trend never does)
+  aligned: boolean;
+}
+
+export interface TrendAlignment {
+  mode: TrendFilterMode;
+  higherTimeframes: HigherTimeframeTrend[];
+  // Timeframes against the setup (including ones that couldn't be checked)
+  conflicts: Timeframe[];
+  // Share of higher timeframes aligned (1 = all)
+  score: number;
 }
 
 // -----------------------------------------------------------------------------
 // Wickless Candle Detection
 // -----------------------------------------------------------------------------
 
+// How a wickless threshold scales (see lib/detection/wickless.ts)
+// - FIXED: price distance (default: the pair's tolerance ε)
+// - RANGE: fraction of the signal candle's high-low range
+// - ATR: multiple of ATR before the signal candle
+export type ToleranceMode = 'FIXED' | 'RANGE' | 'ATR';
+
+export interface ToleranceSize {
+  mode: ToleranceMode;
+  // Price, fraction of range or ATRs; FIXED without a value uses ε
+  value?: number;
+}
+
+export interface WicklessConfig {
+  // Largest entry-side wick still counted as none
+  wickTolerance: ToleranceSize;
+  // Smallest body for a signal candle (doji filter)
+  minBody: ToleranceSize;
+  // ATR period for ATR sizes
+  atrPeriod: number;
+}
+
+// Overrides wickless settings for matching pairs/timeframes (omitted = all)
+export interface WicklessRule {
+  pairs?: Instrument[];
+  timeframes?: Timeframe[];
+  config: Partial<WicklessConfig>;
+}
+
 export interface WicklessResult {
   isValid: boolean;
   direction: 'BUY' | 'SELL' | null;
@@ -100,7 +326,7 @@ export interface RetracementCheck {
 
 export interface ActiveSetup {
   id: string;
-  pair: string;
+  pair: Instrument;
   timeframe: Timeframe;
   direction: 'BUY' | 'SELL';
   signalCandleTime: string;
@@ -108,6 +334,8 @@ export interface ActiveSetup {
   signalCandleHigh: number;
   signalCandleLow: number;
   signalCandleClose: number;
+  // Ask - bid at the signal candle close (null without bid/ask data)
+  signalSpread: number | null;
   entryZone: number;
   stopLoss: number;
   takeProfit: number;
@@ -125,7 +353,7 @@ export type SetupStatus = 'WAITING' | 'TRIGGERED' | 'EXPIRED';
 export interface Signal {
   id: string;
   setupId: string;
-  pair: string;
+  pair: Instrument;
   timeframe: Timeframe;
   direction: 'BUY' | 'SELL';
   entryPrice: number;
@@ -134,15 +362,80 @@ export interface Signal {
   entryTime: string;
   outcome: SignalOutcome | null;
   outcomeTime: string | null;
+  // Net of spread, slippage and commission (null until closed)
+  entryFillPrice: number | null;
+  exitFillPrice: number | null;
+  netR: number | null;
   createdAt: string;
 }
 
 export type SignalOutcome = 'WIN' | 'LOSS';
 
+// -----------------------------------------------------------------------------
+// Transaction Costs
+// -----------------------------------------------------------------------------
+
+// Spread in price units. Time-of-day windows use UTC hours [startHour, endHour)
+export type SpreadModel =
+  | { type: 'FIXED'; spread: number }
+  | {
+      type: 'TIME_OF_DAY';
+      spread: number;
+      windows: { startHour: number; endHour: number; spread: number }[];
+    };
+
+// Slippage in price units, applied against the trader on stop-loss exits
+export type SlippageModel =
+  | { type: 'NONE' }
+  | { type: 'FIXED'; slippage: number }
+  | { type: 'RANDOM'; maxSlippage: number };
+
+export interface CostConfig {
+  spread: SpreadModel;
+  slippage: SlippageModel;
+  // Round-turn commission per standard lot (account currency)
+  commissionPerLot: number;
+  // Value of one pip per standard lot (account currency)
+  pipValuePerLot: number;
+}
+
+export interface CostBreakdown {
+  entryFillPrice: number;
+  exitFillPrice: number;
+  spreadCost: number;
+  slippageCost: number;
+  commissionCost: number;
+  totalCost: number;
+  grossR: number;
+  netR: number;
+}
+
+// -----------------------------------------------------------------------------
+// Outcome Resolution (SL/TP ambiguity)
+// -----------------------------------------------------------------------------
+
+// How to score a candle that spans both SL and TP when finer data is missing
+export type AmbiguityPolicy = 'PESSIMISTIC' | 'OPTIMISTIC' | 'OPEN_DISTANCE';
+
+export type OutcomeResolutionMethod =
+  | 'NONE'             // Neither level touched
+  | 'SINGLE_LEVEL'     // Only one level inside the candle
+  | 'LOWER_TIMEFRAME'  // Resolved by walking lower-timeframe candles
+  | 'FALLBACK';        // Ambiguous - resolved by AmbiguityPolicy
+
+export interface OutcomeResolution {
+  outcome: SignalOutcome | 'OPEN';
+  outcomeTime: string | null;
+  outcomePrice: number | null;
+  ambiguous: boolean;
+  method: OutcomeResolutionMethod;
+}
+
 // -----------------------------------------------------------------------------
 // Configuration Types
 // -----------------------------------------------------------------------------
 
+// Instruments with hand-tuned settings in lib/config.ts
 export type Pair = 
   | 'EUR_USD' 
   | 'GBP_USD' 
@@ -150,7 +443,32 @@ export type Pair =
   | 'USD_JPY' 
   | 'XAU_USD';
 
-export type Timeframe = 'M15' | 'M30' | 'H1' | 'H4';
+// Any other instrument in the catalog (e.g. 'EUR_JPY', 'NAS100_USD'),
+// configured from its pip size. Only toInstrument() in lib/config.ts
+// creates one, after looking the name up.
+export type InstrumentId = string & { readonly __brand: 'InstrumentId' };
+
+// Anything that can be scanned: a configured pair or a catalog instrument
+export type Instrument = Pair | InstrumentId;
+
+export type InstrumentType = 'CURRENCY' | 'CFD' | 'METAL';
+
+// Instrument metadata (see lib/market/instruments.ts)
+export interface InstrumentInfo {
+  // OANDA instrument name
+  name: string;
+  type: InstrumentType;
+  displayName: string;
+  // Pip size is 10^pipLocation (e.g. -4 → 0.0001)
+  pipLocation: number;
+  // Decimals prices are quoted with
+  displayPrecision: number;
+  // Decimals allowed in order units
+  tradeUnitsPrecision: number;
+  marginRate: number;
+}
+
+export type Timeframe = 'M5' | 'M15' | 'M30' | 'H1' | 'H4' | 'D1' | 'W1';
 
 export interface PairConfig {
   symbol: string;
@@ -158,6 +476,16 @@ export interface PairConfig {
   tolerance: number;
   slBuffer: number;
   pipMultiplier: number;
+  displayPrecision: number;
+}
+
+// Tunable strategy parameters - defaults come from STRATEGY_CONFIG and PAIR_CONFIGS
+export interface StrategyParams {
+  swingLookback: number;
+  maxCandlesForEntry: number;
+  riskRewardRatio: number;
+  tolerance: number;
+  slBuffer: number;
 }
 
 export interface TimeframeConfig {
@@ -165,15 +493,89 @@ export interface TimeframeConfig {
   displayName: string;
   scanInterval: number;
   oandaGranularity: string;
+  minutes: number;
+  drillDownGranularity: string;
+}
+
+// -----------------------------------------------------------------------------
+// Market Hours (see lib/market/calendar.ts)
+// -----------------------------------------------------------------------------
+
+// Daily pause in New York hours [startHour, endHour), e.g. metals 17-18
+export interface TradingHours {
+  dailyBreak?: { startHour: number; endHour: number };
+}
+
+// A trading day with no trading, named by the New York date it would have
+// closed on (17:00). 'MM-DD' repeats every year, 'YYYY-MM-DD' is one-off.
+export interface MarketHoliday {
+  date: string;
+  name?: string;
+  // Default: every pair
+  pairs?: Instrument[];
+}
+
+export type MarketClosureReason = 'WEEKEND' | 'HOLIDAY' | 'DAILY_BREAK';
+
+export interface MarketClosure {
+  reason: MarketClosureReason;
+  // When trading resumes (ISO, UTC), unless another closure follows
+  until: string;
+  name?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Data Quality (see lib/sources/quality.ts)
+// -----------------------------------------------------------------------------
+
+export type DataQualityIssueType =
+  | 'DUPLICATE'          // Same timestamp more than once
+  | 'OUT_OF_ORDER'       // Older than the candle before it
+  | 'INVALID_OHLC'       // high < low, open/close outside the range, NaN or <= 0
+  | 'ZERO_RANGE'         // high === low
+  | 'MISALIGNED'         // Timestamp isn't a candle open for the granularity
+  | 'INCOMPLETE'         // Incomplete candle before the last one
+  | 'MISSING';           // Candles the market was open for but weren't returned
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  // ERROR makes the series untrusted unless repaired
+  severity: 'ERROR' | 'WARNING';
+  time: string;
+  message: string;
+  // Whether the repair pass fixed it
+  repaired: boolean;
+}
+
+export interface DataQualityReport {
+  // Candles received
+  checked: number;
+  issues: DataQualityIssue[];
+  // Issues fixed by the repair pass
+  repaired: number;
+  missingCandles: number;
+  // False when errors remain or too many candles are missing
+  trusted: boolean;
 }
 
 // -----------------------------------------------------------------------------
 // Scanner Types
 // -----------------------------------------------------------------------------
 
+// FAILED = candles couldn't be fetched or analysed; trend is meaningless
+// CLOSED = the pair's market was closed, so nothing was fetched
+export type ScanStatus = 'OK' | 'FAILED' | 'CLOSED';
+
+export interface ScanError {
+  kind: OandaErrorKind | 'UNKNOWN';
+  message: string;
+}
+
 export interface ScanResult {
-  pair: Pair;
+  pair: Instrument;
   timeframe: Timeframe;
+  status: ScanStatus;
+  error: ScanError | null;
   trend: Trend;
   wicklessDetected: boolean;
   wicklessCandle: Candle | null;
@@ -184,7 +586,7 @@ export interface ScanResult {
 export interface ScannerState {
   isScanning: boolean;
   lastScan: string | null;
-  activePairs: Pair[];
+  activePairs: Instrument[];
   activeTimeframe: Timeframe;
   results: ScanResult[];
 }
@@ -194,13 +596,46 @@ export interface ScannerState {
 // -----------------------------------------------------------------------------
 
 export interface PairStats {
-  pair: Pair;
+  pair: Instrument;
   timeframe: Timeframe;
   totalSignals: number;
   wins: number;
   losses: number;
   expired: number;
   winRate: number;
+  grossR: number;
+  netR: number;
+}
+
+// Trade-level performance metrics, computed from closed signals (R is net of costs)
+export interface PerformanceMetrics {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalR: number;
+  // Average R per trade
+  expectancy: number;
+  // Gross profit / gross loss in R (null when there are no losing trades)
+  profitFactor: number | null;
+  averageWinR: number;
+  averageLossR: number;
+  maxDrawdownR: number;
+  // Drawdown of a fixed-fractional account risking riskPerTrade % per trade
+  maxDrawdownPercent: number;
+  // Annualized from daily R
+  sharpeRatio: number;
+  sortinoRatio: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  averageMinutesInTrade: number;
+}
+
+export interface MetricsBreakdown {
+  overall: PerformanceMetrics;
+  byPair: Partial<Record<Instrument, PerformanceMetrics>>;
+  byTimeframe: Partial<Record<Timeframe, PerformanceMetrics>>;
+  byDirection: Partial<Record<'BUY' | 'SELL', PerformanceMetrics>>;
 }
 
 // -----------------------------------------------------------------------------